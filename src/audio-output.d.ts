@@ -0,0 +1,12 @@
+/**
+ * Type declarations for AudioContext output device selection (Chrome/Edge 110+),
+ * not yet in TypeScript's DOM lib. Optional so callers feature-detect.
+ *
+ * Reference: https://developer.mozilla.org/en-US/docs/Web/API/AudioContext/setSinkId
+ */
+
+interface AudioContext {
+  /** Current output device id ("" = system default). */
+  readonly sinkId?: string | { type: "none" };
+  setSinkId?(sinkId: string): Promise<void>;
+}
@@ -0,0 +1,17 @@
+/**
+ * Type declarations for the AudioWorkletGlobalScope (not part of TypeScript's
+ * DOM lib). Covers only what `services/soundtouch-worklet.ts` uses; the
+ * main-thread side (`AudioWorkletNode`, `context.audioWorklet`) is in the DOM lib.
+ *
+ * Reference: https://developer.mozilla.org/en-US/docs/Web/API/AudioWorkletGlobalScope
+ */
+
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor,
+): void;
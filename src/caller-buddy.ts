@@ -18,6 +18,7 @@ import {
   readTextFile,
   readBinaryFile,
   writeTextFile,
+  writeBinaryFile,
   deleteFile,
   fileExists,
   listDirectory,
@@ -33,22 +34,60 @@ import {
 } from "./services/demo-songs.js";
 import {
   WebAudioEngine,
+  tempoRatioFromDelta,
   type AudioEngine,
 } from "./services/audio-engine.js";
-import { detectBPM } from "./services/bpm-detector.js";
-import { defaultSettings, normalizeSettings, type Settings } from "./models/settings.js";
+import { WorkletAudioEngine } from "./services/worklet-audio-engine.js";
+import {
+  decodeForAnalysis,
+  detectBeat,
+  detectBeatGrid,
+  tempoAgreement,
+} from "./services/bpm-detector.js";
+import { encodeWav, renderAdjustedAudio } from "./services/audio-export.js";
+import { detectKey } from "./services/key-detector.js";
+import { detectLeadIn } from "./services/lead-in-detector.js";
+import { suggestLoopPoints, type LoopSuggestion } from "./services/loop-suggester.js";
+import { detectSongSections } from "./services/section-detector.js";
+import { loadWaveformPeaks } from "./services/waveform-cache.js";
+import { levelingGainDb, measureLoudness } from "./services/loudness-meter.js";
+import {
+  isAudioOutputSelectionSupported,
+  listAudioOutputs,
+  loadSavedAudioOutput,
+  resolveSavedAudioOutput,
+  saveAudioOutput,
+  type AudioOutputDevice,
+} from "./services/audio-output.js";
+import {
+  defaultSettings,
+  normalizeSettings,
+  type AlarmTimer,
+  type MedleySwitchBy,
+  type Settings,
+  type TempoMode,
+  type TimerAlarm,
+} from "./models/settings.js";
 import {
   applyLyricsFontScaleFromSettings,
   mergeLegacyLyricsScaleFromDisk,
   persistLyricsScaleMirror,
 } from "./utils/lyrics-scale.js";
 import {
+  type AudioSupport,
   type Song,
   nextOrderAdded,
   effectiveAudioLoopPoints,
+  effectiveDeltaTempo,
+  isAlwaysDecodable,
   isMusicFile,
+  isPatter,
+  isSingingCall,
   lyricsFilenameFor,
+  MUSIC_EXTENSIONS,
   musicFilenameFromParts,
+  NO_KEY,
+  UNMEASURABLE_LOUDNESS,
   extensionOf,
   sanitizeFilenamePart,
 } from "./models/song.js";
@@ -62,6 +101,8 @@ import {
 } from "./utils/play-history.js";
 import { log } from "./services/logger.js";
 import { formatUnknownError } from "./utils/format.js";
+import { medleyTempoDelta } from "./utils/medley.js";
+import { pitchToKey } from "./utils/musical-key.js";
 import {
   decodePathSegment,
   normalizePlaylistRelPath,
@@ -75,9 +116,18 @@ import {
 
 const SETTINGS_JSON = "CallerBuddySettings.json";
 
+/** Length of the crossfade between patter medley tracks, in seconds. */
+const MEDLEY_CROSSFADE_SECONDS = 4;
+
+/** Settings key holding each timer's alarm. */
+const ALARM_SETTING: Record<AlarmTimer, "breakAlarm" | "patterAlarm"> = {
+  break: "breakAlarm",
+  patter: "patterAlarm",
+};
+
 export class CallerBuddy {
   readonly state = new AppState();
-  readonly audio: AudioEngine = new WebAudioEngine();
+  readonly audio: AudioEngine = createAudioEngine();
 
   /**
    * When the song-play view is mounted, it registers an async guard invoked
@@ -99,6 +149,17 @@ export class CallerBuddy {
    */
   private lastLoadedSongDirHandle: FileSystemDirectoryHandle | null = null;
 
+  /**
+   * Decoded audio of the song expected to play next (see {@link preloadSongAudio}).
+   * Only one song is kept so memory stays bounded; `audio` resolves to null
+   * if the preload failed, and {@link loadSongAudio} then reads the file itself.
+   */
+  private preloadedAudio: {
+    dirHandle: FileSystemDirectoryHandle;
+    musicFile: string;
+    audio: Promise<AudioBuffer | null>;
+  } | null = null;
+
   /**
    * When true, closing the player does not update lastUsed / playWeight.
    * App-wide, not persisted across reloads.
@@ -175,6 +236,14 @@ export class CallerBuddy {
   async init(): Promise<void> {
     log.info("CallerBuddy initializing…");
 
+    if (isAudioOutputSelectionSupported()) {
+      void this.applySavedAudioOutput();
+      // Follow the saved device when it is unplugged (→ default) or plugged back in.
+      navigator.mediaDevices.addEventListener("devicechange", () => {
+        void this.applySavedAudioOutput();
+      });
+    }
+
     const storedHandle = await loadRootHandle();
     if (storedHandle) {
       log.info(`init: found stored handle "${storedHandle.name}", checking permission…`);
@@ -714,16 +783,19 @@ export class CallerBuddy {
     }
 
     const key = song.musicFile.toLowerCase();
+    // A medley track plays at the medley's tempo; its own tempo is what gets saved.
+    const savedTempo = this.medleySavedTempos.get(key);
+    const persisted = savedTempo ? { ...song, ...savedTempo } : song;
     try {
       const folderSongs = await loadSongsJson(handle);
       const folderIdx = folderSongs.findIndex(
         (s) => s.musicFile.toLowerCase() === key,
       );
       if (folderIdx >= 0) {
-        folderSongs[folderIdx] = song;
+        folderSongs[folderIdx] = persisted;
       } else {
-        song.orderAdded = nextOrderAdded(folderSongs);
-        folderSongs.push(song);
+        song.orderAdded = persisted.orderAdded = nextOrderAdded(folderSongs);
+        folderSongs.push(persisted);
       }
       await saveSongsJson(handle, folderSongs);
       this.state.emit(StateEvents.SONG_UPDATED);
@@ -1029,6 +1101,141 @@ export class CallerBuddy {
     }
   }
 
+  /** Loop suggestions by lower-cased {@link musicPathOf}, kept for the session. */
+  private loopSuggestionCache = new Map<string, Promise<LoopSuggestion[]>>();
+
+  /**
+   * Analyze a song's audio and propose patter loop regions (best first).
+   * Reads the file again in the analysis context so playback is unaffected.
+   * Each file is analyzed once per session; later calls (a medley coming back
+   * to a track, reopening the song) get the cached result.
+   * Returns [] when the file cannot be read or has no detectable beat.
+   */
+  async suggestLoopPoints(song: Song): Promise<LoopSuggestion[]> {
+    const handle = song.dirHandle ?? this.state.rootHandle;
+    if (!handle) return [];
+    const path = (await this.musicPathOf(song)).toLowerCase();
+    let request = this.loopSuggestionCache.get(path);
+    if (!request) {
+      request = (async () => {
+        try {
+          const audioData = await readBinaryFile(handle, song.musicFile);
+          return await suggestLoopPoints(audioData);
+        } catch (err) {
+          log.warn(`Loop suggestion failed for "${song.title}":`, err);
+          return [];
+        }
+      })();
+      this.loopSuggestionCache.set(path, request);
+    }
+    return request;
+  }
+
+  /** Loop suggestions already found this session, or null if the song was not analyzed. */
+  async cachedLoopSuggestions(song: Song): Promise<LoopSuggestion[] | null> {
+    const path = (await this.musicPathOf(song)).toLowerCase();
+    const request = this.loopSuggestionCache.get(path);
+    return request ? await request : null;
+  }
+
+  /**
+   * Find the singing-call section starts in a song's audio and persist them
+   * to CallerBuddySongs.json. Leaves the song unchanged (and returns false)
+   * when the file cannot be read or the sections cannot be detected.
+   */
+  async detectSongSections(song: Song): Promise<boolean> {
+    const handle = song.dirHandle ?? this.state.rootHandle;
+    if (!handle) return false;
+    try {
+      const audioData = await readBinaryFile(handle, song.musicFile);
+      const times = await detectSongSections(audioData);
+      if (times.length === 0) return false;
+      song.sectionTimes = times;
+      await this.updateSong(song);
+      return true;
+    } catch (err) {
+      log.warn(`Section detection failed for "${song.title}":`, err);
+      return false;
+    }
+  }
+
+  /**
+   * Waveform overview peaks for a song (see waveform-cache.ts), cached under
+   * CallerBuddyRoot. Returns [] when there is no root or the file cannot be read.
+   */
+  async loadWaveform(song: Song): Promise<number[]> {
+    const root = this.state.rootHandle;
+    if (!root) return [];
+    try {
+      const fileHandle = await (song.dirHandle ?? root).getFileHandle(song.musicFile);
+      const relPath = await this.musicPathOf(song);
+      return await loadWaveformPeaks(root, relPath, await fileHandle.getFile());
+    } catch (err) {
+      log.warn(`Waveform load failed for "${song.title}":`, err);
+      return [];
+    }
+  }
+
+  /**
+   * CallerBuddyRoot-relative path of a song's music file; the file name alone
+   * when the song's folder is not under the root.
+   */
+  private async musicPathOf(song: Song): Promise<string> {
+    const root = this.state.rootHandle;
+    const dir = song.dirHandle ?? root;
+    const folder = root && dir ? await root.resolve(dir) : null;
+    return [...(folder ?? []), song.musicFile].join("/");
+  }
+
+  getTempoMode(): TempoMode {
+    return this.state.settings.tempoMode;
+  }
+
+  /** Switch between relative and target-BPM tempo (persisted) and apply it to the current song. */
+  async setTempoMode(mode: TempoMode): Promise<void> {
+    await this.updateSetting("tempoMode", mode);
+    const song = this.state.currentSong;
+    if (song) this.applySongTempo(song);
+  }
+
+  /** Default target BPM for songs of this one's kind (singing call or patter). */
+  getDefaultTargetTempo(song: Song): number {
+    const settings = this.state.settings;
+    return isPatter(song) ? settings.patterTargetBpm : settings.singingCallTargetBpm;
+  }
+
+  /** Set the default target BPM for songs of this one's kind (persisted) and apply it. */
+  async setDefaultTargetTempo(song: Song, bpm: number): Promise<void> {
+    await this.updateSetting(isPatter(song) ? "patterTargetBpm" : "singingCallTargetBpm", bpm);
+    const current = this.state.currentSong;
+    if (current) this.applySongTempo(current);
+  }
+
+  /** BPM the song is set to play at: its own target, else the default; 0 in delta mode. */
+  songTargetTempo(song: Song): number {
+    if (this.state.settings.tempoMode !== "target") return 0;
+    return song.targetTempo > 0 ? song.targetTempo : this.getDefaultTargetTempo(song);
+  }
+
+  /** Tempo change in BPM the song plays at under the current tempo mode. */
+  songDeltaTempo(song: Song): number {
+    return effectiveDeltaTempo(song, this.songTargetTempo(song));
+  }
+
+  /**
+   * Send the song's tempo to the engine: its tempo change (see
+   * {@link songDeltaTempo}), or with tempoRamp on a ramp from there to
+   * tempoRampEnd. A ramp starts over from here.
+   */
+  applySongTempo(song: Song): void {
+    const delta = this.songDeltaTempo(song);
+    if (song.tempoRamp) {
+      this.audio.setTempoRamp(delta, song.tempoRampEnd, song.tempoRampSeconds, song.originalTempo);
+    } else {
+      this.audio.setTempo(delta, song.originalTempo);
+    }
+  }
+
   /** Load and decode the audio data for a song, prepare the audio engine. */
   async loadSongAudio(song: Song): Promise<void> {
     const handle = song.dirHandle ?? this.state.rootHandle;
@@ -1037,20 +1244,21 @@ export class CallerBuddy {
       return;
     }
     this.lastLoadedSongDirHandle = handle;
+    const preloaded = this.takePreloadedAudio(handle, song.musicFile);
     try {
       const t0 = performance.now();
-      const data = await readBinaryFile(handle, song.musicFile);
+      const preloadedBuffer = preloaded ? await preloaded : null;
+      const buffer =
+        preloadedBuffer ??
+        (await this.audio.decodeAudio(await readBinaryFile(handle, song.musicFile)));
       const t1 = performance.now();
-      await this.audio.loadAudio(data);
+      await this.audio.loadDecodedAudio(buffer);
+      if (song.leadIn < 0) this.measureLeadIn(song, handle, buffer);
       const t2 = performance.now();
-      this.audio.setVolume(song.volume);
-      const { start, end } = effectiveAudioLoopPoints(song, this.audio.getDuration());
-      this.audio.setLoopPoints(start, end);
-      this.audio.setPitch(song.pitch);
-      this.audio.setTempo(song.deltaTempo, song.originalTempo);
+      this.applySongSettings(song);
       const t3 = performance.now();
       log.info(
-        `loadSongAudio: read=${(t1 - t0).toFixed(1)}ms decode=${(t2 - t1).toFixed(1)}ms setup=${(t3 - t2).toFixed(1)}ms total=${(t3 - t0).toFixed(1)}ms`,
+        `loadSongAudio: ${preloadedBuffer ? "preloaded" : "read+decode"} wait=${(t1 - t0).toFixed(1)}ms load=${(t2 - t1).toFixed(1)}ms setup=${(t3 - t2).toFixed(1)}ms total=${(t3 - t0).toFixed(1)}ms`,
       );
     } catch (err) {
       this.lastLoadedSongDirHandle = null;
@@ -1059,83 +1267,722 @@ export class CallerBuddy {
     }
   }
 
+  /** Send a just-loaded song's volume, EQ, loop, pitch, tempo, start and metronome to the engine. */
+  private applySongSettings(song: Song): void {
+    this.audio.setVolume(song.volume);
+    this.audio.setLevelingGain(this.levelingGainDbFor(song));
+    this.audio.setEqualizer({ bass: song.eqBass, mid: song.eqMid, treble: song.eqTreble });
+    const { start, end } = effectiveAudioLoopPoints(song, this.audio.getDuration());
+    this.audio.setLoopPoints(start, end);
+    this.audio.setLoopCrossfade(song.loopCrossfadeTime);
+    this.audio.setPitch(song.pitch);
+    this.audio.setPitchCents(song.pitchCents);
+    this.audio.setStretchPreset(song.stretchPreset);
+    this.applySongTempo(song);
+    this.applySongStartOffset(song);
+    void this.applyMetronome(song);
+  }
+
+  /** Start playback after the song's lead-in when it is measured and skipping is on. */
+  applySongStartOffset(song: Song): void {
+    this.audio.setStartOffset(song.skipLeadIn ? Math.max(0, song.leadIn) : 0);
+  }
+
+  /**
+   * Find the silence before the music in a freshly decoded song and save it
+   * to CallerBuddySongs.json (once per song; 0 means nothing to skip).
+   */
+  private measureLeadIn(song: Song, dirHandle: FileSystemDirectoryHandle, buffer: AudioBuffer): void {
+    song.leadIn = detectLeadIn(buffer);
+    log.info(`Lead-in for "${song.title}": ${song.leadIn.toFixed(2)}s`);
+    mergeDetectedField(dirHandle, [song], "leadIn").catch((err: unknown) => {
+      log.warn(`Could not persist lead-in for "${song.title}":`, err);
+    });
+  }
+
+  /**
+   * Read and decode a song in the background so {@link loadSongAudio} can
+   * start it without delay. Replaces any earlier preload; a no-op when this
+   * song is already preloaded or loading.
+   */
+  preloadSongAudio(song: Song): void {
+    const handle = song.dirHandle ?? this.state.rootHandle;
+    if (!handle) return;
+    const current = this.preloadedAudio;
+    if (current && current.dirHandle === handle && current.musicFile === song.musicFile) return;
+
+    const t0 = performance.now();
+    const audio = readBinaryFile(handle, song.musicFile)
+      .then((data) => this.audio.decodeAudio(data))
+      .then((buffer) => {
+        log.info(
+          `preloadSongAudio: "${song.title}" ready in ${(performance.now() - t0).toFixed(0)}ms`,
+        );
+        return buffer;
+      })
+      .catch((err: unknown) => {
+        log.warn(`preloadSongAudio: "${song.title}" failed:`, err);
+        return null;
+      });
+    this.preloadedAudio = { dirHandle: handle, musicFile: song.musicFile, audio };
+  }
+
+  /** Drop the preloaded song, if any (e.g. nothing is left to play). */
+  clearPreloadedAudio(): void {
+    this.preloadedAudio = null;
+  }
+
+  /**
+   * The preloaded audio when it is for this file. Always empties the slot:
+   * once a song is loaded, an older preload is unlikely to be next.
+   */
+  private takePreloadedAudio(
+    handle: FileSystemDirectoryHandle,
+    musicFile: string,
+  ): Promise<AudioBuffer | null> | null {
+    const preloaded = this.preloadedAudio;
+    this.preloadedAudio = null;
+    if (!preloaded || preloaded.dirHandle !== handle || preloaded.musicFile !== musicFile) {
+      return null;
+    }
+    return preloaded.audio;
+  }
+
+  /**
+   * Render a song with its pitch, tempo (or ramp), volume, leveling, EQ and
+   * loop settings and save it as a WAV file at the top of CallerBuddyRoot.
+   * Patter loops, so it is exported at the patter timer length.
+   * `onProgress` receives the fraction (0–1) rendered so far.
+   * Returns the new file's name.
+   */
+  async exportAdjustedAudio(
+    song: Song,
+    onProgress?: (fraction: number) => void,
+  ): Promise<string> {
+    const root = this.state.rootHandle;
+    const dir = song.dirHandle ?? root;
+    if (!root || !dir) throw new Error("No CallerBuddy folder is open");
+
+    const decoded = await decodeForAnalysis(await readBinaryFile(dir, song.musicFile));
+    const { start, end } = effectiveAudioLoopPoints(song, decoded.duration);
+    const looping = end > 0 && end > start;
+    const startRatio = tempoRatioFromDelta(this.songDeltaTempo(song), song.originalTempo);
+    const rendered = await renderAdjustedAudio(
+      decoded,
+      {
+        pitchSemitones: song.pitch + song.pitchCents / 100,
+        stretchPreset: song.stretchPreset,
+        tempoRatio: startRatio,
+        tempoRamp: song.tempoRamp
+          ? {
+              from: startRatio,
+              to: tempoRatioFromDelta(song.tempoRampEnd, song.originalTempo),
+              seconds: song.tempoRampSeconds,
+            }
+          : null,
+        gain: (song.volume / 100) * 10 ** (this.levelingGainDbFor(song) / 20),
+        equalizer: { bass: song.eqBass, mid: song.eqMid, treble: song.eqTreble },
+        loopStart: start,
+        loopEnd: end,
+        loopCrossfade: song.loopCrossfadeTime,
+        // Without a loop the song ends by itself; 0.5 is the slowest tempo ratio.
+        maxSeconds: looping
+          ? this.state.settings.patterTimerMinutes * 60
+          : decoded.duration / 0.5 + 1,
+      },
+      onProgress,
+    );
+
+    const base = `${song.musicFile.replace(/\.[^.]*$/, "")} (adjusted)`;
+    let filename = `${base}.wav`;
+    for (let n = 2; await fileExists(root, filename); n++) filename = `${base} ${n}.wav`;
+    const channels = [rendered.getChannelData(0), rendered.getChannelData(1)];
+    await writeBinaryFile(root, filename, encodeWav(channels, rendered.sampleRate));
+    log.info(`Exported "${song.title}" as "${filename}" (${rendered.duration.toFixed(1)}s)`);
+    return filename;
+  }
+
+  // -----------------------------------------------------------------------
+  // Decode probe (background, per-folder)
+  // -----------------------------------------------------------------------
+
+  /** Tracks which folders currently have the decode probe running (by handle name). */
+  private audioProbeActive = new Set<string>();
+
+  /**
+   * Record whether this browser can play each song in a folder that has not
+   * been probed yet. MP3/M4A/WAV are marked "ok" without decoding; the other
+   * formats are decoded once and the result is kept. Same flow as
+   * {@link analyzeSongs}; the playlist editor runs it first so the analysis
+   * can skip unplayable files.
+   */
+  async probeAudioForSongs(
+    dirHandle: FileSystemDirectoryHandle,
+    songs: Song[],
+    onUpdate: (songs: Song[]) => void,
+  ): Promise<void> {
+    const folderKey = dirHandle.name;
+    if (this.audioProbeActive.has(folderKey)) return;
+
+    const unprobed = songs.filter((s) => s.audioSupport === "");
+    if (unprobed.length === 0) return;
+
+    this.audioProbeActive.add(folderKey);
+    const needsProbe = unprobed.filter((s) => !isAlwaysDecodable(s.musicFile));
+    if (needsProbe.length > 0) {
+      log.info(`Probing ${needsProbe.length} music files in "${folderKey}"…`);
+    }
+
+    const changed: Song[] = [];
+    for (const song of unprobed) {
+      if (isAlwaysDecodable(song.musicFile)) {
+        song.audioSupport = "ok";
+        changed.push(song);
+        continue;
+      }
+      let audioData: ArrayBuffer;
+      try {
+        audioData = await readBinaryFile(dirHandle, song.musicFile);
+      } catch (err) {
+        // A missing or unreadable file says nothing about the format.
+        log.warn(`Could not read "${song.musicFile}" to probe it:`, err);
+        continue;
+      }
+      let support: AudioSupport;
+      try {
+        await decodeForAnalysis(audioData);
+        support = "ok";
+      } catch {
+        support = "unsupported";
+        log.warn(`This browser cannot decode "${song.musicFile}"`);
+      }
+      song.audioSupport = support;
+      changed.push(song);
+      onUpdate(songs);
+    }
+
+    if (changed.length > 0) {
+      try {
+        await mergeDetectedField(dirHandle, changed, "audioSupport");
+      } catch (err) {
+        log.warn(`Could not persist decode probe results for "${folderKey}":`, err);
+      }
+    }
+
+    this.audioProbeActive.delete(folderKey);
+  }
+
   // -----------------------------------------------------------------------
-  // BPM detection (background, per-folder)
+  // Song analysis: BPM, loudness and key (background, per-folder)
   // -----------------------------------------------------------------------
 
-  /** Tracks which folders currently have BPM detection running (by handle name). */
-  private bpmDetectionActive = new Set<string>();
+  /** Tracks which folders currently have song analysis running (by handle name). */
+  private analysisActive = new Set<string>();
 
   /**
-   * Run BPM detection for songs in a specific folder that have originalTempo === 0.
-   * Called by each playlist-editor instance after loading its folder.
+   * Analyze songs in a specific folder that have no BPM, beat phase, BPM
+   * confidence, loudness or key yet. Each file is read and decoded once; the
+   * decoded audio goes to whichever of beat detection (which also stores the
+   * tempo map), loudness measurement and key detection the song still needs,
+   * and all results are saved with one merge at the end.
+   * Called by each playlist-editor instance after the decode probe.
    *
    * @param dirHandle  The folder containing the songs' audio files.
    * @param songs      The song list to analyze (mutated in place).
-   * @param onUpdate   Callback fired when any song's BPM is updated, receives
-   *                   the full (mutated) songs array so the editor can refresh.
+   * @param onUpdate   Callback fired when any song is updated, receives the
+   *                   full (mutated) songs array so the editor can refresh.
    */
-  async detectBpmForSongs(
+  async analyzeSongs(
     dirHandle: FileSystemDirectoryHandle,
     songs: Song[],
     onUpdate: (songs: Song[]) => void,
   ): Promise<void> {
     const folderKey = dirHandle.name;
-    if (this.bpmDetectionActive.has(folderKey)) {
-      log.info(`BPM detection already running for "${folderKey}", skipping`);
+    if (this.analysisActive.has(folderKey)) {
+      log.info(`Song analysis already running for "${folderKey}", skipping`);
       return;
     }
 
-    const needsBpm = songs.filter((s) => s.originalTempo === 0);
-    if (needsBpm.length === 0) {
-      log.info(`All songs in "${folderKey}" already have BPM data`);
+    const needsAnalysis = songs.filter(
+      (s) =>
+        (needsBeatGrid(s) || s.loudness === 0 || s.originalKey === "") &&
+        s.audioSupport !== "unsupported",
+    );
+    if (needsAnalysis.length === 0) {
+      log.info(`All songs in "${folderKey}" are already analyzed`);
       return;
     }
 
-    this.bpmDetectionActive.add(folderKey);
-    log.info(`Starting BPM detection for ${needsBpm.length} songs in "${folderKey}"…`);
+    this.analysisActive.add(folderKey);
+    log.info(`Analyzing ${needsAnalysis.length} songs in "${folderKey}"…`);
 
-    let detected = 0;
-    for (const song of needsBpm) {
+    const updated: Song[] = [];
+    for (const song of needsAnalysis) {
+      let audioBuffer: AudioBuffer;
       try {
-        const audioData = await readBinaryFile(dirHandle, song.musicFile);
-        const bpm = await detectBPM(audioData);
-        if (bpm > 0) {
-          song.originalTempo = bpm;
-          detected++;
-          log.info(`BPM for "${song.title}": ${bpm}`);
-          onUpdate(songs);
-        }
+        audioBuffer = await decodeForAnalysis(await readBinaryFile(dirHandle, song.musicFile));
       } catch (err) {
-        log.warn(`BPM detection failed for "${song.title}":`, err);
+        log.warn(`Could not decode "${song.title}" for analysis:`, err);
+        continue;
+      }
+
+      let changed = false;
+      if (needsBeatGrid(song)) {
+        try {
+          const grid = await detectBeatGrid(audioBuffer);
+          // Keep a BPM that is already known, and rate that one against the map.
+          if (song.originalTempo === 0) song.originalTempo = grid.bpm;
+          song.beatOffset = grid.offset;
+          song.tempoMap = grid.tempoMap;
+          song.bpmConfidence =
+            song.originalTempo === grid.bpm
+              ? grid.confidence
+              : tempoAgreement(grid.tempoMap, song.originalTempo);
+          changed = true;
+          log.info(`BPM for "${song.title}": ${song.originalTempo}`);
+        } catch (err) {
+          log.warn(`BPM detection failed for "${song.title}":`, err);
+        }
+      }
+      if (song.loudness === 0) {
+        const lufs = measureLoudness(audioBuffer);
+        song.loudness = lufs < 0 ? lufs : UNMEASURABLE_LOUDNESS;
+        changed = true;
+      }
+      if (song.originalKey === "") {
+        song.originalKey = detectKey(audioBuffer) || NO_KEY;
+        changed = true;
+      }
+      if (changed) {
+        updated.push(song);
+        onUpdate(songs);
       }
     }
 
-    if (detected > 0) {
+    if (updated.length > 0) {
       try {
-        // Re-read before write so play-history / rank edits from another device
-        // are not wiped by a stale in-memory folder list.
-        const folderSongs = await loadSongsJson(dirHandle);
-        for (const song of needsBpm) {
-          if (song.originalTempo <= 0) continue;
-          const key = song.musicFile.toLowerCase();
-          const idx = folderSongs.findIndex((s) => s.musicFile.toLowerCase() === key);
-          if (idx >= 0) {
-            folderSongs[idx] = { ...folderSongs[idx], originalTempo: song.originalTempo };
-          } else {
-            folderSongs.push(song);
-          }
-        }
-        await saveSongsJson(dirHandle, folderSongs);
-        log.info(`BPM detection for "${folderKey}": ${detected}/${needsBpm.length} songs updated`);
+        await mergeDetectedField(dirHandle, updated, [
+          "originalTempo",
+          "beatOffset",
+          "bpmConfidence",
+          "tempoMap",
+          "loudness",
+          "originalKey",
+        ]);
+        log.info(
+          `Song analysis for "${folderKey}": ${updated.length}/${needsAnalysis.length} songs updated`,
+        );
       } catch (err) {
-        log.warn(`Could not persist BPM results for "${folderKey}":`, err);
+        log.warn(`Could not persist analysis results for "${folderKey}":`, err);
       }
     } else {
-      log.info(`BPM detection for "${folderKey}": no songs could be analyzed`);
+      log.info(`Song analysis for "${folderKey}": no songs could be analyzed`);
+    }
+
+    this.analysisActive.delete(folderKey);
+  }
+
+  // -----------------------------------------------------------------------
+  // Loudness leveling
+  // -----------------------------------------------------------------------
+
+  getLevelLoudness(): boolean {
+    return this.state.settings.levelLoudness;
+  }
+
+  /** Turn automatic volume leveling on/off (persisted) and apply it to the current song. */
+  async setLevelLoudness(enabled: boolean): Promise<void> {
+    await this.updateSetting("levelLoudness", enabled);
+    const song = this.state.currentSong;
+    if (song) this.audio.setLevelingGain(this.levelingGainDbFor(song));
+  }
+
+  /** Leveling gain for a song under the current setting (0 when off or unmeasured). */
+  private levelingGainDbFor(song: Song): number {
+    return this.state.settings.levelLoudness ? levelingGainDb(song.loudness) : 0;
+  }
+
+  // -----------------------------------------------------------------------
+  // Vocal key
+  // -----------------------------------------------------------------------
+
+  getVocalKey(): string {
+    return this.state.settings.vocalKey;
+  }
+
+  /** Set the key the caller sings in ("" to clear; persisted). */
+  async setVocalKey(key: string): Promise<void> {
+    await this.updateSetting("vocalKey", key);
+  }
+
+  /**
+   * Pitch that puts a singing call in the caller's vocal key; 0 for patter,
+   * or when the song's key or the vocal key is not known.
+   */
+  suggestedPitch(song: Song): number {
+    if (!isSingingCall(song)) return 0;
+    return pitchToKey(song.originalKey, this.state.settings.vocalKey);
+  }
+
+  // -----------------------------------------------------------------------
+  // Beats: metronome, count-in and phrase length
+  // -----------------------------------------------------------------------
+
+  /** True while count-in clicks play before a song starts. */
+  private countingIn = false;
+
+  getMetronome(): boolean {
+    return this.state.settings.metronome;
+  }
+
+  /** Turn the metronome on/off (persisted) and apply it to the current song. */
+  async setMetronome(enabled: boolean): Promise<void> {
+    await this.updateSetting("metronome", enabled);
+    const song = this.state.currentSong;
+    if (song) await this.applyMetronome(song);
+  }
+
+  getCountInClicks(): number {
+    return this.state.settings.countInClicks;
+  }
+
+  /** Set the count-in length (0, 4 or 8 clicks; persisted). */
+  async setCountInClicks(clicks: number): Promise<void> {
+    await this.updateSetting("countInClicks", clicks);
+  }
+
+  getPhraseBeats(): number {
+    return this.state.settings.phraseBeats;
+  }
+
+  /** Set the phrase length for phrase seeking (8 or 16 beats; persisted). */
+  async setPhraseBeats(beats: number): Promise<void> {
+    await this.updateSetting("phraseBeats", beats);
+  }
+
+  /** Beat-phase detections in flight, so the metronome and beat seeking share one. */
+  private beatOffsetRequests = new WeakMap<Song, Promise<number>>();
+
+  /**
+   * Time of one beat in the song's file (see {@link Song.beatOffset}). When
+   * the background BPM pass has not reached this song yet, it is detected now
+   * and saved. Falls back to the lead-in when no beat can be found.
+   */
+  beatOffsetFor(song: Song): Promise<number> {
+    if (song.beatOffset >= 0) return Promise.resolve(song.beatOffset);
+    const handle = song.dirHandle ?? this.state.rootHandle;
+    if (!handle) return Promise.resolve(Math.max(0, song.leadIn));
+    let request = this.beatOffsetRequests.get(song);
+    if (!request) {
+      request = (async () => {
+        const grid = await detectBeat(await readBinaryFile(handle, song.musicFile));
+        if (!grid) return Math.max(0, song.leadIn);
+        song.beatOffset = grid.offset;
+        await mergeDetectedField(handle, [song], "beatOffset");
+        return grid.offset;
+      })().catch((err: unknown) => {
+        log.warn(`Beat phase detection failed for "${song.title}":`, err);
+        return Math.max(0, song.leadIn);
+      });
+      this.beatOffsetRequests.set(song, request);
+      void request.finally(() => this.beatOffsetRequests.delete(song));
+    }
+    return request;
+  }
+
+  /**
+   * Point the engine's metronome at a song's beats (see {@link beatOffsetFor}),
+   * or turn it off. Songs without a BPM get no clicks.
+   */
+  async applyMetronome(song: Song): Promise<void> {
+    if (!this.state.settings.metronome || song.originalTempo <= 0) {
+      this.audio.setMetronome(0, 0);
+      return;
     }
+    if (song.beatOffset < 0) this.audio.setMetronome(0, 0); // not on the old song's beats meanwhile
+    const offset = await this.beatOffsetFor(song);
+    // The song may have changed, or the metronome been turned off, meanwhile.
+    if (!this.state.settings.metronome) return;
+    if (this.state.currentSong && this.state.currentSong.musicFile !== song.musicFile) return;
+    this.audio.setMetronome(song.originalTempo, offset);
+  }
 
-    this.bpmDetectionActive.delete(folderKey);
+  /**
+   * Start or resume playback. When starting from the top of the song (its
+   * start offset), the count-in clicks come first if enabled and the song has
+   * a BPM. Calling this again during the count-in cancels it. Returns false
+   * when the song did not start.
+   */
+  async startSongPlayback(song: Song): Promise<boolean> {
+    if (this.countingIn) {
+      this.audio.pause(); // cancels the count-in
+      return false;
+    }
+    const clicks = this.state.settings.countInClicks;
+    const atTop = Math.abs(this.audio.getCurrentTime() - this.audio.getStartOffset()) < 0.05;
+    if (clicks > 0 && atTop && song.originalTempo > 0 && !this.audio.isPlaying()) {
+      this.countingIn = true;
+      try {
+        const bpm = song.originalTempo * this.audio.getTempoRatio();
+        if (!(await this.audio.playCountIn(clicks, bpm))) return false;
+      } finally {
+        this.countingIn = false;
+      }
+    }
+    await this.audio.play();
+    return true;
+  }
+
+  // -----------------------------------------------------------------------
+  // Patter medley
+  // -----------------------------------------------------------------------
+
+  /** Patter songs queued to follow the current one (this play session only). */
+  private medleyQueue: Song[] = [];
+  /** Own tempo of medley tracks playing at the medley's BPM, by lower-cased musicFile. */
+  private medleySavedTempos = new Map<
+    string,
+    Pick<Song, "deltaTempo" | "targetTempo" | "tempoRamp">
+  >();
+
+  getMedleyQueue(): readonly Song[] {
+    return this.medleyQueue;
+  }
+
+  /** Queue a patter song to follow the medley's last track; preloads the first one. */
+  queueMedleySong(song: Song): void {
+    this.medleyQueue = [...this.medleyQueue, song];
+    this.preloadSongAudio(this.medleyQueue[0]);
+  }
+
+  removeMedleySong(index: number): void {
+    this.medleyQueue = this.medleyQueue.filter((_, i) => i !== index);
+    if (this.medleyQueue.length > 0) this.preloadSongAudio(this.medleyQueue[0]);
+  }
+
+  getMedleySwitchBy(): MedleySwitchBy {
+    return this.state.settings.medleySwitchBy;
+  }
+
+  getMedleySwitchAfter(): number {
+    return this.state.settings.medleySwitchAfter;
+  }
+
+  /** Set how long each medley track plays (persisted). */
+  async setMedleySwitch(by: MedleySwitchBy, after: number): Promise<void> {
+    await this.updateSetting("medleySwitchBy", by);
+    await this.updateSetting("medleySwitchAfter", after);
+  }
+
+  /**
+   * Crossfade from the current song to the first queued medley song, at the
+   * BPM being played now. The new track starts at its loop start and becomes
+   * the current song; the one it replaces counts as played. Returns false
+   * (leaving the current song playing and dropping the next one from the
+   * queue) when the next song cannot be loaded.
+   */
+  async playNextMedleySong(): Promise<boolean> {
+    const current = this.state.currentSong;
+    const next = this.medleyQueue[0];
+    const handle = next ? next.dirHandle ?? this.state.rootHandle : null;
+    if (!current || !next || !handle) return false;
+
+    const bpm = current.originalTempo > 0 ? current.originalTempo * this.audio.getTempoRatio() : 0;
+    const preloaded = this.takePreloadedAudio(handle, next.musicFile);
+    let buffer: AudioBuffer;
+    try {
+      buffer =
+        (preloaded ? await preloaded : null) ??
+        (await this.audio.decodeAudio(await readBinaryFile(handle, next.musicFile)));
+    } catch (err) {
+      // Drop it, so the medley goes on with the song after it.
+      this.medleyQueue = this.medleyQueue.filter((s) => s !== next);
+      this.state.setUserError(`Could not play "${next.title}": ${formatUnknownError(err)}`);
+      return false;
+    }
+    if (this.medleyQueue[0] !== next || this.state.currentSong !== current) return false;
+    this.medleyQueue = this.medleyQueue.slice(1);
+
+    const outgoingHandle = this.lastLoadedSongDirHandle;
+    const matched = bpm > 0 && next.originalTempo > 0;
+    // A copy, so the matched tempo stays out of the playlist's song. The
+    // target is set too, so target tempo mode plays it at the same BPM.
+    const song: Song = matched
+      ? {
+          ...next,
+          deltaTempo: medleyTempoDelta(bpm, next.originalTempo, next.deltaTempo),
+          targetTempo: Math.round(bpm * 10) / 10,
+          tempoRamp: false,
+        }
+      : { ...next };
+    if (matched) {
+      this.medleySavedTempos.set(next.musicFile.toLowerCase(), {
+        deltaTempo: next.deltaTempo,
+        targetTempo: next.targetTempo,
+        tempoRamp: next.tempoRamp,
+      });
+    }
+    const wasPlaying = this.audio.isPlaying();
+    await this.audio.crossfadeTo(buffer, MEDLEY_CROSSFADE_SECONDS);
+    this.lastLoadedSongDirHandle = handle;
+    if (song.leadIn < 0) {
+      this.measureLeadIn(song, handle, buffer);
+      next.leadIn = song.leadIn;
+    }
+    this.applySongSettings(song);
+    this.audio.seek(effectiveAudioLoopPoints(song, this.audio.getDuration()).start);
+    if (wasPlaying) await this.audio.play();
+    log.info(`Medley: "${current.title}" → "${song.title}" at ${bpm.toFixed(1)} BPM`);
+
+    this.state.setCurrentSong(song);
+    this.state.setTabTitle(TabType.SongPlay, song.title);
+    if (this.state.playlist.includes(next)) this.state.markSongPlayed(next);
+    if (this.medleyQueue.length > 0) this.preloadSongAudio(this.medleyQueue[0]);
+    if (this.songPlaySession) this.beginSongPlaySession();
+    await this.recordSongPlayStats(current, Date.now(), outgoingHandle);
+    return true;
+  }
+
+  // -----------------------------------------------------------------------
+  // Timer alarms
+  // -----------------------------------------------------------------------
+
+  /** Decoded custom alarm files by CallerBuddyRoot-relative path. */
+  private customAlarmBuffers = new Map<string, Promise<AudioBuffer>>();
+
+  getTimerAlarm(timer: AlarmTimer): TimerAlarm {
+    return this.state.settings[ALARM_SETTING[timer]];
+  }
+
+  /** Change a timer's alarm sound, file or volume (persisted). */
+  async setTimerAlarm(timer: AlarmTimer, patch: Partial<TimerAlarm>): Promise<void> {
+    await this.updateSetting(ALARM_SETTING[timer], { ...this.getTimerAlarm(timer), ...patch });
+  }
+
+  /**
+   * Let the user pick an audio file inside CallerBuddyRoot as a timer's alarm.
+   * The file is referenced by its path, so every computer sharing the folder
+   * plays it. False when the picker is cancelled; throws when the file is
+   * outside CallerBuddyRoot or cannot be decoded.
+   */
+  async chooseCustomAlarm(timer: AlarmTimer): Promise<boolean> {
+    const root = this.state.rootHandle;
+    if (!root) throw new Error("Open your CallerBuddySongs folder first.");
+    let fileHandle: FileSystemFileHandle;
+    try {
+      [fileHandle] = await window.showOpenFilePicker({
+        startIn: root,
+        types: [{ description: "Audio files", accept: { "audio/*": [...MUSIC_EXTENSIONS] } }],
+        multiple: false,
+      });
+    } catch {
+      return false; // user cancelled or picker unavailable
+    }
+    const segments = await root.resolve(fileHandle);
+    if (!segments) {
+      throw new Error("Choose a file inside your CallerBuddySongs folder.");
+    }
+    const file = segments.join("/");
+    this.customAlarmBuffers.delete(file);
+    await this.customAlarmBuffer(file);
+    await this.setTimerAlarm(timer, { sound: "custom", file });
+    log.info(`${timer} timer alarm set to "${file}"`);
+    return true;
+  }
+
+  /** Play a timer's alarm. A custom file that cannot be loaded plays the beep instead. */
+  playTimerAlarm(timer: AlarmTimer): void {
+    const alarm = this.getTimerAlarm(timer);
+    if (alarm.sound !== "custom") {
+      this.audio.playAlarm(alarm.sound, alarm.volume);
+      return;
+    }
+    this.customAlarmBuffer(alarm.file).then(
+      (buffer) => this.audio.playAlarm(buffer, alarm.volume),
+      (err: unknown) => {
+        log.warn(`Could not play alarm file "${alarm.file}":`, err);
+        this.audio.playAlarm("beep", alarm.volume);
+      },
+    );
+  }
+
+  /** Play a timer's alarm now so the user can hear the choice. */
+  async previewTimerAlarm(timer: AlarmTimer): Promise<void> {
+    await this.audio.ensureContextRunning();
+    this.playTimerAlarm(timer);
+  }
+
+  /** Read and decode a custom alarm file once; failures are retried next time. */
+  private customAlarmBuffer(file: string): Promise<AudioBuffer> {
+    let buffer = this.customAlarmBuffers.get(file);
+    if (!buffer) {
+      const root = this.state.rootHandle;
+      buffer = (async () => {
+        if (!root || !file) throw new Error("No alarm file");
+        const slash = file.lastIndexOf("/");
+        const dir = await resolveSubdir(root, file.slice(0, Math.max(0, slash)));
+        return this.audio.decodeAudio(await readBinaryFile(dir, file.slice(slash + 1)));
+      })();
+      buffer.catch(() => this.customAlarmBuffers.delete(file));
+      this.customAlarmBuffers.set(file, buffer);
+    }
+    return buffer;
+  }
+
+  // -----------------------------------------------------------------------
+  // Audio output device
+  // -----------------------------------------------------------------------
+
+  /** Device the engine currently plays to ("" = system default). */
+  private audioOutputDeviceId = "";
+
+  getAudioOutputDeviceId(): string {
+    return this.audioOutputDeviceId;
+  }
+
+  /**
+   * Route audio to the output saved on this device, or to the system default
+   * when that device is not connected.
+   */
+  async applySavedAudioOutput(): Promise<void> {
+    const saved = loadSavedAudioOutput();
+    const target = resolveSavedAudioOutput(await listAudioOutputs(), saved);
+    if (saved && !target) {
+      log.warn(`Saved audio output "${saved.label || saved.deviceId}" not connected; using default`);
+    }
+    await this.routeAudioOutput(target?.deviceId ?? "");
+  }
+
+  /**
+   * Play through `device` (null = system default) and remember it on this
+   * device. Returns false, leaving the previous choice saved, when the device
+   * cannot be used.
+   */
+  async selectAudioOutput(device: AudioOutputDevice | null): Promise<boolean> {
+    const ok = await this.routeAudioOutput(device?.deviceId ?? "");
+    if (ok) saveAudioOutput(device);
+    return ok;
+  }
+
+  /** Switch the engine's output; on failure fall back to the system default. */
+  private async routeAudioOutput(deviceId: string): Promise<boolean> {
+    if (deviceId === this.audioOutputDeviceId) return true;
+    try {
+      await this.audio.setOutputDevice(deviceId);
+      this.audioOutputDeviceId = deviceId;
+      return true;
+    } catch (err) {
+      log.warn(`Could not switch audio output to "${deviceId}":`, err);
+      if (deviceId && this.audioOutputDeviceId) {
+        try {
+          await this.audio.setOutputDevice("");
+          this.audioOutputDeviceId = "";
+        } catch (fallbackErr) {
+          log.warn("Could not switch audio output back to default:", fallbackErr);
+        }
+      }
+      return false;
+    }
   }
 
   // -----------------------------------------------------------------------
@@ -1167,6 +2014,13 @@ export class CallerBuddy {
     song: Song,
     opts?: { closeNowPlayingWhenDone?: boolean },
   ): Promise<void> {
+    if (song.audioSupport === "unsupported") {
+      this.state.setUserError(
+        `Cannot play "${song.title}": this browser cannot decode ${extensionOf(song.musicFile).toLowerCase()} files. ` +
+          "Convert it to MP3 or open CallerBuddy in a browser that supports the format.",
+      );
+      return;
+    }
     this.closeNowPlayingWhenSongPlayCloses = opts?.closeNowPlayingWhenDone ?? false;
     const t0 = performance.now();
     await this.audio.ensureContextRunning();
@@ -1183,7 +2037,7 @@ export class CallerBuddy {
     this.state.clearUserError();
     const t2 = performance.now();
     this.state.setCurrentSong(song);
-    await this.audio.play();
+    await this.startSongPlayback(song);
     const t3 = performance.now();
     log.info(
       `openSongPlay: ctxResume=${(t1 - t0).toFixed(1)}ms loadSongAudio=${(t2 - t1).toFixed(1)}ms play=${(t3 - t2).toFixed(1)}ms total=${(t3 - t0).toFixed(1)}ms`,
@@ -1227,7 +2081,7 @@ export class CallerBuddy {
 
     if (song && session) {
       const duration = this.audio.getDuration();
-      const ratio = tempoRatioFromSong(song);
+      const ratio = tempoRatioFromSong(song, this.songDeltaTempo(song));
       const threshold = qualifyingPlayWallSeconds(duration, ratio);
       const qualifies =
         session.naturalEnd ||
@@ -1235,17 +2089,12 @@ export class CallerBuddy {
       if (qualifies) {
         const nowMs = Date.now();
         this.state.setLastSongEndedMs(nowMs);
-        if (!this.practiceMode && shouldRefreshPlayStats(song.lastUsed, nowMs)) {
-          const deltaDays = daysSinceLastUsedMs(song.lastUsed, nowMs);
-          const wNew = nextPlayWeight(song.playWeight, deltaDays);
-          const updated = { ...song, lastUsed: lastUsedIsoFromMs(nowMs), playWeight: wNew };
-          await this.updateSong(updated, {
-            dirHandle: persistDirHandle ?? undefined,
-          });
-        }
+        await this.recordSongPlayStats(song, nowMs, persistDirHandle);
       }
     }
 
+    this.medleyQueue = [];
+    this.medleySavedTempos.clear();
     this.lastLoadedSongDirHandle = null;
     this.audio.stop();
     this.state.setCurrentSong(null);
@@ -1257,6 +2106,19 @@ export class CallerBuddy {
     }
   }
 
+  /** Update a performed song's lastUsed and playWeight (not in practice mode). */
+  private async recordSongPlayStats(
+    song: Song,
+    nowMs: number,
+    dirHandle: FileSystemDirectoryHandle | null,
+  ): Promise<void> {
+    if (this.practiceMode || !shouldRefreshPlayStats(song.lastUsed, nowMs)) return;
+    const deltaDays = daysSinceLastUsedMs(song.lastUsed, nowMs);
+    const wNew = nextPlayWeight(song.playWeight, deltaDays);
+    const updated = { ...song, lastUsed: lastUsedIsoFromMs(nowMs), playWeight: wNew };
+    await this.updateSong(updated, { dirHandle: dirHandle ?? undefined });
+  }
+
   /**
    * Close the song play tab after an optional unsaved-lyrics prompt.
    * @returns false if the user chose not to save and the close was aborted.
@@ -1649,6 +2511,49 @@ async function logSongAudioLoadFailure(
   }
 }
 
+/** True when a song has no BPM, beat phase or BPM confidence yet. */
+function needsBeatGrid(song: Song): boolean {
+  return song.originalTempo === 0 || song.beatOffset < 0 || song.bpmConfidence < 0;
+}
+
+/** Song fields filled in by analysis rather than by the user. */
+type DetectedField =
+  | "originalTempo"
+  | "beatOffset"
+  | "loudness"
+  | "originalKey"
+  | "leadIn"
+  | "audioSupport"
+  | "bpmConfidence"
+  | "tempoMap";
+
+/**
+ * Write detected fields (BPM and tempo map, beat phase, loudness, key,
+ * lead-in, decode probe) of `songs` into the folder's CallerBuddySongs.json.
+ * Re-reads before writing so play-history / rank edits from another device
+ * are not wiped by a stale in-memory list.
+ */
+async function mergeDetectedField(
+  dirHandle: FileSystemDirectoryHandle,
+  songs: Song[],
+  field: DetectedField | DetectedField[],
+): Promise<void> {
+  const fields = Array.isArray(field) ? field : [field];
+  const folderSongs = await loadSongsJson(dirHandle);
+  for (const song of songs) {
+    const key = song.musicFile.toLowerCase();
+    const idx = folderSongs.findIndex((s) => s.musicFile.toLowerCase() === key);
+    if (idx >= 0) {
+      const updated = { ...folderSongs[idx] };
+      for (const f of fields) Object.assign(updated, { [f]: song[f] });
+      folderSongs[idx] = updated;
+    } else {
+      folderSongs.push(song);
+    }
+  }
+  await saveSongsJson(dirHandle, folderSongs);
+}
+
 /** Walk a slash-separated relative path from a root directory handle. */
 async function resolveSubdir(
   root: FileSystemDirectoryHandle,
@@ -1680,6 +2585,19 @@ async function listFilesRecursive(
   return paths;
 }
 
+/**
+ * Pick the audio backend at startup: the AudioWorklet engine where the browser
+ * supports it, otherwise the ScriptProcessorNode engine.
+ */
+function createAudioEngine(): AudioEngine {
+  if (WorkletAudioEngine.isSupported()) {
+    log.info("Audio engine: AudioWorklet");
+    return new WorkletAudioEngine();
+  }
+  log.info("Audio engine: ScriptProcessorNode (AudioWorklet not supported)");
+  return new WebAudioEngine();
+}
+
 /** Navigate a directory handle by a slash-separated path and return the File. */
 async function getFileByPath(
   root: FileSystemDirectoryHandle,
@@ -34,6 +34,12 @@ import { log, getRecentLogs, clearRecentLogs } from "../services/logger.js";
 import { isPhoneLikeTouchDevice } from "../utils/device-traits.js";
 import { bumpLyricsScale } from "../utils/lyrics-scale.js";
 import { renderAlertDialog } from "../utils/ui-alert.js";
+import {
+  isAudioOutputSelectionSupported,
+  listAudioOutputs,
+  revealAudioOutputLabels,
+  type AudioOutputDevice,
+} from "../services/audio-output.js";
 
 // Side-effect imports to register custom elements
 import "./tab-bar.js";
@@ -69,6 +75,9 @@ export class AppShell extends LitElement {
   @state() private showResetConfirm = false;
   @state() private resetInProgress = false;
   @state() private alertMessage = "";
+  /** Devices listed in the Audio Output dialog; null while the dialog is closed. */
+  @state() private audioOutputs: AudioOutputDevice[] | null = null;
+  @state() private audioOutputStatus = "";
 
   private _boundKeydown = (e: KeyboardEvent) => this.onKeydown(e);
   private _boundFsChange = () => this.onFullscreenChange();
@@ -328,6 +337,11 @@ export class AppShell extends LitElement {
       this.cancelResetCallerBuddy();
       return;
     }
+    if (this.audioOutputs && e.key === "Escape") {
+      e.preventDefault();
+      this.closeAudioOutput();
+      return;
+    }
     const inInput =
       e.target instanceof HTMLInputElement ||
       e.target instanceof HTMLTextAreaElement ||
@@ -524,6 +538,7 @@ export class AppShell extends LitElement {
           : nothing}
         ${this.showLogs ? this.renderLogModal() : nothing}
         ${this.showResetConfirm ? this.renderResetConfirm() : nothing}
+        ${this.audioOutputs ? this.renderAudioOutput() : nothing}
         ${renderAlertDialog(this.alertMessage, () => {
           this.alertMessage = "";
         })}
@@ -748,6 +763,14 @@ export class AppShell extends LitElement {
         >
           Lyrics smaller (Alt+-)
         </button>
+        <button
+          class="menu-item"
+          role="menuitem"
+          title="Choose the speakers or sound system CallerBuddy plays through on this device"
+          @click=${this.onAudioOutput}
+        >
+          Audio Output…
+        </button>
         <hr />
         <button class="menu-item" role="menuitem" @click=${this.onHelp}
           title="Open help documentation with walkthroughs and keyboard shortcuts">
@@ -974,6 +997,103 @@ export class AppShell extends LitElement {
     `;
   }
 
+  private async onAudioOutput() {
+    log.info(`[ui] menu: Audio Output`);
+    this.showMenu = false;
+    this.audioOutputStatus = isAudioOutputSelectionSupported()
+      ? ""
+      : "This browser always plays through the system default output. " +
+        "Use Chrome or Edge to choose a different device.";
+    this.audioOutputs = await listAudioOutputs();
+  }
+
+  private closeAudioOutput() {
+    log.info(`[ui] audio output: close`);
+    this.audioOutputs = null;
+  }
+
+  private async onRevealAudioOutputNames() {
+    log.info(`[ui] audio output: show device names`);
+    if (!(await revealAudioOutputLabels())) {
+      this.audioOutputStatus = "Device names need microphone permission.";
+    }
+    this.audioOutputs = await listAudioOutputs();
+  }
+
+  private async onSelectAudioOutput(device: AudioOutputDevice | null) {
+    log.info(`[ui] audio output: select ${device?.deviceId || "default"}`);
+    const ok = await callerBuddy.selectAudioOutput(device);
+    this.audioOutputStatus = ok ? "" : "Could not switch to that device.";
+    this.requestUpdate();
+  }
+
+  private renderAudioOutput() {
+    const devices = this.audioOutputs ?? [];
+    const current = callerBuddy.getAudioOutputDeviceId();
+    const supported = isAudioOutputSelectionSupported();
+    const unnamed = devices.some((d) => !d.label);
+    return html`
+      <div class="fs-startup-overlay cb-modal-overlay" @click=${this.closeAudioOutput}></div>
+      <div
+        class="fs-startup-modal"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="audio-output-title"
+        @click=${(e: Event) => e.stopPropagation()}
+      >
+        <h2 id="audio-output-title" class="fs-startup-title">Audio Output</h2>
+        ${this.audioOutputStatus
+          ? html`<p class="fs-startup-body">${this.audioOutputStatus}</p>`
+          : nothing}
+        ${supported
+          ? html`
+              <div class="audio-output-list" role="radiogroup">
+                <label>
+                  <input
+                    type="radio"
+                    name="audio-output"
+                    .checked=${current === ""}
+                    @change=${() => void this.onSelectAudioOutput(null)}
+                  />
+                  System default
+                </label>
+                ${devices.map(
+                  (d, i) => html`
+                    <label>
+                      <input
+                        type="radio"
+                        name="audio-output"
+                        .checked=${current === d.deviceId}
+                        @change=${() => void this.onSelectAudioOutput(d)}
+                      />
+                      ${d.label || `Output ${i + 1}`}
+                    </label>
+                  `,
+                )}
+              </div>
+            `
+          : nothing}
+        <div class="fs-startup-actions">
+          ${supported && unnamed
+            ? html`
+                <button
+                  type="button"
+                  class="fs-startup-secondary"
+                  title="Browsers only reveal device names after microphone permission"
+                  @click=${() => void this.onRevealAudioOutputNames()}
+                >
+                  Show Device Names
+                </button>
+              `
+            : nothing}
+          <button type="button" class="fs-startup-primary" @click=${this.closeAudioOutput}>
+            Done
+          </button>
+        </div>
+      </div>
+    `;
+  }
+
   /** True when another import can start; alerts if a Song Onboard tab is already open. */
   private assertNoOpenOnboard(): boolean {
     if (callerBuddy.state.tabs.some((t) => t.type === TabType.SongOnboard)) {
@@ -1319,6 +1439,21 @@ export class AppShell extends LitElement {
       border: 1px solid var(--cb-btn-border);
     }
 
+    .audio-output-list {
+      display: flex;
+      flex-direction: column;
+      gap: 0.5rem;
+      margin: 0 0 1.1rem;
+      font-size: 0.95rem;
+    }
+
+    .audio-output-list label {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      cursor: pointer;
+    }
+
     .fs-resume-overlay {
       z-index: 2140;
     }
@@ -44,14 +44,20 @@ import {
   type PlaylistEditorViewSettings,
 } from "../models/settings.js";
 import { StateEvents } from "../services/app-state.js";
-import { isSingingCall } from "../models/song.js";
+import { isBpmUncertain, isSingingCall } from "../models/song.js";
 import type { Song } from "../models/song.js";
 import { loadAndMergeSongs, loadSongsJson } from "../services/song-library.js";
-import { isSameDirectory, listDirectory, type DirEntry, type FolderRef } from "../services/file-system-service.js";
+import {
+  CACHE_DIR,
+  isSameDirectory,
+  listDirectory,
+  type DirEntry,
+  type FolderRef,
+} from "../services/file-system-service.js";
 import { log } from "../services/logger.js";
 import { daysSinceLastUsedMs, displayPlayWeight } from "../utils/play-history.js";
 import { songMatchesTextFilter } from "../utils/song-text-filter.js";
-import { formatUnknownError } from "../utils/format.js";
+import { formatTime, formatUnknownError } from "../utils/format.js";
 import { openHelpSection } from "../utils/ui-help.js";
 import { renderAlertDialog } from "../utils/ui-alert.js";
 import {
@@ -536,7 +542,9 @@ export class PlaylistEditor extends LitElement {
     if (!handle || this.loading) return;
     try {
       const entries = await listDirectory(handle);
-      this.subfolders = entries.filter((e) => e.kind === "directory");
+      this.subfolders = entries.filter(
+        (e) => e.kind === "directory" && e.name !== CACHE_DIR,
+      );
     } catch (err) {
       log.warn(`playlist-editor: could not refresh folders for "${handle.name}":`, err);
     }
@@ -672,7 +680,9 @@ export class PlaylistEditor extends LitElement {
         const entries = await listDirectory(handle);
         const d1 = performance.now();
         if (seq !== this.folderLoadSeq) return;
-        this.subfolders = entries.filter((e) => e.kind === "directory");
+        this.subfolders = entries.filter(
+          (e) => e.kind === "directory" && e.name !== CACHE_DIR,
+        );
         log.info(
           `playlist-editor: listed folder entries (${entries.length}) in ${(d1 - d0).toFixed(1)}ms`,
         );
@@ -692,11 +702,15 @@ export class PlaylistEditor extends LitElement {
           `playlist-editor: scan+merge complete (merged=${merged.length}) in ${(s1 - s0).toFixed(1)}ms`,
         );
 
-        // Kick off background BPM detection for this folder's songs
-        callerBuddy.detectBpmForSongs(handle, merged, (updated) => {
+        // Kick off the background decode probe, then BPM, loudness and key
+        // analysis, for this folder's songs (one decode at a time).
+        const onAnalyzed = (updated: Song[]) => {
           if (seq !== this.folderLoadSeq) return;
           this.localSongs = [...updated];
-        });
+        };
+        void callerBuddy
+          .probeAudioForSongs(handle, merged, onAnalyzed)
+          .then(() => callerBuddy.analyzeSongs(handle, merged, onAnalyzed));
       })();
     } catch (err) {
       log.error(`Failed to load folder "${handle.name}":`, err);
@@ -1027,6 +1041,13 @@ export class PlaylistEditor extends LitElement {
                       >
                         Type ${this.sortIndicator("type")}
                       </th>
+                      <th
+                        class="sortable bpm-col-head"
+                        title="Detected tempo in beats per minute. A ? means parts of the song disagree, so check it before relying on it."
+                        @click=${() => this.toggleSort("originalTempo")}
+                      >
+                        BPM ${this.sortIndicator("originalTempo")}
+                      </th>
                       <th class="more-cell" title="More actions"></th>
                     </tr>
                   </thead>
@@ -1063,6 +1084,12 @@ export class PlaylistEditor extends LitElement {
                             >+</button>
                           </td>
                           <td class="title-cell">
+                            ${song.audioSupport === "unsupported"
+                              ? html`<span
+                                  class="unsupported-badge"
+                                  title="This browser cannot decode ${song.musicFile}. Convert it to MP3 to play it here."
+                                >Unsupported</span>`
+                              : nothing}
                             <span class="title-ellipsis" title=${song.title}>${song.title}</span>
                           </td>
                           ${this.renderRankCell(song)}
@@ -1092,6 +1119,7 @@ export class PlaylistEditor extends LitElement {
                               title="${isSingingCall(song) ? "Singing call" : "Patter (no lyrics)"}"
                             >${isSingingCall(song) ? "Singing" : "Patter"}</span>
                           </td>
+                          ${this.renderBpmCell(song)}
                           <td class="more-cell">
                             <button
                               class="icon-btn more-btn"
@@ -1170,7 +1198,7 @@ export class PlaylistEditor extends LitElement {
           title="Click to open in new tab, or use ⋮ for options"
         >
           <td class="folder-icon-cell" colspan="2">📁</td>
-          <td colspan="8" class="folder-name">${entry.name}</td>
+          <td colspan="9" class="folder-name">${entry.name}</td>
           <td class="more-cell">
             <button
               class="icon-btn more-btn"
@@ -1207,6 +1235,10 @@ export class PlaylistEditor extends LitElement {
           <button class="menu-item" role="menuitem"
             @click=${() => this.playSongFromCtx()}
           >Play now</button>
+          <button class="menu-item" role="menuitem"
+            title="Save a WAV copy at this song's pitch, tempo and volume to the top CallerBuddy folder"
+            @click=${() => void this.exportSongFromCtx()}
+          >Export adjusted audio…</button>
           <hr />
           <button class="menu-item" role="menuitem"
             @click=${() => this.requestRenameSongFromCtx()}
@@ -1287,6 +1319,28 @@ export class PlaylistEditor extends LitElement {
     await this.playSongNow(song);
   }
 
+  private async exportSongFromCtx() {
+    if (!this.contextTarget || this.contextTarget.kind !== "song") return;
+    const song = this.contextTarget.song;
+    this.contextTarget = null;
+    log.info(`[ui] export adjusted audio: "${song.title}"`);
+    let progressMessage = `Exporting "${song.title}"… This can take a minute.`;
+    this.alertMessage = progressMessage;
+    const onProgress = (fraction: number) => {
+      // Stop updating once the caller has dismissed the message.
+      if (this.alertMessage !== progressMessage) return;
+      progressMessage = `Exporting "${song.title}"… ${Math.round(fraction * 100)}%`;
+      this.alertMessage = progressMessage;
+    };
+    try {
+      const filename = await callerBuddy.exportAdjustedAudio(song, onProgress);
+      this.alertMessage = `Saved "${filename}" in your CallerBuddy folder.`;
+    } catch (err) {
+      log.error(`Export of "${song.title}" failed:`, err);
+      this.alertMessage = `Could not export "${song.title}": ${formatUnknownError(err)}`;
+    }
+  }
+
   private requestDeleteSongFromCtx() {
     if (!this.contextTarget || this.contextTarget.kind !== "song") return;
     this.deleteConfirmSong = this.contextTarget.song;
@@ -1745,6 +1799,34 @@ export class PlaylistEditor extends LitElement {
     return (Number.isFinite(v) ? v : 0).toFixed(2);
   }
 
+  /** BPM with a "?" when too few sections of the song agree with it (see isBpmUncertain). */
+  private renderBpmCell(song: Song) {
+    const uncertain = isBpmUncertain(song);
+    return html`
+      <td class="bpm-cell ${uncertain ? "bpm-uncertain" : ""}" title=${this.bpmCellTitle(song)}>
+        ${song.originalTempo > 0 ? song.originalTempo : "–"}${uncertain ? "?" : ""}
+      </td>
+    `;
+  }
+
+  private bpmCellTitle(song: Song): string {
+    if (song.originalTempo <= 0) return "BPM not detected yet.";
+    const lines = [`${song.originalTempo} BPM`];
+    if (song.bpmConfidence >= 0) {
+      lines[0] += `: ${Math.round(song.bpmConfidence * 100)}% of the song agrees`;
+    }
+    if (isBpmUncertain(song)) lines.push("Check it with the metronome in the player.");
+    if (song.tempoMap.length > 1) {
+      lines.push(
+        "By section: " +
+          song.tempoMap
+            .map((t) => `${formatTime(t.time)} ${t.bpm > 0 ? t.bpm : "no beat"}`)
+            .join(", "),
+      );
+    }
+    return lines.join("\n");
+  }
+
   private isCellEditing(song: Song, field: "categories" | "rank"): boolean {
     return (
       this.editingCell !== null &&
@@ -2624,6 +2706,17 @@ export class PlaylistEditor extends LitElement {
       white-space: nowrap;
     }
 
+    /* Floated ahead of the title so the title still ellipsizes beside it. */
+    .unsupported-badge {
+      float: right;
+      margin-left: 6px;
+      padding: 0 6px;
+      border-radius: 8px;
+      font-size: 0.75rem;
+      color: var(--cb-error);
+      background: var(--cb-error-light);
+    }
+
     .song-table th {
       position: sticky;
       top: 0;
@@ -2802,6 +2895,19 @@ export class PlaylistEditor extends LitElement {
       color: var(--cb-patter);
     }
 
+    .song-table td.bpm-cell,
+    .song-table th.bpm-col-head {
+      text-align: right;
+      padding-left: 4px;
+      padding-right: 4px;
+      font-variant-numeric: tabular-nums;
+    }
+
+    .song-table td.bpm-uncertain {
+      color: var(--cb-error);
+      font-weight: 600;
+    }
+
     .song-table th.play-cell,
     .song-table td.play-cell {
       width: auto;
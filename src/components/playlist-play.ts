@@ -32,6 +32,7 @@ import { StateEvents, TabType } from "../services/app-state.js";
 import { isSingingCall } from "../models/song.js";
 import { formatCountdown, formatClock } from "../utils/format.js";
 import { openHelpSection } from "../utils/ui-help.js";
+import { renderAlarmChooser } from "../utils/ui-alarm.js";
 import {
   HostLayoutResizeController,
   isHostPortraitLayout,
@@ -54,7 +55,7 @@ export class PlaylistPlay extends LitElement {
   // Break timer
   @state() private breakMinutes = DEFAULT_BREAK_TIMER_MINUTES;
   private breakTimer = new CountdownAlarmController(this, {
-    playBeep: () => callerBuddy.audio.playBeep(),
+    playBeep: () => callerBuddy.playTimerAlarm("break"),
     alarmCapMs: () => Math.max(0, Math.round(this.breakMinutes * 60 * 1000)),
   });
 
@@ -99,7 +100,7 @@ export class PlaylistPlay extends LitElement {
       callerBuddy.state.settings.playlistPanelWidth ?? DEFAULT_PLAYLIST_PANEL_WIDTH;
     this.resizerY.size =
       callerBuddy.state.settings.playlistPanelHeight ?? DEFAULT_PLAYLIST_PANEL_HEIGHT;
-    callerBuddy.state.addEventListener(StateEvents.PLAYLIST_CHANGED, this.refresh);
+    callerBuddy.state.addEventListener(StateEvents.PLAYLIST_CHANGED, this.onPlaylistChanged);
     callerBuddy.state.addEventListener(StateEvents.SETTINGS_CHANGED, this.onSettingsChanged);
     callerBuddy.state.addEventListener(StateEvents.SONG_ENDED, this.onSongEnded);
     callerBuddy.state.addEventListener(StateEvents.CHANGED, this.refresh);
@@ -115,7 +116,7 @@ export class PlaylistPlay extends LitElement {
     document.removeEventListener("keydown", this._boundKeydown);
     window.removeEventListener("blur", this._boundWindowBlur);
     window.removeEventListener("focus", this._boundWindowFocus);
-    callerBuddy.state.removeEventListener(StateEvents.PLAYLIST_CHANGED, this.refresh);
+    callerBuddy.state.removeEventListener(StateEvents.PLAYLIST_CHANGED, this.onPlaylistChanged);
     callerBuddy.state.removeEventListener(StateEvents.SETTINGS_CHANGED, this.onSettingsChanged);
     callerBuddy.state.removeEventListener(StateEvents.SONG_ENDED, this.onSongEnded);
     callerBuddy.state.removeEventListener(StateEvents.CHANGED, this.refresh);
@@ -207,6 +208,11 @@ export class PlaylistPlay extends LitElement {
     this.requestUpdate();
   };
 
+  private onPlaylistChanged = () => {
+    this.requestUpdate();
+    if (callerBuddy.state.currentSong !== null) this.preloadNextSong();
+  };
+
   private onSettingsChanged = () => {
     this.resizerX.width =
       callerBuddy.state.settings.playlistPanelWidth ?? DEFAULT_PLAYLIST_PANEL_WIDTH;
@@ -444,7 +450,7 @@ export class PlaylistPlay extends LitElement {
             <div class="break-controls">
               <div class="break-toggle-row">
                 <label class="break-toggle"
-                  title="When enabled, plays a chime at zero and every 30 sec thereafter (B)">
+                  title="When enabled, plays the alarm at zero and every 30 sec thereafter (B)">
                   <input
                     type="checkbox"
                     .checked=${this.breakTimer.enabled}
@@ -473,6 +479,7 @@ export class PlaylistPlay extends LitElement {
                   @keydown=${this.onBreakMinutesKeydown}
                 />
               </div>
+              ${renderAlarmChooser(this, "break", "break-input-row")}
               <div class="countdown time-row ${this.breakTimer.running ? "" : "countdown-idle"}">
                 <span class="time-label">Time left:</span>
                 <span class="time-value ${this.breakTimer.running && this.breakTimer.countdown <= 0 ? "alarm" : ""}">
@@ -519,8 +526,8 @@ export class PlaylistPlay extends LitElement {
       const song = playlist[idx];
       await callerBuddy.openSongPlay(song);
       if (callerBuddy.state.currentSong !== null) {
-        callerBuddy.state.markSongPlayed(song);
         this.selectedIndex = null; // reset to auto-select next unplayed
+        callerBuddy.state.markSongPlayed(song); // also preloads the next song
       }
     } finally {
       this.isStartingPlayback = false;
@@ -528,6 +535,20 @@ export class PlaylistPlay extends LitElement {
     }
   }
 
+  /**
+   * Decode the song Play would start next while the current one plays, so it
+   * starts without a load delay. CallerBuddy keeps only this one preload.
+   */
+  private preloadNextSong() {
+    const playlist = callerBuddy.state.playlist;
+    const idx = this.getSelectedIndex();
+    if (idx < 0 || idx >= playlist.length) {
+      callerBuddy.clearPreloadedAudio();
+      return;
+    }
+    callerBuddy.preloadSongAudio(playlist[idx]);
+  }
+
   private onSongEnded = () => {
     this.startBreakTimer();
   };
@@ -995,6 +1016,21 @@ export class PlaylistPlay extends LitElement {
       font-size: 0.9rem;
     }
 
+    .break-input-row input[type="range"] {
+      flex: 1;
+      width: auto;
+      padding: 0;
+      border: none;
+    }
+
+    .break-input-row .alarm-file {
+      flex: 1;
+      min-width: 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
     .countdown.time-row {
       display: flex;
       align-items: baseline;
@@ -25,6 +25,7 @@ import {
   type Mp3Candidate,
   type HtmlCandidate,
 } from "../services/song-onboarding.js";
+import { extensionOf, isMusicFile } from "../models/song.js";
 import { generateLyricsMarkdownTemplate } from "../utils/lyrics-markdown.js";
 import { formatUnknownError } from "../utils/format.js";
 import { openHelpSection } from "../utils/ui-help.js";
@@ -44,6 +45,18 @@ interface OnboardTabData {
 /** Popups opened from the contents list; closed when the onboard tab goes away. */
 type EntryWindowKind = "mp3" | "doc";
 
+/** Blob types for playing music entries in a popup; others are left to the browser to sniff. */
+const AUDIO_MIME_BY_EXT: Record<string, string> = {
+  ".mp3": "audio/mpeg",
+  ".m4a": "audio/mp4",
+  ".aac": "audio/aac",
+  ".wav": "audio/wav",
+  ".ogg": "audio/ogg",
+  ".oga": "audio/ogg",
+  ".opus": "audio/ogg",
+  ".flac": "audio/flac",
+};
+
 interface TrackedEntryWindow {
   path: string;
   win: Window;
@@ -239,7 +252,7 @@ export class SongOnboard extends LitElement {
 
   private updateDestNames() {
     const { destMp3Name, destLyricsName } = computeDestNames(
-      this.label, this.songTitle, !!this.lyricsMarkdown,
+      this.label, this.songTitle, !!this.lyricsMarkdown, this.selectedMp3,
     );
     this.destMp3Name = destMp3Name;
     this.destLyricsName = destLyricsName;
@@ -280,7 +293,7 @@ export class SongOnboard extends LitElement {
   }
 
   private isMp3Entry(path: string): boolean {
-    return path.toLowerCase().endsWith(".mp3");
+    return isMusicFile(path);
   }
 
   private mp3SelectTitle(path: string): string {
@@ -346,11 +359,11 @@ export class SongOnboard extends LitElement {
 
   /** Extensions we can open like File Explorer (view / play in a popup window). */
   private isOpenableEntry(path: string): boolean {
-    return /\.(html?|md|txt|pdf|mp3)$/i.test(path);
+    return /\.(html?|md|txt|pdf)$/i.test(path) || isMusicFile(path);
   }
 
   private openEntryWindow(path: string): Window | null {
-    const kind = path.toLowerCase().endsWith(".mp3") ? "mp3" : "doc";
+    const kind = isMusicFile(path) ? "mp3" : "doc";
     return openPositionedEntryWindow(path, kind);
   }
 
@@ -380,9 +393,10 @@ export class SongOnboard extends LitElement {
         return;
       }
 
-      if (lower.endsWith(".mp3")) {
+      if (isMusicFile(path)) {
         const buf = await callerBuddy.readOnboardingBinary(path);
-        const url = URL.createObjectURL(new Blob([buf], { type: "audio/mpeg" }));
+        const type = AUDIO_MIME_BY_EXT[extensionOf(path).toLowerCase()] ?? "";
+        const url = URL.createObjectURL(new Blob([buf], { type }));
         const title = path.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
         win.document.open();
         win.document.write(
@@ -689,7 +703,7 @@ export class SongOnboard extends LitElement {
             ${this.allEntries.map((e) => this.renderContentsEntry(e))}
           </div>
           ${this.allEntries.every((e) => !this.isMp3Entry(e))
-            ? html`<p class="muted">No MP3 files found</p>`
+            ? html`<p class="muted">No music files found</p>`
             : nothing}
         </div>
 
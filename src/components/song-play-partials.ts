@@ -4,23 +4,69 @@
  */
 
 import { html, nothing, type TemplateResult } from "lit";
-import { formatCountdown } from "../utils/format.js";
+import { formatCountdown, formatTime } from "../utils/format.js";
+import type { LoopSuggestion } from "../services/loop-suggester.js";
+import {
+  COUNT_IN_CHOICES,
+  PHRASE_BEAT_CHOICES,
+  type MedleySwitchBy,
+} from "../models/settings.js";
+import type { Song, SongCue } from "../models/song.js";
+
+/** Upper bound for the loop crossfade field; longer fades smear the downbeat. */
+export const LOOP_CROSSFADE_MAX_MS = 1000;
 
 export type PatterControlsCtx = {
   loopStart: number;
   loopEnd: number;
+  loopCrossfadeMs: number;
+  /** null until the track has been analyzed (see analyzingLoops). */
+  loopSuggestions: LoopSuggestion[] | null;
+  analyzingLoops: boolean;
+  tempoRamp: boolean;
+  /** Signed BPM delta at the end of the ramp. */
+  tempoRampEnd: number;
+  tempoRampMinutes: number;
   patterTimerEnabled: boolean;
   patterMinutes: number;
   patterCountdown: number;
+  /** Alarm sound and volume rows for the patter timer (see renderAlarmChooser). */
+  patterAlarm: TemplateResult;
   onLoopHelp: () => void;
+  onTempoRampHelp: () => void;
   onPatterTimerHelp: () => void;
   onLoopBoxKeydown: (which: "start" | "end", e: KeyboardEvent) => void;
   onLoopBtnMousedown: (e: Event) => void;
   nudgeLoop: (which: "start" | "end", delta: number) => void;
   setLoopFromCurrent: (which: "start" | "end") => void;
+  onLoopCrossfadeChange: (e: Event) => void;
+  onLoopCrossfadeKeydown: (e: KeyboardEvent) => void;
+  applyLoopSuggestion: (suggestion: LoopSuggestion) => void;
+  onSuggestLoops: () => void;
+  onTempoRampEnabledChange: (e: Event) => void;
+  onTempoRampEndChange: (e: Event) => void;
+  onTempoRampMinutesChange: (e: Event) => void;
   onPatterTimerEnabledChange: (e: Event) => void;
   onPatterMinutesChange: (e: Event) => void;
   onPatterMinutesKeydown: (e: KeyboardEvent) => void;
+  medley: MedleyCtx;
+  onMedleyHelp: () => void;
+};
+
+export type MedleyCtx = {
+  /** Songs queued to follow the current one. */
+  queue: readonly Song[];
+  /** Patter songs in the playlist that can be queued. */
+  candidates: Song[];
+  switchBy: MedleySwitchBy;
+  switchAfter: number;
+  /** When the next track comes in, e.g. "Next in 1:10"; empty when nothing is queued. */
+  status: string;
+  onAdd: (e: Event) => void;
+  onRemove: (index: number) => void;
+  onSwitchByChange: (e: Event) => void;
+  onSwitchAfterChange: (e: Event) => void;
+  onNext: () => void;
 };
 
 export function renderPatterControls(ctx: PatterControlsCtx): TemplateResult {
@@ -72,6 +118,64 @@ export function renderPatterControls(ctx: PatterControlsCtx): TemplateResult {
           @mousedown=${ctx.onLoopBtnMousedown}
           @click=${() => ctx.nudgeLoop("end", 0.1)}>\u25ba\u25ba</button>
       </div>
+      <div class="patter-row loop-crossfade-row"
+           title="Blend the end of the loop into the audio before Loop Start so the jump back doesn't click. 0 = off">
+        <label>Crossfade (ms):</label>
+        <input
+          type="number"
+          min="0"
+          max="${LOOP_CROSSFADE_MAX_MS}"
+          step="10"
+          .value=${String(ctx.loopCrossfadeMs)}
+          @change=${ctx.onLoopCrossfadeChange}
+          @keydown=${ctx.onLoopCrossfadeKeydown}
+        />
+      </div>
+      ${renderLoopSuggestions(ctx)}
+
+      <hr />
+
+      <h3>Tempo Ramp
+        <button class="ctx-help-btn" title="Open help: Ramp the tempo during a patter"
+          @click=${ctx.onTempoRampHelp}>?</button>
+      </h3>
+      <div class="tempo-ramp-controls ${ctx.tempoRamp ? "" : "ramp-disabled"}">
+        <div class="patter-toggle-row">
+          <label class="patter-toggle"
+            title="When enabled, the tempo glides from the Tempo setting to the end tempo">
+            <input
+              type="checkbox"
+              .checked=${ctx.tempoRamp}
+              @change=${ctx.onTempoRampEnabledChange}
+            />
+            Enabled
+          </label>
+        </div>
+        <div class="patter-row" title="Tempo change in BPM reached at the end of the ramp (like the Tempo setting)">
+          <label>End tempo (BPM ±):</label>
+          <input
+            type="number"
+            min="-30"
+            max="30"
+            step="1"
+            .value=${String(ctx.tempoRampEnd)}
+            @change=${ctx.onTempoRampEndChange}
+            @keydown=${ctx.onPatterMinutesKeydown}
+          />
+        </div>
+        <div class="patter-row" title="Playing time over which the tempo changes; paused time does not count">
+          <label>Over (min):</label>
+          <input
+            type="number"
+            min="0.5"
+            max="15"
+            step="0.5"
+            .value=${String(ctx.tempoRampMinutes)}
+            @change=${ctx.onTempoRampMinutesChange}
+            @keydown=${ctx.onPatterMinutesKeydown}
+          />
+        </div>
+      </div>
 
       <hr />
 
@@ -82,7 +186,7 @@ export function renderPatterControls(ctx: PatterControlsCtx): TemplateResult {
       <div class="patter-timer-controls">
         <div class="patter-toggle-row">
           <label class="patter-toggle"
-            title="When enabled, plays a chime at zero and every 30 sec thereafter (B)">
+            title="When enabled, plays the alarm at zero and every 30 sec thereafter (B)">
             <input
               type="checkbox"
               .checked=${ctx.patterTimerEnabled}
@@ -103,20 +207,120 @@ export function renderPatterControls(ctx: PatterControlsCtx): TemplateResult {
             @keydown=${ctx.onPatterMinutesKeydown}
           />
         </div>
+        ${ctx.patterAlarm}
         <div class="patter-countdown ${ctx.patterCountdown <= 0 ? "overtime" : ""}">
           ${formatCountdown(ctx.patterCountdown)}
         </div>
       </div>
+
+      <hr />
+
+      <h3>Medley
+        <button class="ctx-help-btn" title="Open help: Play a patter medley"
+          @click=${ctx.onMedleyHelp}>?</button>
+      </h3>
+      ${renderMedley(ctx.medley, ctx.onPatterMinutesKeydown)}
+    </div>
+  `;
+}
+
+function renderMedley(
+  ctx: MedleyCtx,
+  onNumberKeydown: (e: KeyboardEvent) => void,
+): TemplateResult {
+  return html`
+    <div class="medley-controls">
+      ${ctx.queue.length > 0
+        ? html`
+            <ol class="medley-queue">
+              ${ctx.queue.map(
+                (song, i) => html`
+                  <li>
+                    <span class="medley-title">${song.title}</span>
+                    <button class="nudge" title="Remove from the medley"
+                      aria-label="Remove ${song.title} from the medley"
+                      @click=${() => ctx.onRemove(i)}>\u00D7</button>
+                  </li>
+                `,
+              )}
+            </ol>
+          `
+        : nothing}
+      <div class="patter-row">
+        <label>Add:</label>
+        <select title="Queue a patter song from the playlist to follow this one"
+          ?disabled=${ctx.candidates.length === 0} @change=${ctx.onAdd}>
+          <option value="" selected>
+            ${ctx.candidates.length > 0 ? "Patter from playlist\u2026" : "No other patter in playlist"}
+          </option>
+          ${ctx.candidates.map((song, i) => html`<option value=${i}>${song.title}</option>`)}
+        </select>
+      </div>
+      <div class="patter-row" title="How long each track plays before the next one fades in">
+        <label>Switch after:</label>
+        <input
+          type="number"
+          min="1"
+          max="30"
+          step="1"
+          .value=${String(ctx.switchAfter)}
+          @change=${ctx.onSwitchAfterChange}
+          @keydown=${onNumberKeydown}
+        />
+        <select @change=${ctx.onSwitchByChange}>
+          <option value="minutes" ?selected=${ctx.switchBy === "minutes"}>minutes</option>
+          <option value="loops" ?selected=${ctx.switchBy === "loops"}>loops</option>
+        </select>
+      </div>
+      <div class="medley-status">
+        <span class="muted">${ctx.status}</span>
+        <button class="nudge" title="Fade into the next track now"
+          ?disabled=${ctx.queue.length === 0} @click=${ctx.onNext}>Next Track</button>
+      </div>
+    </div>
+  `;
+}
+
+function renderLoopSuggestions(ctx: PatterControlsCtx): TemplateResult {
+  const suggestions = ctx.loopSuggestions;
+  const isCurrent = (s: LoopSuggestion) =>
+    Math.abs(s.start - ctx.loopStart) < 0.005 && Math.abs(s.end - ctx.loopEnd) < 0.005;
+  return html`
+    <div class="loop-suggestions">
+      <label>Suggested:</label>
+      ${ctx.analyzingLoops
+        ? html`<span class="muted">Analyzing\u2026</span>`
+        : suggestions === null
+          ? html`<button class="nudge" title="Analyze the track for smooth loop points"
+              @click=${ctx.onSuggestLoops}>Find loops</button>`
+          : suggestions.length === 0
+            ? html`<span class="muted">None found</span>`
+            : suggestions.map(
+                (s) => html`
+                  <button class="nudge loop-suggestion ${isCurrent(s) ? "current" : ""}"
+                    title="${s.beats}-beat loop, ${Math.round(s.score * 100)}% match at the wrap \u2014 click to use"
+                    @click=${() => ctx.applyLoopSuggestion(s)}>
+                    ${s.start.toFixed(2)}\u2013${s.end.toFixed(2)}s
+                  </button>
+                `,
+              )}
     </div>
   `;
 }
 
 export type TransportCtx = {
   playing: boolean;
+  metronome: boolean;
+  /** 0 = no count-in. */
+  countInClicks: number;
+  phraseBeats: number;
   onPlayPause: () => void;
   onRestart: () => void;
   onSeekDelta: (seconds: number) => void;
   onGoToEnd: () => void;
+  onMetronomeChange: (e: Event) => void;
+  onCountInChange: (e: Event) => void;
+  onPhraseBeatsChange: (e: Event) => void;
 };
 
 export function renderTransport(ctx: TransportCtx): TemplateResult {
@@ -133,6 +337,28 @@ export function renderTransport(ctx: TransportCtx): TemplateResult {
       <button class="ctrl-btn" title="Forward 5s (Ctrl+→)" @click=${() => ctx.onSeekDelta(5)}>⏩</button>
       <button class="ctrl-btn" title="Go to end (End)" @click=${ctx.onGoToEnd}>⏭</button>
     </div>
+    <div class="transport-options">
+      <label title="Soft clicks on the beat while the song plays (songs with a BPM only)">
+        <input type="checkbox" .checked=${ctx.metronome} @change=${ctx.onMetronomeChange} />
+        Metronome
+      </label>
+      <label title="Clicks at the song's tempo before it starts from the top; press Play again to cancel">
+        Count-in
+        <select @change=${ctx.onCountInChange}>
+          ${COUNT_IN_CHOICES.map(
+            (n) => html`<option value=${n} ?selected=${n === ctx.countInClicks}>${n === 0 ? "Off" : n}</option>`,
+          )}
+        </select>
+      </label>
+      <label title="Phrase length for phrase seeking: { / } back/forward a phrase, [ / ] back/forward a beat, comma = restart the phrase">
+        Phrase
+        <select @change=${ctx.onPhraseBeatsChange}>
+          ${PHRASE_BEAT_CHOICES.map(
+            (n) => html`<option value=${n} ?selected=${n === ctx.phraseBeats}>${n} beats</option>`,
+          )}
+        </select>
+      </label>
+    </div>
   `;
 }
 
@@ -144,6 +370,15 @@ export type SliderCtx = {
   loopEnd: number;
   loopActive: boolean;
   showSegmentLabels: boolean;
+  /** Detected section starts (see Song.sectionTimes); empty = equal sevenths. */
+  sectionTimes: number[];
+  /** Waveform overview peaks (0–255) across the file; empty = none drawn. */
+  waveform: number[];
+  /** Temporary A/B repeat (seconds of the file); end null while only A is marked. */
+  practiceLoop: { start: number; end: number | null } | null;
+  /** Named cue markers (see Song.cues). */
+  cues: SongCue[];
+  onCueClick: (cue: SongCue) => void;
   onSliderInput: (e: Event) => void;
   onLoopMarkerPointerDown: (which: "start" | "end", e: PointerEvent) => void;
   onLoopMarkerPointerMove: (e: PointerEvent) => void;
@@ -160,6 +395,67 @@ const SEGMENT_LABELS = [
   "Closer",
 ] as const;
 
+type SliderSegment = {
+  /** Section name; empty for the lead-in/tag around the seven sections. */
+  label: string;
+  /** Alternating shading for sections; "edge" for the lead-in/tag. */
+  kind: "even" | "odd" | "edge";
+  /** Width as a percentage of the track. */
+  widthPct: number;
+};
+
+/**
+ * Segments for the progress slider: equal sevenths, or the detected sections
+ * plus the lead-in and tag when section times are known. Widths are fractions
+ * of the source file, which equal fractions of the tempo-adjusted duration.
+ */
+function sliderSegments(
+  sectionTimes: number[],
+  sourceDuration: number,
+): SliderSegment[] {
+  const detected =
+    sectionTimes.length === SEGMENT_LABELS.length + 1 && sourceDuration > 0;
+  if (!detected) {
+    return SEGMENT_LABELS.map((label, i) => ({
+      label,
+      kind: i % 2 === 0 ? "even" : "odd",
+      widthPct: 100 / SEGMENT_LABELS.length,
+    }));
+  }
+  const pctOf = (seconds: number) =>
+    (Math.max(0, Math.min(seconds, sourceDuration)) / sourceDuration) * 100;
+  const tagStart = pctOf(sectionTimes[SEGMENT_LABELS.length]);
+  return [
+    { label: "", kind: "edge", widthPct: pctOf(sectionTimes[0]) },
+    ...SEGMENT_LABELS.map((label, i): SliderSegment => ({
+      label,
+      kind: i % 2 === 0 ? "even" : "odd",
+      widthPct: pctOf(sectionTimes[i + 1]) - pctOf(sectionTimes[i]),
+    })),
+    { label: "", kind: "edge", widthPct: 100 - tagStart },
+  ];
+}
+
+/**
+ * Waveform overview as one mirrored filled shape, stretched to the track.
+ * x is the peak index and y runs 0–2 with the centre line at 1.
+ */
+function renderWaveform(peaks: number[]): TemplateResult | typeof nothing {
+  if (peaks.length === 0) return nothing;
+  const top = peaks.map((p, i) => `${i},${(1 - p / 255).toFixed(3)}`);
+  const bottom = peaks.map((p, i) => `${i},${(1 + p / 255).toFixed(3)}`).reverse();
+  return html`
+    <svg
+      class="waveform"
+      viewBox="0 0 ${peaks.length - 1 || 1} 2"
+      preserveAspectRatio="none"
+      aria-hidden="true"
+    >
+      <polygon points=${[...top, ...bottom].join(" ")}></polygon>
+    </svg>
+  `;
+}
+
 export function renderSlider(ctx: SliderCtx): TemplateResult {
   const pct =
     ctx.effectiveDuration > 0
@@ -169,7 +465,7 @@ export function renderSlider(ctx: SliderCtx): TemplateResult {
     ctx.sourceDuration > 0 ? (ctx.loopStart / ctx.sourceDuration) * 100 : 0;
   const loopEndPct =
     ctx.sourceDuration > 0 ? (ctx.loopEnd / ctx.sourceDuration) * 100 : 0;
-  const segmentWidth = `${100 / SEGMENT_LABELS.length}%`;
+  const segments = sliderSegments(ctx.sectionTimes, ctx.sourceDuration);
 
   return html`
     <div
@@ -178,23 +474,24 @@ export function renderSlider(ctx: SliderCtx): TemplateResult {
     >
       <div class="slider-track">
         <div class="segments">
-          ${SEGMENT_LABELS.map(
-            (_label, i) => html`
+          ${segments.map(
+            (seg) => html`
               <div
-                class="segment ${i % 2 === 0 ? "even" : "odd"}"
-                style="width: ${segmentWidth}"
+                class="segment ${seg.kind}"
+                style="width: ${seg.widthPct}%"
               ></div>
             `,
           )}
         </div>
+        ${renderWaveform(ctx.waveform)}
         <div class="progress" style="width: ${pct}%"></div>
         ${ctx.showSegmentLabels
           ? html`
               <div class="segment-labels" aria-hidden="true">
-                ${SEGMENT_LABELS.map(
-                  (label) => html`
-                    <span class="segment-label" style="width: ${segmentWidth}"
-                      >${label}</span
+                ${segments.map(
+                  (seg) => html`
+                    <span class="segment-label" style="width: ${seg.widthPct}%"
+                      >${seg.label}</span
                     >
                   `,
                 )}
@@ -220,6 +517,9 @@ export function renderSlider(ctx: SliderCtx): TemplateResult {
           `
         : nothing}
 
+      ${renderPracticeLoopMarkers(ctx)}
+      ${renderCueMarkers(ctx)}
+
       <input
         type="range"
         class="slider-input"
@@ -233,3 +533,105 @@ export function renderSlider(ctx: SliderCtx): TemplateResult {
     </div>
   `;
 }
+
+/** A/B repeat region and markers; not draggable, so the slider stays usable under them. */
+function renderPracticeLoopMarkers(ctx: SliderCtx): TemplateResult | typeof nothing {
+  const loop = ctx.practiceLoop;
+  if (!loop || ctx.sourceDuration <= 0) return nothing;
+  const pctOf = (seconds: number) => (seconds / ctx.sourceDuration) * 100;
+  return html`
+    ${loop.end !== null
+      ? html`<div class="practice-loop-region"
+          style="left: ${pctOf(loop.start)}%; width: ${pctOf(loop.end - loop.start)}%"></div>`
+      : nothing}
+    <div class="practice-loop-marker" style="left: ${pctOf(loop.start)}%"
+      title="Repeat A: ${loop.start.toFixed(2)}s"></div>
+    ${loop.end !== null
+      ? html`<div class="practice-loop-marker" style="left: ${pctOf(loop.end)}%"
+          title="Repeat B: ${loop.end.toFixed(2)}s"></div>`
+      : nothing}
+  `;
+}
+
+/** Cue lines across the track, each with a flag on top that jumps to it. */
+function renderCueMarkers(ctx: SliderCtx): TemplateResult | typeof nothing {
+  if (ctx.cues.length === 0 || ctx.sourceDuration <= 0) return nothing;
+  return html`
+    ${ctx.cues.map(
+      (cue) => html`
+        <div class="cue-marker" style="left: ${(cue.time / ctx.sourceDuration) * 100}%">
+          <div class="cue-flag" title="${cue.name} (${formatTime(cue.time)}) \u2014 click to jump"
+            @click=${() => ctx.onCueClick(cue)}></div>
+        </div>
+      `,
+    )}
+  `;
+}
+
+export type PracticeLoopCtx = {
+  start: number | null;
+  end: number | null;
+  onSet: (which: "start" | "end") => void;
+  onClear: () => void;
+};
+
+/** A/B repeat buttons for rehearsing part of a singing call. */
+export function renderPracticeLoop(ctx: PracticeLoopCtx): TemplateResult {
+  const active = ctx.start !== null && ctx.end !== null;
+  return html`
+    <div class="practice-loop-row">
+      <span class="practice-loop-label"
+        title="Repeat part of the song while rehearsing. Not saved with the song.">A/B Repeat</span>
+      <button class="nudge" title="Mark A at the current position (a)"
+        @click=${() => ctx.onSet("start")}>A</button>
+      <button class="nudge" title="Mark B at the current position and start repeating (b)"
+        @click=${() => ctx.onSet("end")}>B</button>
+      <button class="nudge" title="Stop repeating (x)" ?disabled=${ctx.start === null}
+        @click=${ctx.onClear}>Clear</button>
+      <span class="muted">
+        ${active
+          ? `${ctx.start!.toFixed(1)}–${ctx.end!.toFixed(1)}s`
+          : ctx.start !== null
+            ? `A at ${ctx.start.toFixed(1)}s`
+            : ""}
+      </span>
+    </div>
+  `;
+}
+
+export type CuesCtx = {
+  cues: SongCue[];
+  onAdd: () => void;
+  onJump: (direction: 1 | -1) => void;
+  onSeek: (cue: SongCue) => void;
+  onRename: (cue: SongCue, e: Event) => void;
+  onDelete: (cue: SongCue) => void;
+};
+
+/** Named cue markers: add at the current position, jump, rename, delete. */
+export function renderCues(ctx: CuesCtx): TemplateResult {
+  const none = ctx.cues.length === 0;
+  return html`
+    <div class="cues-row">
+      <span class="cues-label" title="Named markers saved with the song">Cues</span>
+      <button class="nudge" title="Previous cue (<)" ?disabled=${none}
+        @click=${() => ctx.onJump(-1)}>\u25C0</button>
+      <button class="nudge" title="Add a cue at the current position (m)"
+        @click=${ctx.onAdd}>+ Cue</button>
+      <button class="nudge" title="Next cue (>)" ?disabled=${none}
+        @click=${() => ctx.onJump(1)}>\u25B6</button>
+      ${ctx.cues.map(
+        (cue) => html`
+          <span class="cue-chip">
+            <button class="cue-time" title="Jump to this cue"
+              @click=${() => ctx.onSeek(cue)}>${formatTime(cue.time)}</button>
+            <input type="text" class="cue-name" .value=${cue.name}
+              aria-label="Cue name" @change=${(e: Event) => ctx.onRename(cue, e)} />
+            <button class="cue-delete" title="Delete this cue" aria-label="Delete cue"
+              @click=${() => ctx.onDelete(cue)}>\u00D7</button>
+          </span>
+        `,
+      )}
+    </div>
+  `;
+}
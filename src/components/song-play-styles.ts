@@ -185,6 +185,51 @@ export const songPlayStyles = [
       opacity: 0.5;
     }
 
+    .medley-controls {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+
+    .medley-queue {
+      margin: 0;
+      padding-left: 1.5em;
+    }
+
+    .medley-queue li {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 4px;
+    }
+
+    .medley-title {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .medley-status {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 8px;
+    }
+
+    .tempo-ramp-controls {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+
+    .tempo-ramp-controls .patter-toggle-row {
+      margin-bottom: 2px;
+    }
+
+    .tempo-ramp-controls.ramp-disabled .patter-row {
+      opacity: 0.5;
+    }
+
     .patter-timer-controls .patter-toggle {
       opacity: 1;
     }
@@ -212,6 +257,28 @@ export const songPlayStyles = [
       font-size: 0.9rem;
     }
 
+    .loop-crossfade-row {
+      margin-top: 8px;
+    }
+
+    .loop-suggestions {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 6px;
+      margin-top: 8px;
+      font-size: 0.9rem;
+    }
+
+    .loop-suggestion {
+      font-variant-numeric: tabular-nums;
+    }
+
+    .loop-suggestion.current {
+      border-color: var(--cb-accent);
+      box-shadow: 0 0 0 1px var(--cb-accent);
+    }
+
     .patter-row input {
       width: 3.75rem;
       padding: 4px 8px;
@@ -221,6 +288,21 @@ export const songPlayStyles = [
       color: var(--cb-fg);
     }
 
+    .patter-row input[type="range"] {
+      flex: 1;
+      width: auto;
+      padding: 0;
+      border: none;
+    }
+
+    .patter-row .alarm-file {
+      flex: 1;
+      min-width: 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
     .patter-countdown {
       font-size: 2rem;
       font-weight: 300;
@@ -296,6 +378,19 @@ export const songPlayStyles = [
       gap: 4px;
     }
 
+    .transport-options {
+      display: flex;
+      justify-content: center;
+      gap: 12px;
+      font-size: 0.85rem;
+    }
+
+    .transport-options label {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+    }
+
     .ctrl-btn {
       background: var(--cb-btn-bg);
       border: 1px solid var(--cb-btn-border);
@@ -374,6 +469,31 @@ export const songPlayStyles = [
       margin-left: 4px;
     }
 
+    .vocal-key-select,
+    .stretch-preset-select {
+      padding: 2px 4px;
+      border: 1px solid var(--cb-border);
+      border-radius: 4px;
+      background: var(--cb-input-bg);
+      color: var(--cb-fg);
+    }
+
+    .tempo-mode-toggle {
+      display: inline-flex;
+      align-items: center;
+      gap: 4px;
+      cursor: pointer;
+    }
+
+    .target-bpm-input {
+      width: 3.5rem;
+      padding: 2px 6px;
+      border: 1px solid var(--cb-border);
+      border-radius: 4px;
+      background: var(--cb-input-bg);
+      color: var(--cb-fg);
+    }
+
     /* -- Time info --------------------------------------------------------- */
 
     .time-info {
@@ -443,6 +563,21 @@ export const songPlayStyles = [
       background: var(--cb-segment-odd);
     }
 
+    /* Lead-in and tag around detected singing-call sections. */
+    .segment.edge {
+      background: var(--cb-segment-odd);
+      opacity: 0.5;
+    }
+
+    .waveform {
+      position: absolute;
+      inset: 0;
+      width: 100%;
+      height: 100%;
+      fill: var(--cb-waveform);
+      pointer-events: none;
+    }
+
     .progress {
       position: absolute;
       top: 0;
@@ -516,6 +651,92 @@ export const songPlayStyles = [
       border-color: var(--cb-error);
     }
 
+    .practice-loop-region {
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      background: var(--cb-practice-loop-bg);
+      pointer-events: none;
+    }
+
+    .practice-loop-marker {
+      position: absolute;
+      top: -2px;
+      bottom: -2px;
+      width: 2px;
+      margin-left: -1px;
+      background-color: var(--cb-practice-loop);
+      pointer-events: none;
+    }
+
+    .practice-loop-row {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      font-size: 0.85rem;
+    }
+
+    .practice-loop-label {
+      margin-right: 4px;
+    }
+
+    .cue-marker {
+      position: absolute;
+      top: -2px;
+      bottom: -2px;
+      width: 2px;
+      margin-left: -1px;
+      background-color: var(--cb-cue);
+      pointer-events: none;
+    }
+
+    .cue-flag {
+      position: absolute;
+      top: 0;
+      left: 0;
+      width: 8px;
+      height: 8px;
+      background-color: var(--cb-cue);
+      clip-path: polygon(0 0, 100% 0, 0 100%);
+      pointer-events: auto;
+      cursor: pointer;
+      z-index: 2;
+    }
+
+    .cues-row {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 4px;
+      font-size: 0.85rem;
+    }
+
+    .cues-label {
+      margin-right: 4px;
+    }
+
+    .cue-chip {
+      display: inline-flex;
+      align-items: center;
+      border-left: 3px solid var(--cb-cue);
+      padding-left: 2px;
+    }
+
+    .cue-time,
+    .cue-delete {
+      background: none;
+      border: none;
+      color: inherit;
+      cursor: pointer;
+      font: inherit;
+      padding: 0 2px;
+    }
+
+    .cue-name {
+      width: 7em;
+      font: inherit;
+    }
+
     .slider-input {
       position: absolute;
       inset: 0;
@@ -25,18 +25,31 @@ import {
   lyricsFilenameFor,
   effectiveAudioLoopPoints,
   clampPatterLoopRegion,
+  clampEqDb,
+  clampPitchCents,
+  DEFAULT_TEMPO_RAMP_SECONDS,
+  STRETCH_PRESETS,
+  type StretchPreset,
+  addSongCue,
+  cueSeekTarget,
 } from "../models/song.js";
 import { formatTime, formatClock } from "../utils/format.js";
+import { formatKey, MAJOR_KEYS, parseKey, transposeKey } from "../utils/musical-key.js";
 import { openHelpSection } from "../utils/ui-help.js";
 import { renderAlertDialog } from "../utils/ui-alert.js";
+import { renderAlarmChooser } from "../utils/ui-alarm.js";
 import { CountdownAlarmController } from "../controllers/countdown-alarm-controller.js";
 import { songPlayStyles } from "./song-play-styles.js";
 import {
+  LOOP_CROSSFADE_MAX_MS,
   renderPatterControls,
+  renderPracticeLoop,
+  renderCues,
   renderSlider,
   renderTransport,
 } from "./song-play-partials.js";
-import type { Song } from "../models/song.js";
+import type { Song, SongCue } from "../models/song.js";
+import type { LoopSuggestion } from "../services/loop-suggester.js";
 import type { LyricsEditor, LyricsEditorMode } from "./lyrics-editor.js";
 import {
   generateLyricsMarkdownTemplate,
@@ -44,6 +57,14 @@ import {
 } from "../utils/lyrics-markdown.js";
 import { tempoRatioFromSong } from "../utils/play-history.js";
 import { bumpLyricsScale } from "../utils/lyrics-scale.js";
+import {
+  beatSeekTarget,
+  phraseSeekTarget,
+  phraseStartAt,
+  type BeatSeekGrid,
+} from "../utils/beat-seek.js";
+import { isLoopWrap, medleyTrackDone } from "../utils/medley.js";
+import { TARGET_BPM_MAX, TARGET_BPM_MIN, type MedleySwitchBy } from "../models/settings.js";
 import {
   HostLayoutResizeController,
   isHostPortraitLayout,
@@ -58,6 +79,28 @@ function generateLyricsTemplate(song: Song): string {
 const PRACTICE_MODE_TOOLTIP =
   "When practice is on, the song is not counted in play history (last used / how often played). (Ctrl+P)";
 
+/** Song fields behind the Bass/Mid/Treble rows. */
+type EqField = "eqBass" | "eqMid" | "eqTreble";
+/** Equalizer ◄/► step in dB. */
+const EQ_STEP_DB = 1;
+/** Fine pitch ◄/► step in cents. */
+const PITCH_CENTS_STEP = 5;
+
+const STRETCH_PRESET_LABELS: Record<StretchPreset, string> = {
+  auto: "Automatic",
+  speech: "Speech-like",
+  music: "Music",
+  percussive: "Percussive",
+};
+
+const LEVEL_LOUDNESS_TOOLTIP =
+  "When checked, every song is played at a similar loudness (measured in the background), on top of its Volume setting.";
+
+/** Tooltip for the per-song Skip Lead-in checkbox. */
+function skipLeadInTooltip(leadIn: number): string {
+  return `When checked, this song starts (and restarts) at ${leadIn.toFixed(1)}s, after the silence before the music.`;
+}
+
 const AUTO_PAUSE_ON_BLUR_TOOLTIP =
   "When checked, playback pauses when this window loses focus (switching apps or tabs). Uncheck to keep playing in the background.";
 
@@ -96,12 +139,27 @@ export class SongPlay extends LitElement {
   // Loop controls (patter)
   @state() private loopStart = 0;
   @state() private loopEnd = 0;
+  /** Temporary A/B repeat (singing calls); never saved with the song. */
+  @state() private practiceLoopStart: number | null = null;
+  @state() private practiceLoopEnd: number | null = null;
+  /** Patter loop suggestions for the current song; null until analyzed. */
+  @state() private loopSuggestions: LoopSuggestion[] | null = null;
+  @state() private analyzingLoops = false;
+  /** Waveform overview behind the progress slider; [] until loaded. */
+  @state() private waveform: number[] = [];
   private draggingMarker: "start" | "end" | null = null;
 
+  // Patter medley: how long the current track has had (counted while something is queued)
+  private medleyPlayedSec = 0;
+  private medleyLoops = 0;
+  private medleyLastPosition = 0;
+  private medleyLastTickMs = 0;
+  private medleySwitching = false;
+
   // Patter timer
   @state() private patterMinutes = 6;
   private patterTimer = new CountdownAlarmController(this, {
-    playBeep: () => callerBuddy.audio.playBeep(),
+    playBeep: () => callerBuddy.playTimerAlarm("patter"),
   });
 
   // Phone portrait split: controls (top) vs lyrics (bottom)
@@ -132,11 +190,11 @@ export class SongPlay extends LitElement {
     return callerBuddy.state.currentSong;
   }
 
-  /** Tempo ratio from song delta (matches audio engine: (ref + delta) / ref, clamped 0.5–2). */
+  /** Tempo ratio from the song's tempo change (matches audio engine: (ref + delta) / ref, clamped 0.5–2). */
   private getTempoRatio(): number {
     const song = this.song;
     if (!song) return 1;
-    return tempoRatioFromSong(song);
+    return tempoRatioFromSong(song, callerBuddy.songDeltaTempo(song));
   }
 
   /** Playback duration in seconds (source duration / tempo ratio). */
@@ -152,12 +210,12 @@ export class SongPlay extends LitElement {
     return ratio > 0 ? position / ratio : position;
   }
 
-  /** Effective BPM (original + delta) for display. */
+  /** BPM being played (original × the engine's live tempo ratio, so it follows a ramp). */
   private getEffectiveBPM(): number {
     const song = this.song;
     if (!song) return 0;
     const ref = song.originalTempo > 0 ? song.originalTempo : 128;
-    return ref + song.deltaTempo;
+    return Math.round(ref * callerBuddy.audio.getTempoRatio() * 10) / 10;
   }
 
   connectedCallback() {
@@ -202,6 +260,7 @@ export class SongPlay extends LitElement {
         this.syncImplicitPatterLoopIfNeeded();
       }
       callerBuddy.tickSongPlaySession(callerBuddy.audio.isPlaying());
+      this.tickMedley();
       this.requestUpdate();
     });
 
@@ -542,6 +601,20 @@ export class SongPlay extends LitElement {
       return;
     }
 
+    if (
+      !e.ctrlKey &&
+      !e.metaKey &&
+      !e.altKey &&
+      this.song &&
+      !isPatter(this.song) &&
+      ["a", "b", "x"].includes(e.key)
+    ) {
+      e.preventDefault();
+      if (e.key === "x") this.clearPracticeLoop();
+      else this.setPracticeLoopPoint(e.key === "a" ? "start" : "end");
+      return;
+    }
+
     switch (e.key) {
       case " ":
         e.preventDefault();
@@ -573,6 +646,34 @@ export class SongPlay extends LitElement {
         e.preventDefault();
         this.onSeekDelta(e.ctrlKey ? 5 : 2);
         break;
+      case "[":
+      case "]":
+        if (e.ctrlKey || e.metaKey || e.altKey) break;
+        e.preventDefault();
+        void this.onBeatSeek("beat", e.key === "]" ? 1 : -1);
+        break;
+      case "{":
+      case "}":
+        if (e.ctrlKey || e.metaKey || e.altKey) break;
+        e.preventDefault();
+        void this.onBeatSeek("phrase", e.key === "}" ? 1 : -1);
+        break;
+      case ",":
+        if (e.ctrlKey || e.metaKey || e.altKey) break;
+        e.preventDefault();
+        void this.onBeatSeek("phraseStart");
+        break;
+      case "m":
+        if (e.ctrlKey || e.metaKey || e.altKey) break;
+        e.preventDefault();
+        this.addCue();
+        break;
+      case "<":
+      case ">":
+        if (e.ctrlKey || e.metaKey || e.altKey) break;
+        e.preventDefault();
+        this.jumpToCue(e.key === ">" ? 1 : -1);
+        break;
       case "V":
         e.preventDefault();
         this.adjustVolume(5);
@@ -606,7 +707,11 @@ export class SongPlay extends LitElement {
     }
   }
 
-  private async initSong() {
+  /**
+   * Set up the view for the current song. A medley's next track keeps the
+   * patter timer running (`medleyTrack`).
+   */
+  private async initSong(medleyTrack = false) {
     const song = this.song;
     if (!song) return;
 
@@ -614,12 +719,24 @@ export class SongPlay extends LitElement {
     const eff = effectiveAudioLoopPoints(song, dur);
     this.loopStart = eff.start;
     this.loopEnd = eff.end;
-    this.patterMinutes = callerBuddy.state.settings.patterTimerMinutes;
-    this.patterTimer.setDurationSeconds(this.patterMinutes * 60);
-    this.patterTimer.reset();
+    this.practiceLoopStart = null;
+    this.practiceLoopEnd = null;
+    this.medleyPlayedSec = 0;
+    this.medleyLoops = 0;
+    this.medleyLastPosition = callerBuddy.audio.getCurrentTime();
+    this.medleyLastTickMs = 0;
+    if (!medleyTrack) {
+      this.patterMinutes = callerBuddy.state.settings.patterTimerMinutes;
+      this.patterTimer.setDurationSeconds(this.patterMinutes * 60);
+      this.patterTimer.reset();
+    }
+    void this.loadWaveform(song);
 
     if (isSingingCall(song)) {
       this.lyrics = await callerBuddy.loadLyrics(song);
+      if (song.sectionTimes.length === 0) void this.loadSongSections(song);
+    } else {
+      void this.loadLoopSuggestions(song);
     }
 
     this.duration = dur;
@@ -672,9 +789,10 @@ export class SongPlay extends LitElement {
     }
   }
 
-  private beginPlayback() {
-    void callerBuddy.audio.play();
-    this.applyPlaybackStartedState();
+  /** Start playback (after the count-in, if any); state follows once the music starts. */
+  private async beginPlayback() {
+    if (!this.song) return;
+    if (await callerBuddy.startSongPlayback(this.song)) this.applyPlaybackStartedState();
   }
 
   render() {
@@ -695,19 +813,47 @@ export class SongPlay extends LitElement {
               : renderPatterControls({
                   loopStart: this.loopStart,
                   loopEnd: this.loopEnd,
+                  loopCrossfadeMs: Math.round(song.loopCrossfadeTime * 1000),
+                  loopSuggestions: this.loopSuggestions,
+                  analyzingLoops: this.analyzingLoops,
+                  tempoRamp: song.tempoRamp,
+                  tempoRampEnd: song.tempoRampEnd,
+                  tempoRampMinutes: song.tempoRampSeconds / 60,
                   patterTimerEnabled: this.patterTimer.enabled,
                   patterMinutes: this.patterMinutes,
                   patterCountdown: this.patterTimer.countdown,
+                  patterAlarm: renderAlarmChooser(this, "patter", "patter-row"),
                   onLoopHelp: () => openHelpSection("setting-loop-points-for-patter"),
                   onPatterTimerHelp: () => openHelpSection("the-patter-timer"),
+                  onTempoRampHelp: () => openHelpSection("ramping-the-tempo"),
                   onLoopBoxKeydown: (which, e) => this.onLoopBoxKeydown(which, e),
                   onLoopBtnMousedown: (e) => this.onLoopBtnMousedown(e),
                   nudgeLoop: (which, d) => this.nudgeLoop(which, d),
                   setLoopFromCurrent: (which) => this.setLoopFromCurrent(which),
+                  onLoopCrossfadeChange: (e) => this.onLoopCrossfadeChange(e),
+                  onLoopCrossfadeKeydown: (e) => this.onPatterMinutesKeydown(e),
+                  applyLoopSuggestion: (s) => this.applyLoopSuggestion(s),
+                  onSuggestLoops: () => void this.analyzeLoops(song),
+                  onTempoRampEnabledChange: (e) => this.onTempoRampEnabledChange(e),
+                  onTempoRampEndChange: (e) => this.onTempoRampEndChange(e),
+                  onTempoRampMinutesChange: (e) => this.onTempoRampMinutesChange(e),
                   onPatterTimerEnabledChange: (e) =>
                     this.onPatterTimerEnabledChange(e),
                   onPatterMinutesChange: (e) => this.onPatterMinutesChange(e),
                   onPatterMinutesKeydown: (e) => this.onPatterMinutesKeydown(e),
+                  medley: {
+                    queue: callerBuddy.getMedleyQueue(),
+                    candidates: this.medleyCandidates(song),
+                    switchBy: callerBuddy.getMedleySwitchBy(),
+                    switchAfter: callerBuddy.getMedleySwitchAfter(),
+                    status: this.medleyStatus(),
+                    onAdd: (e) => this.onMedleyAdd(e, song),
+                    onRemove: (i) => this.onMedleyRemove(i),
+                    onSwitchByChange: (e) => this.onMedleySwitchByChange(e),
+                    onSwitchAfterChange: (e) => this.onMedleySwitchAfterChange(e),
+                    onNext: () => void this.nextMedleyTrack(),
+                  },
+                  onMedleyHelp: () => openHelpSection("playing-a-patter-medley"),
                 })}
           </div>
           ${!this.editing
@@ -736,10 +882,32 @@ export class SongPlay extends LitElement {
         <div class="right-panel" tabindex="-1">
           ${renderTransport({
             playing: this.playing,
+            metronome: callerBuddy.getMetronome(),
+            countInClicks: callerBuddy.getCountInClicks(),
+            phraseBeats: callerBuddy.getPhraseBeats(),
             onPlayPause: () => this.onPlayPause(),
             onRestart: () => this.onRestart(),
             onSeekDelta: (s) => this.onSeekDelta(s),
             onGoToEnd: () => this.onGoToEnd(),
+            onMetronomeChange: (e) => this.onMetronomeChange(e),
+            onCountInChange: (e) => this.onCountInChange(e),
+            onPhraseBeatsChange: (e) => this.onPhraseBeatsChange(e),
+          })}
+          ${isPatter(song)
+            ? nothing
+            : renderPracticeLoop({
+                start: this.practiceLoopStart,
+                end: this.practiceLoopEnd,
+                onSet: (which) => this.setPracticeLoopPoint(which),
+                onClear: () => this.clearPracticeLoop(),
+              })}
+          ${renderCues({
+            cues: song.cues,
+            onAdd: () => this.addCue(),
+            onJump: (direction) => this.jumpToCue(direction),
+            onSeek: (cue) => callerBuddy.audio.seek(cue.time),
+            onRename: (cue, e) => this.renameCue(cue, e),
+            onDelete: (cue) => this.deleteCue(cue),
           })}
           ${this.renderAdjustments(song)}
           ${this.renderTimeInfo()}
@@ -770,6 +938,14 @@ export class SongPlay extends LitElement {
                 ? this.duration > 0 && this.loopEnd > this.loopStart
                 : this.loopEnd > 0,
             showSegmentLabels: !isPatter(song),
+            sectionTimes: isPatter(song) ? [] : song.sectionTimes,
+            waveform: this.waveform,
+            practiceLoop:
+              this.practiceLoopStart === null
+                ? null
+                : { start: this.practiceLoopStart, end: this.practiceLoopEnd },
+            cues: song.cues,
+            onCueClick: (cue) => callerBuddy.audio.seek(cue.time),
             onSliderInput: (e) => this.onSliderInput(e),
             onLoopMarkerPointerDown: (which, e) =>
               this.onLoopMarkerPointerDown(which, e),
@@ -977,6 +1153,7 @@ export class SongPlay extends LitElement {
     if (!song) return nothing;
     const practice = callerBuddy.getPracticeMode();
     const autoPauseBlur = callerBuddy.getAutoPauseOnWindowBlur();
+    const levelLoudness = callerBuddy.getLevelLoudness();
     return html`
       <div class="play-extras-row">
         <div class="play-extras-checks">
@@ -998,6 +1175,28 @@ export class SongPlay extends LitElement {
             />
             Auto-Pause
           </label>
+          <label class="song-play-extras-toggle" title=${LEVEL_LOUDNESS_TOOLTIP}>
+            <input
+              type="checkbox"
+              .checked=${levelLoudness}
+              title=${LEVEL_LOUDNESS_TOOLTIP}
+              @change=${this.onLevelLoudnessChange}
+            />
+            Level
+          </label>
+          ${song.leadIn > 0
+            ? html`
+                <label class="song-play-extras-toggle" title=${skipLeadInTooltip(song.leadIn)}>
+                  <input
+                    type="checkbox"
+                    .checked=${song.skipLeadIn}
+                    title=${skipLeadInTooltip(song.leadIn)}
+                    @change=${this.onSkipLeadInChange}
+                  />
+                  Skip Lead-in
+                </label>
+              `
+            : nothing}
         </div>
         <div class="play-extras-actions">
           ${this.renderEditLyricsButton()}
@@ -1022,6 +1221,20 @@ export class SongPlay extends LitElement {
     this.requestUpdate();
   }
 
+  private async onLevelLoudnessChange(e: Event) {
+    const checked = (e.target as HTMLInputElement).checked;
+    await callerBuddy.setLevelLoudness(checked);
+    this.requestUpdate();
+  }
+
+  private onSkipLeadInChange(e: Event) {
+    if (!this.song) return;
+    this.song.skipLeadIn = (e.target as HTMLInputElement).checked;
+    callerBuddy.applySongStartOffset(this.song);
+    this.requestUpdate();
+    callerBuddy.updateSong(this.song);
+  }
+
   private onAutoPauseBlurChange(e: Event) {
     const checked = (e.target as HTMLInputElement).checked;
     callerBuddy.setAutoPauseOnWindowBlur(checked);
@@ -1148,23 +1361,148 @@ export class SongPlay extends LitElement {
           <button class="ctx-help-btn adj-help-btn" title="Open help: Adjust pitch and tempo"
             @click=${() => openHelpSection("adjust-pitch-and-tempo")}>?</button>
         </div>
+        ${this.renderEqRow("Bass", "eqBass", song)}
+        ${this.renderEqRow("Mid", "eqMid", song)}
+        ${this.renderEqRow("Treble", "eqTreble", song)}
         <div class="adj-row">
           <span class="adj-label" title="Relative pitch to original, each unit is 1/12 of an octave">Pitch</span>
           <button class="adj-btn" title="Decrease pitch (p)" @click=${() => this.adjustPitch(-1)}>◄</button>
           <span class="adj-value">${song.pitch > 0 ? "+" : ""}${song.pitch}</span>
           <button class="adj-btn" title="Increase pitch (P)" @click=${() => this.adjustPitch(1)}>►</button>
+          <span class="adj-hint" title="Detected key of the recording → key after the pitch change">${this.renderKeyHint(song)}</span>
+        </div>
+        <div class="adj-row">
+          <span class="adj-label" title="Fine pitch in cents (100 cents = one half-step), for recordings tuned slightly off">Fine</span>
+          <button class="adj-btn" title="Fine pitch down ${PITCH_CENTS_STEP} cents"
+            @click=${() => this.adjustPitchCents(-PITCH_CENTS_STEP)}>◄</button>
+          <span class="adj-value">${song.pitchCents > 0 ? "+" : ""}${song.pitchCents}</span>
+          <button class="adj-btn" title="Fine pitch up ${PITCH_CENTS_STEP} cents"
+            @click=${() => this.adjustPitchCents(PITCH_CENTS_STEP)}>►</button>
+          <span class="adj-hint">${song.pitchCents !== 0 ? "cents" : ""}</span>
         </div>
+        ${isSingingCall(song) ? this.renderVocalKeyRow(song) : nothing}
+        ${this.renderTempoRows(song)}
         <div class="adj-row">
-          <span class="adj-label">Tempo</span>
-          <button class="adj-btn" title="Decrease tempo (t)" @click=${() => this.adjustTempo(-1)}>◄</button>
-          <span class="adj-value">${song.deltaTempo > 0 ? "+" : ""}${song.deltaTempo}</span>
-          <button class="adj-btn" title="Increase tempo (T)" @click=${() => this.adjustTempo(1)}>►</button>
-          <span class="adj-hint">${this.getEffectiveBPM() > 0 ? `${this.getEffectiveBPM()} BPM` : ""}</span>
+          <span class="adj-label" title="Time-stretch quality for pitch and tempo changes (saved with the song)">Quality</span>
+          <select class="stretch-preset-select"
+            title="Try another preset if a big tempo change sounds warbly"
+            @change=${this.onStretchPresetChange}>
+            ${STRETCH_PRESETS.map(
+              (p) => html`<option value=${p} ?selected=${p === song.stretchPreset}>${STRETCH_PRESET_LABELS[p]}</option>`,
+            )}
+          </select>
         </div>
       </div>
     `;
   }
 
+  /**
+   * Tempo row and the target-mode row below it. In target tempo mode (once
+   * the song's BPM is known) ◄/► move the song's own target BPM; otherwise
+   * they move its tempo change.
+   */
+  private renderTempoRows(song: Song) {
+    const targetMode = callerBuddy.getTempoMode() === "target";
+    const target = song.originalTempo > 0 ? callerBuddy.songTargetTempo(song) : 0;
+    const kind = isPatter(song) ? "patter" : "singing calls";
+    const valueTitle =
+      target > 0
+        ? song.targetTempo > 0
+          ? "Target BPM for this song"
+          : `Default target BPM for ${kind}`
+        : targetMode
+          ? "BPM not detected yet, so the tempo change is used"
+          : "Tempo change in BPM";
+    return html`
+      <div class="adj-row">
+        <span class="adj-label">Tempo</span>
+        <button class="adj-btn" title="Decrease tempo (t)" @click=${() => this.adjustTempo(-1)}>◄</button>
+        <span class="adj-value" title=${valueTitle}>${target > 0
+          ? target
+          : `${song.deltaTempo > 0 ? "+" : ""}${song.deltaTempo}`}</span>
+        <button class="adj-btn" title="Increase tempo (T)" @click=${() => this.adjustTempo(1)}>►</button>
+        <span class="adj-hint" title=${song.tempoRamp ? "Live tempo (ramping)" : ""}>${this.getEffectiveBPM() > 0 ? `${this.getEffectiveBPM()} BPM${song.tempoRamp ? " ↗" : ""}` : ""}</span>
+      </div>
+      <div class="adj-row">
+        <label class="adj-label tempo-mode-toggle" title="Play songs at a target BPM instead of a tempo change">
+          <input type="checkbox" .checked=${targetMode} @change=${this.onTempoModeChange} />
+          Target
+        </label>
+        ${targetMode
+          ? html`
+              <span class="adj-hint">Default for ${kind}:</span>
+              <input
+                class="target-bpm-input"
+                type="number"
+                min=${TARGET_BPM_MIN}
+                max=${TARGET_BPM_MAX}
+                step="1"
+                title="Target BPM for ${kind} without their own target"
+                .value=${String(callerBuddy.getDefaultTargetTempo(song))}
+                @change=${this.onDefaultTargetTempoChange}
+              />
+              ${song.targetTempo > 0
+                ? html`<button class="adj-btn" title="Play this song at the default target"
+                    @click=${this.onClearSongTargetTempo}>↺</button>`
+                : nothing}
+            `
+          : nothing}
+      </div>
+    `;
+  }
+
+  /**
+   * The caller's vocal key and, for a singing call not played yet and still
+   * at pitch 0, a button that pitches it into that key.
+   */
+  private renderVocalKeyRow(song: Song) {
+    const vocalKey = callerBuddy.getVocalKey();
+    const choices = vocalKey && !MAJOR_KEYS.includes(vocalKey) ? [...MAJOR_KEYS, vocalKey] : MAJOR_KEYS;
+    const suggestion = song.pitch === 0 && song.lastUsed === "" ? callerBuddy.suggestedPitch(song) : 0;
+    return html`
+      <div class="adj-row">
+        <span class="adj-label" title="The key you sing in most comfortably">My key</span>
+        <select class="vocal-key-select" title="The key you sing in most comfortably"
+          @change=${this.onVocalKeyChange}>
+          <option value="" ?selected=${vocalKey === ""}>–</option>
+          ${choices.map((k) => html`<option value=${k} ?selected=${k === vocalKey}>${formatKey(k)}</option>`)}
+        </select>
+        ${suggestion !== 0
+          ? html`<button class="adj-btn"
+              title="Pitch this song from ${formatKey(song.originalKey)} to ${formatKey(transposeKey(song.originalKey, suggestion))}"
+              @click=${() => this.adjustPitch(suggestion)}>Pitch ${suggestion > 0 ? "+" : ""}${suggestion}</button>`
+          : nothing}
+      </div>
+    `;
+  }
+
+  private async onVocalKeyChange(e: Event) {
+    await callerBuddy.setVocalKey((e.target as HTMLSelectElement).value);
+    this.requestUpdate();
+  }
+
+  /** "G → A♭" for a pitched song, "G" unpitched; empty until a key is detected. */
+  private renderKeyHint(song: Song): string {
+    if (!parseKey(song.originalKey)) return "";
+    const original = formatKey(song.originalKey);
+    if (song.pitch === 0) return original;
+    return `${original} → ${formatKey(transposeKey(song.originalKey, song.pitch))}`;
+  }
+
+  private renderEqRow(label: string, field: EqField, song: Song) {
+    const db = song[field];
+    const name = label.toLowerCase();
+    return html`
+      <div class="adj-row">
+        <span class="adj-label" title="Equalizer ${name} boost/cut in dB (saved with the song)">${label}</span>
+        <button class="adj-btn" title="Less ${name}" @click=${() => this.adjustEq(field, -EQ_STEP_DB)}>◄</button>
+        <span class="adj-value">${db > 0 ? "+" : ""}${db}</span>
+        <button class="adj-btn" title="More ${name}" @click=${() => this.adjustEq(field, EQ_STEP_DB)}>►</button>
+        <span class="adj-hint">${db !== 0 ? "dB" : ""}</span>
+      </div>
+    `;
+  }
+
   // -- Time info and clock --------------------------------------------------
 
   private renderTimeInfo() {
@@ -1198,7 +1536,7 @@ export class SongPlay extends LitElement {
     if (this.playing) {
       this.pausePlayback();
     } else {
-      this.beginPlayback();
+      void this.beginPlayback();
     }
   }
 
@@ -1210,13 +1548,131 @@ export class SongPlay extends LitElement {
   }
 
   private onRestart() {
-    callerBuddy.audio.seek(0);
+    callerBuddy.audio.seek(callerBuddy.audio.getStartOffset());
+    if (this.song?.tempoRamp) callerBuddy.applySongTempo(this.song);
     this.resetPatterTimer();
     if (this.playing && this.song && isPatter(this.song)) {
       this.startPatterTimer();
     }
   }
 
+  private async onMetronomeChange(e: Event) {
+    await callerBuddy.setMetronome((e.target as HTMLInputElement).checked);
+    this.requestUpdate();
+  }
+
+  private async onCountInChange(e: Event) {
+    await callerBuddy.setCountInClicks(Number((e.target as HTMLSelectElement).value));
+    this.requestUpdate();
+  }
+
+  /**
+   * Mark A or B of the A/B repeat at the current position. Once both are set
+   * the engine loops between them; the song's saved loop points are untouched.
+   */
+  private setPracticeLoopPoint(which: "start" | "end") {
+    const position = callerBuddy.audio.getCurrentTime();
+    if (which === "start") {
+      this.practiceLoopStart = position;
+      if (this.practiceLoopEnd !== null && this.practiceLoopEnd <= position) {
+        this.practiceLoopEnd = null;
+      }
+    } else {
+      const start = this.practiceLoopStart ?? 0;
+      if (position <= start) {
+        callerBuddy.audio.playErrorBeep();
+        return;
+      }
+      this.practiceLoopStart = start;
+      this.practiceLoopEnd = position;
+    }
+    this.applyPracticeLoop();
+  }
+
+  private clearPracticeLoop() {
+    this.practiceLoopStart = null;
+    this.practiceLoopEnd = null;
+    this.applyPracticeLoop();
+  }
+
+  /** Loop the engine over the A/B repeat when complete, else over the song's own loop. */
+  private applyPracticeLoop() {
+    if (this.practiceLoopStart !== null && this.practiceLoopEnd !== null) {
+      callerBuddy.audio.setLoopPoints(this.practiceLoopStart, this.practiceLoopEnd);
+    } else {
+      callerBuddy.audio.setLoopPoints(this.loopStart, this.loopEnd);
+    }
+  }
+
+  /** Add a named cue at the current position and save it with the song. */
+  private addCue() {
+    if (!this.song) return;
+    addSongCue(this.song, callerBuddy.audio.getCurrentTime());
+    this.saveCues();
+  }
+
+  /** Seek to the next or previous cue; beeps when there is none that way. */
+  private jumpToCue(direction: 1 | -1) {
+    const target = this.song
+      ? cueSeekTarget(this.song.cues, callerBuddy.audio.getCurrentTime(), direction)
+      : null;
+    if (target === null) {
+      callerBuddy.audio.playErrorBeep();
+      return;
+    }
+    callerBuddy.audio.seek(target);
+  }
+
+  private renameCue(cue: SongCue, e: Event) {
+    if (!this.song) return;
+    const name = (e.target as HTMLInputElement).value.trim();
+    this.song.cues = this.song.cues.map((c) => (c === cue ? { ...c, name } : c));
+    this.saveCues();
+  }
+
+  private deleteCue(cue: SongCue) {
+    if (!this.song) return;
+    this.song.cues = this.song.cues.filter((c) => c !== cue);
+    this.saveCues();
+  }
+
+  private saveCues() {
+    if (!this.song) return;
+    callerBuddy.updateSong(this.song);
+    this.requestUpdate();
+  }
+
+  private async onPhraseBeatsChange(e: Event) {
+    await callerBuddy.setPhraseBeats(Number((e.target as HTMLSelectElement).value));
+    this.requestUpdate();
+  }
+
+  /**
+   * Seek one beat or phrase back/forward, or to the start of the current
+   * phrase. Needs the song's BPM; beeps otherwise.
+   */
+  private async onBeatSeek(kind: "beat" | "phrase" | "phraseStart", direction: 1 | -1 = 1) {
+    const song = this.song;
+    if (!song || song.originalTempo <= 0) {
+      callerBuddy.audio.playErrorBeep();
+      return;
+    }
+    const grid: BeatSeekGrid = {
+      bpm: song.originalTempo,
+      offset: await callerBuddy.beatOffsetFor(song),
+      phraseBeats: callerBuddy.getPhraseBeats(),
+      musicStart: Math.max(0, song.leadIn),
+    };
+    const position = callerBuddy.audio.getCurrentTime();
+    const target =
+      kind === "beat"
+        ? beatSeekTarget(grid, position, direction)
+        : kind === "phrase"
+          ? phraseSeekTarget(grid, position, direction)
+          : phraseStartAt(grid, position);
+    callerBuddy.audio.seek(Math.max(0, Math.min(target, this.duration)));
+  }
+
   private onSeekDelta(seconds: number) {
     const position = callerBuddy.audio.getCurrentTime();
     const newTime = Math.max(0, Math.min(position + seconds, this.duration));
@@ -1247,6 +1703,18 @@ export class SongPlay extends LitElement {
     callerBuddy.updateSong(this.song);
   }
 
+  private adjustEq(field: EqField, delta: number) {
+    if (!this.song) return;
+    this.song[field] = clampEqDb(this.song[field] + delta);
+    callerBuddy.audio.setEqualizer({
+      bass: this.song.eqBass,
+      mid: this.song.eqMid,
+      treble: this.song.eqTreble,
+    });
+    this.requestUpdate();
+    callerBuddy.updateSong(this.song);
+  }
+
   private adjustPitch(delta: number) {
     if (!this.song) return;
     this.song.pitch += delta;
@@ -1255,10 +1723,56 @@ export class SongPlay extends LitElement {
     callerBuddy.updateSong(this.song);
   }
 
+  private adjustPitchCents(delta: number) {
+    if (!this.song) return;
+    this.song.pitchCents = clampPitchCents(this.song.pitchCents + delta);
+    callerBuddy.audio.setPitchCents(this.song.pitchCents);
+    this.requestUpdate();
+    callerBuddy.updateSong(this.song);
+  }
+
+  private onStretchPresetChange(e: Event) {
+    if (!this.song) return;
+    this.song.stretchPreset = (e.target as HTMLSelectElement).value as StretchPreset;
+    callerBuddy.audio.setStretchPreset(this.song.stretchPreset);
+    this.requestUpdate();
+    callerBuddy.updateSong(this.song);
+  }
+
   private adjustTempo(delta: number) {
     if (!this.song) return;
-    this.song.deltaTempo += delta;
-    callerBuddy.audio.setTempo(this.song.deltaTempo, this.song.originalTempo);
+    const target = this.song.originalTempo > 0 ? callerBuddy.songTargetTempo(this.song) : 0;
+    if (target > 0) {
+      this.song.targetTempo = Math.min(TARGET_BPM_MAX, Math.max(TARGET_BPM_MIN, target + delta));
+    } else {
+      this.song.deltaTempo += delta;
+    }
+    callerBuddy.applySongTempo(this.song);
+    this.requestUpdate();
+    callerBuddy.updateSong(this.song);
+  }
+
+  private async onTempoModeChange(e: Event) {
+    await callerBuddy.setTempoMode((e.target as HTMLInputElement).checked ? "target" : "delta");
+    this.requestUpdate();
+  }
+
+  private async onDefaultTargetTempoChange(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const bpm = Number(input.value);
+    if (!this.song) return;
+    if (!Number.isFinite(bpm) || bpm < TARGET_BPM_MIN || bpm > TARGET_BPM_MAX) {
+      input.value = String(callerBuddy.getDefaultTargetTempo(this.song));
+      return;
+    }
+    await callerBuddy.setDefaultTargetTempo(this.song, bpm);
+    this.requestUpdate();
+  }
+
+  private onClearSongTargetTempo() {
+    if (!this.song) return;
+    this.song.targetTempo = 0;
+    callerBuddy.applySongTempo(this.song);
     this.requestUpdate();
     callerBuddy.updateSong(this.song);
   }
@@ -1318,7 +1832,7 @@ export class SongPlay extends LitElement {
     if (this.song && isPatter(this.song) && this.duration > 0) {
       this.clampPatterLoopIfNeeded();
     }
-    callerBuddy.audio.setLoopPoints(this.loopStart, this.loopEnd);
+    this.applyPracticeLoop();
     if (this.song) {
       this.song.loopStartTime = this.loopStart;
       this.song.loopEndTime = this.loopEnd;
@@ -1326,6 +1840,63 @@ export class SongPlay extends LitElement {
     }
   }
 
+  /**
+   * Show loop suggestions for the patter track: ones found earlier this
+   * session, or a new analysis when no loop is set yet (the song then starts
+   * from the best suggestion). A song that has a loop is only analyzed when
+   * the caller asks (see {@link analyzeLoops}).
+   */
+  private async loadLoopSuggestions(song: Song) {
+    this.loopSuggestions = null;
+    this.analyzingLoops = false;
+    const cached = await callerBuddy.cachedLoopSuggestions(song);
+    if (this.song !== song) return;
+    if (cached) {
+      this.loopSuggestions = cached;
+    } else if (song.loopEndTime <= 0) {
+      await this.analyzeLoops(song);
+    }
+  }
+
+  private async analyzeLoops(song: Song) {
+    this.analyzingLoops = true;
+    const suggestions = await callerBuddy.suggestLoopPoints(song);
+    if (this.song !== song) return;
+    this.analyzingLoops = false;
+    this.loopSuggestions = suggestions;
+    if (song.loopEndTime <= 0 && suggestions.length > 0) {
+      this.applyLoopSuggestion(suggestions[0]);
+    }
+  }
+
+  private async loadWaveform(song: Song) {
+    this.waveform = [];
+    const peaks = await callerBuddy.loadWaveform(song);
+    if (this.song === song) this.waveform = peaks;
+  }
+
+  /** Detect singing-call sections once; the slider re-renders with them when done. */
+  private async loadSongSections(song: Song) {
+    const found = await callerBuddy.detectSongSections(song);
+    if (found && this.song === song) this.requestUpdate();
+  }
+
+  private applyLoopSuggestion(suggestion: LoopSuggestion) {
+    this.loopStart = suggestion.start;
+    this.loopEnd = suggestion.end;
+    this.applyLoopPoints();
+  }
+
+  private onLoopCrossfadeChange(e: Event) {
+    if (!this.song) return;
+    const ms = Number((e.target as HTMLInputElement).value);
+    const clamped = Number.isFinite(ms) ? Math.max(0, Math.min(LOOP_CROSSFADE_MAX_MS, ms)) : 0;
+    this.song.loopCrossfadeTime = clamped / 1000;
+    callerBuddy.audio.setLoopCrossfade(this.song.loopCrossfadeTime);
+    this.requestUpdate();
+    callerBuddy.updateSong(this.song);
+  }
+
   // -- Loop marker drag (progress bar) --------------------------------------
 
   private onLoopMarkerPointerDown(which: "start" | "end", e: PointerEvent) {
@@ -1352,7 +1923,7 @@ export class SongPlay extends LitElement {
       this.clampPatterLoopIfNeeded();
     }
     // Update audio engine live, but don't persist to disk during drag
-    callerBuddy.audio.setLoopPoints(this.loopStart, this.loopEnd);
+    this.applyPracticeLoop();
   }
 
   private onLoopMarkerPointerUp(_e: PointerEvent) {
@@ -1362,10 +1933,139 @@ export class SongPlay extends LitElement {
     this.applyLoopPoints();
   }
 
+  // -- Tempo ramp -----------------------------------------------------------
+
+  /** Each ramp change restarts the ramp from the Tempo setting. */
+  private onTempoRampEnabledChange(e: Event) {
+    if (!this.song) return;
+    this.song.tempoRamp = (e.target as HTMLInputElement).checked;
+    this.commitTempoRamp();
+  }
+
+  private onTempoRampEndChange(e: Event) {
+    if (!this.song) return;
+    const bpm = Math.round(Number((e.target as HTMLInputElement).value));
+    this.song.tempoRampEnd = Number.isFinite(bpm) ? bpm : 0;
+    this.commitTempoRamp();
+  }
+
+  private onTempoRampMinutesChange(e: Event) {
+    if (!this.song) return;
+    const minutes = Number((e.target as HTMLInputElement).value);
+    this.song.tempoRampSeconds =
+      Number.isFinite(minutes) && minutes > 0
+        ? Math.round(Math.min(15, minutes) * 60)
+        : DEFAULT_TEMPO_RAMP_SECONDS;
+    this.commitTempoRamp();
+  }
+
+  private commitTempoRamp() {
+    if (!this.song) return;
+    callerBuddy.applySongTempo(this.song);
+    this.requestUpdate();
+    callerBuddy.updateSong(this.song);
+  }
+
+  // -- Patter medley --------------------------------------------------------
+
+  /** Patter songs in the playlist that could follow in the medley. */
+  private medleyCandidates(song: Song): Song[] {
+    const queue = callerBuddy.getMedleyQueue();
+    return callerBuddy.state.playlist.filter(
+      (s) => isPatter(s) && s.musicFile !== song.musicFile && !queue.includes(s),
+    );
+  }
+
+  private medleyStatus(): string {
+    const queue = callerBuddy.getMedleyQueue();
+    if (queue.length === 0) return "";
+    const after = callerBuddy.getMedleySwitchAfter();
+    if (callerBuddy.getMedleySwitchBy() === "loops") {
+      return `Next after loop ${Math.min(this.medleyLoops + 1, after)} of ${after}`;
+    }
+    return `Next in ${formatTime(Math.max(0, after * 60 - this.medleyPlayedSec))}`;
+  }
+
+  private onMedleyAdd(e: Event, song: Song) {
+    const select = e.target as HTMLSelectElement;
+    const picked = this.medleyCandidates(song)[Number(select.value)];
+    select.value = "";
+    if (!picked) return;
+    callerBuddy.queueMedleySong(picked);
+    this.requestUpdate();
+  }
+
+  private onMedleyRemove(index: number) {
+    callerBuddy.removeMedleySong(index);
+    this.requestUpdate();
+  }
+
+  private async onMedleySwitchByChange(e: Event) {
+    const by = (e.target as HTMLSelectElement).value as MedleySwitchBy;
+    await callerBuddy.setMedleySwitch(by, callerBuddy.getMedleySwitchAfter());
+    this.requestUpdate();
+  }
+
+  private async onMedleySwitchAfterChange(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const after = Math.round(Number(input.value));
+    if (!(after >= 1 && after <= 30)) {
+      input.value = String(callerBuddy.getMedleySwitchAfter());
+      return;
+    }
+    await callerBuddy.setMedleySwitch(callerBuddy.getMedleySwitchBy(), after);
+    this.requestUpdate();
+  }
+
+  /**
+   * Count the current track's playing time and loop wraps while a medley is
+   * queued, and fade into the next track once it has had its turn.
+   */
+  private tickMedley() {
+    const song = this.song;
+    const position = callerBuddy.audio.getCurrentTime();
+    const counting =
+      !!song && isPatter(song) && callerBuddy.getMedleyQueue().length > 0 && !this.medleySwitching;
+    if (counting && callerBuddy.audio.isPlaying()) {
+      const now = performance.now();
+      if (this.medleyLastTickMs > 0) this.medleyPlayedSec += (now - this.medleyLastTickMs) / 1000;
+      this.medleyLastTickMs = now;
+      if (isLoopWrap(this.medleyLastPosition, position, this.loopStart, this.loopEnd)) {
+        this.medleyLoops++;
+      }
+    } else {
+      this.medleyLastTickMs = 0;
+    }
+    this.medleyLastPosition = position;
+    if (
+      counting &&
+      medleyTrackDone(
+        callerBuddy.getMedleySwitchBy(),
+        callerBuddy.getMedleySwitchAfter(),
+        this.medleyPlayedSec,
+        this.medleyLoops,
+      )
+    ) {
+      void this.nextMedleyTrack();
+    }
+  }
+
+  /** Crossfade into the next medley track; the patter timer keeps running. */
+  private async nextMedleyTrack() {
+    if (this.medleySwitching) return;
+    this.medleySwitching = true;
+    try {
+      if (await callerBuddy.playNextMedleySong()) await this.initSong(true);
+    } finally {
+      this.medleySwitching = false;
+      this.requestUpdate();
+    }
+  }
+
   // -- Patter timer ---------------------------------------------------------
 
-  /** Handle Enter inside the Duration input: commit and consume the event so
-   *  it doesn't bubble up to the page-level keydown handler. */
+  /** Handle Enter inside the Duration (or loop Crossfade) input: commit and
+   *  consume the event so it doesn't bubble up to the page-level keydown handler. */
   private onPatterMinutesKeydown(e: KeyboardEvent) {
     if (e.key !== "Enter") return;
     e.stopPropagation();
@@ -10,6 +10,7 @@ import type { ReactiveController, ReactiveControllerHost } from "lit";
 export const COUNTDOWN_ALARM_REPEAT_MS = 30_000;
 
 export interface CountdownAlarmOptions {
+  /** Plays the host timer's alarm sound (see CallerBuddy.playTimerAlarm). */
   playBeep: () => void;
   /** Interval between beeps after zero. Default 30s. */
   alarmRepeatMs?: number;
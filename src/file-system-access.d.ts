@@ -81,6 +81,8 @@ interface FileSystemDirectoryHandle extends FileSystemHandle {
 }
 
 interface OpenFilePickerOptions {
+  /** Folder (or well-known directory) the picker opens in. */
+  startIn?: DirectoryPickerOptions["startIn"];
   multiple?: boolean;
   excludeAcceptAllOption?: boolean;
   types?: Array<{
@@ -7,6 +7,7 @@ import {
   DEFAULT_LYRICS_FONT_SCALE_PHONE,
   DEFAULT_PLAYLIST_PANEL_HEIGHT,
   DEFAULT_PLAYLIST_PANEL_WIDTH,
+  defaultTimerAlarm,
   normalizePlaylistEditorView,
   normalizeSettings,
 } from "./settings.js";
@@ -24,6 +25,18 @@ describe("defaultSettings", () => {
     expect(s.lyricsFontScalePhone).toBe(DEFAULT_LYRICS_FONT_SCALE_PHONE);
     expect(s.lastBackupTime).toBe(0);
     expect(s.playlistEditorView).toEqual(defaultPlaylistEditorView());
+    expect(s.levelLoudness).toBe(true);
+    expect(s.metronome).toBe(false);
+    expect(s.countInClicks).toBe(0);
+    expect(s.phraseBeats).toBe(8);
+    expect(s.medleySwitchBy).toBe("minutes");
+    expect(s.medleySwitchAfter).toBe(2);
+    expect(s.breakAlarm).toEqual({ sound: "beep", file: "", volume: 100 });
+    expect(s.patterAlarm).toEqual(defaultTimerAlarm());
+    expect(s.tempoMode).toBe("delta");
+    expect(s.singingCallTargetBpm).toBe(126);
+    expect(s.patterTargetBpm).toBe(128);
+    expect(s.vocalKey).toBe("");
   });
 
   it("returns a new object each call (no shared reference)", () => {
@@ -55,6 +68,59 @@ describe("normalizeSettings", () => {
     expect(s.lastBackupTime).toBe(1_700_000_000_000);
   });
 
+  it("reads levelLoudness and defaults it on for non-boolean values", () => {
+    expect(normalizeSettings({ levelLoudness: false }).levelLoudness).toBe(false);
+    expect(normalizeSettings({ levelLoudness: "no" }).levelLoudness).toBe(true);
+  });
+
+  it("reads metronome and count-in, accepting only 0, 4 or 8 clicks", () => {
+    const s = normalizeSettings({ metronome: true, countInClicks: 8 });
+    expect(s.metronome).toBe(true);
+    expect(s.countInClicks).toBe(8);
+    expect(normalizeSettings({ countInClicks: 5 }).countInClicks).toBe(0);
+    expect(normalizeSettings({ metronome: "yes" }).metronome).toBe(false);
+  });
+
+  it("reads phraseBeats, accepting only 8 or 16", () => {
+    expect(normalizeSettings({ phraseBeats: 16 }).phraseBeats).toBe(16);
+    expect(normalizeSettings({ phraseBeats: 12 }).phraseBeats).toBe(8);
+  });
+
+  it("reads the medley switch rule, falling back for unknown units or out-of-range counts", () => {
+    const s = normalizeSettings({ medleySwitchBy: "loops", medleySwitchAfter: 3 });
+    expect(s.medleySwitchBy).toBe("loops");
+    expect(s.medleySwitchAfter).toBe(3);
+    expect(normalizeSettings({ medleySwitchBy: "bars" }).medleySwitchBy).toBe("minutes");
+    expect(normalizeSettings({ medleySwitchAfter: 0 }).medleySwitchAfter).toBe(2);
+  });
+
+  it("reads each timer's alarm, clamping the volume and dropping unknown sounds", () => {
+    const s = normalizeSettings({
+      breakAlarm: { sound: "custom", file: "Alarms/Gong.ogg", volume: 140 },
+      patterAlarm: { sound: "siren", volume: 40 },
+    });
+    expect(s.breakAlarm).toEqual({ sound: "custom", file: "Alarms/Gong.ogg", volume: 100 });
+    expect(s.patterAlarm).toEqual({ sound: "beep", file: "", volume: 40 });
+    expect(normalizeSettings({ patterAlarm: "chime" }).patterAlarm).toEqual(defaultTimerAlarm());
+  });
+
+  it("reads the tempo mode and target BPMs, falling back for unknown modes or out-of-range BPMs", () => {
+    const s = normalizeSettings({ tempoMode: "target", singingCallTargetBpm: 124, patterTargetBpm: 130 });
+    expect(s.tempoMode).toBe("target");
+    expect(s.singingCallTargetBpm).toBe(124);
+    expect(s.patterTargetBpm).toBe(130);
+    expect(normalizeSettings({ tempoMode: "absolute" }).tempoMode).toBe("delta");
+    expect(normalizeSettings({ singingCallTargetBpm: 20 }).singingCallTargetBpm).toBe(126);
+    expect(normalizeSettings({ patterTargetBpm: "fast" }).patterTargetBpm).toBe(128);
+  });
+
+  it("reads the vocal key in its stored spelling, dropping names that are not keys", () => {
+    expect(normalizeSettings({ vocalKey: "A#" }).vocalKey).toBe("Bb");
+    expect(normalizeSettings({ vocalKey: "Em" }).vocalKey).toBe("Em");
+    expect(normalizeSettings({ vocalKey: "H" }).vocalKey).toBe("");
+    expect(normalizeSettings({ vocalKey: 7 }).vocalKey).toBe("");
+  });
+
   it("defaults lastBackupTime when missing", () => {
     const s = normalizeSettings({});
     expect(s.lastBackupTime).toBe(0);
@@ -92,4 +158,10 @@ describe("normalizePlaylistEditorView", () => {
       }).sortKeys,
     ).toEqual(defaultPlaylistEditorView().sortKeys);
   });
+
+  it("keeps a BPM sort", () => {
+    expect(
+      normalizePlaylistEditorView({ sortKeys: [{ field: "originalTempo", dir: "asc" }] }).sortKeys,
+    ).toEqual([{ field: "originalTempo", dir: "asc" }]);
+  });
 });
@@ -3,6 +3,8 @@
  * See CallerBuddySpec.md for descriptions of user-configurable values.
  */
 
+import { keyName, parseKey } from "../utils/musical-key.js";
+
 /** Canonical default for break timer duration (minutes). Used by defaultSettings() and UI fallbacks. */
 export const DEFAULT_BREAK_TIMER_MINUTES = 5;
 
@@ -31,7 +33,8 @@ export type PlaylistEditorSortField =
   | "orderAdded"
   | "lastUsedDays"
   | "playedDisplay"
-  | "type";
+  | "type"
+  | "originalTempo";
 
 export type PlaylistEditorSortDir = "asc" | "desc";
 
@@ -61,6 +64,7 @@ const PLAYLIST_EDITOR_SORT_FIELDS: ReadonlySet<string> = new Set([
   "lastUsedDays",
   "playedDisplay",
   "type",
+  "originalTempo",
 ]);
 
 /** Default Playlist Editor sort: Rank (desc), then Title (asc). */
@@ -114,6 +118,46 @@ export function normalizePlaylistEditorView(raw: unknown): PlaylistEditorViewSet
   };
 }
 
+/** Alarm sounds a timer can play; "custom" plays {@link TimerAlarm.file}. */
+export type AlarmSound = "beep" | "chime" | "bell" | "buzzer" | "pips" | "custom";
+
+/** The timers with their own alarm: break (Now Playing) and patter (song player). */
+export type AlarmTimer = "break" | "patter";
+
+export const ALARM_SOUNDS: readonly AlarmSound[] = ["beep", "chime", "bell", "buzzer", "pips", "custom"];
+
+/** What one timer plays when it runs out (see alarm-sounds.ts). */
+export interface TimerAlarm {
+  sound: AlarmSound;
+  /** CallerBuddyRoot-relative path of the audio file played for "custom". */
+  file: string;
+  /** Loudness 0–100; 100 is the old fixed beep's level. */
+  volume: number;
+}
+
+/** Returns the default timer alarm: the 880 Hz beep at full volume. */
+export function defaultTimerAlarm(): TimerAlarm {
+  return { sound: "beep", file: "", volume: 100 };
+}
+
+/** Validate and normalize a timer alarm blob from settings JSON. */
+export function normalizeTimerAlarm(raw: unknown): TimerAlarm {
+  const defaults = defaultTimerAlarm();
+  if (typeof raw !== "object" || raw === null) return defaults;
+  const obj = raw as Record<string, unknown>;
+  const sound = obj["sound"];
+  const file = typeof obj["file"] === "string" ? obj["file"] : defaults.file;
+  const volume = obj["volume"];
+  return {
+    sound: ALARM_SOUNDS.includes(sound as AlarmSound) ? (sound as AlarmSound) : defaults.sound,
+    file,
+    volume:
+      typeof volume === "number" && Number.isFinite(volume)
+        ? Math.min(100, Math.max(0, volume))
+        : defaults.volume,
+  };
+}
+
 export interface Settings {
   /** Break timer default duration in minutes (decimal allowed). Default 5. */
   breakTimerMinutes: number;
@@ -150,8 +194,63 @@ export interface Settings {
    * Survives restart via CallerBuddySettings.json.
    */
   playlistEditorView: PlaylistEditorViewSettings;
+  /**
+   * Automatic volume leveling: play each song with a gain that brings its
+   * measured loudness (Song.loudness) to a common level, on top of its
+   * volume. Default true.
+   */
+  levelLoudness: boolean;
+  /** Metronome clicks on the beat while a song plays. Default false. */
+  metronome: boolean;
+  /** Count-in clicks before a song starts from the top: 0 (off), 4 or 8. Default 0. */
+  countInClicks: number;
+  /** Phrase length in beats for phrase seeking: 8 or 16. Default 8. */
+  phraseBeats: number;
+  /**
+   * When a patter medley moves on to its next track: after
+   * {@link medleySwitchAfter} minutes of playing or that many loops.
+   * Default "minutes".
+   */
+  medleySwitchBy: MedleySwitchBy;
+  /** Minutes (1–30) or loops (1–30) per medley track. Default 2. */
+  medleySwitchAfter: number;
+  /** Sound and volume played when the break timer runs out. Default beep at 100. */
+  breakAlarm: TimerAlarm;
+  /** Sound and volume played when the patter timer runs out. Default beep at 100. */
+  patterAlarm: TimerAlarm;
+  /**
+   * How the song player's tempo is set: "delta" plays each song at its own
+   * Song.deltaTempo; "target" plays it at a target BPM (Song.targetTempo, or
+   * the default below for its kind). Default "delta".
+   */
+  tempoMode: TempoMode;
+  /** Target BPM for singing calls without their own target. Default 126. */
+  singingCallTargetBpm: number;
+  /** Target BPM for patter without its own target. Default 128. */
+  patterTargetBpm: number;
+  /**
+   * Key the caller sings in most comfortably, stored like Song.originalKey
+   * ("A", "Bb"). Used to suggest a pitch for singing calls. "" = not set.
+   */
+  vocalKey: string;
 }
 
+/** Value of {@link Settings.tempoMode}. */
+export type TempoMode = "delta" | "target";
+
+/** Range accepted for target BPMs (song and default). */
+export const TARGET_BPM_MIN = 60;
+export const TARGET_BPM_MAX = 200;
+
+/** Unit of {@link Settings.medleySwitchAfter}. */
+export type MedleySwitchBy = "minutes" | "loops";
+
+/** Allowed values of {@link Settings.countInClicks}. */
+export const COUNT_IN_CHOICES: readonly number[] = [0, 4, 8];
+
+/** Allowed values of {@link Settings.phraseBeats}. */
+export const PHRASE_BEAT_CHOICES: readonly number[] = [8, 16];
+
 /** Returns a Settings object populated with default values. */
 export function defaultSettings(): Settings {
   return {
@@ -165,6 +264,18 @@ export function defaultSettings(): Settings {
     lyricsFontScalePhone: DEFAULT_LYRICS_FONT_SCALE_PHONE,
     lastBackupTime: 0,
     playlistEditorView: defaultPlaylistEditorView(),
+    levelLoudness: true,
+    metronome: false,
+    countInClicks: 0,
+    phraseBeats: 8,
+    medleySwitchBy: "minutes",
+    medleySwitchAfter: 2,
+    breakAlarm: defaultTimerAlarm(),
+    patterAlarm: defaultTimerAlarm(),
+    tempoMode: "delta",
+    singingCallTargetBpm: 126,
+    patterTargetBpm: 128,
+    vocalKey: "",
   };
 }
 
@@ -201,6 +312,8 @@ export function normalizeSettings(raw: unknown): Settings {
     }
   }
 
+  const vocalKey = typeof obj["vocalKey"] === "string" ? parseKey(obj["vocalKey"]) : null;
+
   return {
     breakTimerMinutes: pickNum("breakTimerMinutes", defaults.breakTimerMinutes, 0, 60),
     patterTimerMinutes: pickNum("patterTimerMinutes", defaults.patterTimerMinutes, 0.5, 15),
@@ -227,5 +340,27 @@ export function normalizeSettings(raw: unknown): Settings {
     ),
     lastBackupTime: pickNum("lastBackupTime", defaults.lastBackupTime, 0),
     playlistEditorView: normalizePlaylistEditorView(obj["playlistEditorView"]),
+    levelLoudness:
+      typeof obj["levelLoudness"] === "boolean" ? obj["levelLoudness"] : defaults.levelLoudness,
+    metronome: obj["metronome"] === true,
+    countInClicks: COUNT_IN_CHOICES.includes(obj["countInClicks"] as number)
+      ? (obj["countInClicks"] as number)
+      : defaults.countInClicks,
+    phraseBeats: PHRASE_BEAT_CHOICES.includes(obj["phraseBeats"] as number)
+      ? (obj["phraseBeats"] as number)
+      : defaults.phraseBeats,
+    medleySwitchBy: obj["medleySwitchBy"] === "loops" ? "loops" : defaults.medleySwitchBy,
+    medleySwitchAfter: pickNum("medleySwitchAfter", defaults.medleySwitchAfter, 1, 30),
+    breakAlarm: normalizeTimerAlarm(obj["breakAlarm"]),
+    patterAlarm: normalizeTimerAlarm(obj["patterAlarm"]),
+    tempoMode: obj["tempoMode"] === "target" ? "target" : defaults.tempoMode,
+    singingCallTargetBpm: pickNum(
+      "singingCallTargetBpm",
+      defaults.singingCallTargetBpm,
+      TARGET_BPM_MIN,
+      TARGET_BPM_MAX,
+    ),
+    patterTargetBpm: pickNum("patterTargetBpm", defaults.patterTargetBpm, TARGET_BPM_MIN, TARGET_BPM_MAX),
+    vocalKey: vocalKey ? keyName(vocalKey) : defaults.vocalKey,
   };
 }
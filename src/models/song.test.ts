@@ -3,6 +3,7 @@ import {
   parseMusicFilename,
   baseName,
   isMusicFile,
+  isAlwaysDecodable,
   isLyricsFile,
   isSingingCall,
   isPatter,
@@ -16,6 +17,12 @@ import {
   clampPatterLoopRegion,
   PATTER_LOOP_TAIL_EPSILON_SEC,
   musicFilenameFromParts,
+  addSongCue,
+  cueSeekTarget,
+  isBpmUncertain,
+  effectiveDeltaTempo,
+  NO_KEY,
+  UNMEASURABLE_LOUDNESS,
   type Song,
 } from "./song.js";
 
@@ -90,6 +97,13 @@ describe("isMusicFile", () => {
     expect(isMusicFile("song.m4a")).toBe(true);
   });
 
+  it("recognizes .ogg, .opus, .flac and .aac", () => {
+    expect(isMusicFile("song.ogg")).toBe(true);
+    expect(isMusicFile("song.opus")).toBe(true);
+    expect(isMusicFile("song.flac")).toBe(true);
+    expect(isMusicFile("song.aac")).toBe(true);
+  });
+
   it("is case-insensitive", () => {
     expect(isMusicFile("SONG.MP3")).toBe(true);
     expect(isMusicFile("Song.WAV")).toBe(true);
@@ -97,12 +111,22 @@ describe("isMusicFile", () => {
   });
 
   it("rejects non-music extensions", () => {
-    expect(isMusicFile("song.ogg")).toBe(false);
+    expect(isMusicFile("song.wma")).toBe(false);
     expect(isMusicFile("song.txt")).toBe(false);
     expect(isMusicFile("song.md")).toBe(false);
   });
 });
 
+describe("isAlwaysDecodable", () => {
+  it("accepts the formats every browser plays and leaves the others to the probe", () => {
+    expect(isAlwaysDecodable("Song.MP3")).toBe(true);
+    expect(isAlwaysDecodable("song.m4a")).toBe(true);
+    expect(isAlwaysDecodable("song.wav")).toBe(true);
+    expect(isAlwaysDecodable("song.ogg")).toBe(false);
+    expect(isAlwaysDecodable("song.flac")).toBe(false);
+  });
+});
+
 describe("isLyricsFile", () => {
   it("recognizes .md", () => expect(isLyricsFile("lyrics.md")).toBe(true));
 
@@ -183,10 +207,30 @@ describe("songForPersistence", () => {
       playWeight: 0,
       loopStartTime: 0,
       loopEndTime: 0,
+      loopCrossfadeTime: 0,
       volume: 80,
+      eqBass: 0,
+      eqMid: 0,
+      eqTreble: 0,
       pitch: 0,
+      pitchCents: 0,
       originalTempo: 128,
+      beatOffset: -1,
+      originalKey: "G",
+      loudness: 0,
+      leadIn: -1,
+      skipLeadIn: true,
       deltaTempo: 0,
+      targetTempo: 0,
+      tempoRamp: false,
+      tempoRampEnd: 0,
+      tempoRampSeconds: 180,
+      stretchPreset: "auto",
+      sectionTimes: [],
+      bpmConfidence: -1,
+      tempoMap: [],
+      audioSupport: "",
+      cues: [],
       dirHandle: {} as FileSystemDirectoryHandle,
       playlistRelPath: "sub/a.mp3",
     };
@@ -260,6 +304,128 @@ describe("normalizeSongFromJson", () => {
     });
     expect(song!.lyricsFile).toBe("a.md");
   });
+
+  it("reads loopCrossfadeTime and rejects negative values", () => {
+    expect(normalizeSongFromJson({ musicFile: "a.mp3", loopCrossfadeTime: 0.08 })!.loopCrossfadeTime).toBe(0.08);
+    expect(normalizeSongFromJson({ musicFile: "a.mp3", loopCrossfadeTime: -1 })!.loopCrossfadeTime).toBe(0);
+    expect(normalizeSongFromJson({ musicFile: "a.mp3" })!.loopCrossfadeTime).toBe(0);
+  });
+
+  it("reads equalizer gains and clamps them to the supported range", () => {
+    const song = normalizeSongFromJson({ musicFile: "a.mp3", eqBass: -4, eqMid: 40, eqTreble: "3" })!;
+    expect([song.eqBass, song.eqMid, song.eqTreble]).toEqual([-4, 12, 3]);
+    const flat = normalizeSongFromJson({ musicFile: "a.mp3" })!;
+    expect([flat.eqBass, flat.eqMid, flat.eqTreble]).toEqual([0, 0, 0]);
+  });
+
+  it("reads the fine pitch and clamps it to ±50 cents", () => {
+    expect(normalizeSongFromJson({ musicFile: "a.mp3", pitchCents: -15 })!.pitchCents).toBe(-15);
+    expect(normalizeSongFromJson({ musicFile: "a.mp3", pitchCents: 80 })!.pitchCents).toBe(50);
+    expect(normalizeSongFromJson({ musicFile: "a.mp3" })!.pitchCents).toBe(0);
+  });
+
+  it("reads loudness and the unmeasurable marker; other positive values are not measured", () => {
+    expect(normalizeSongFromJson({ musicFile: "a.mp3", loudness: -11.5 })!.loudness).toBe(-11.5);
+    expect(normalizeSongFromJson({ musicFile: "a.mp3", loudness: 3 })!.loudness).toBe(0);
+    expect(
+      normalizeSongFromJson({ musicFile: "a.mp3", loudness: UNMEASURABLE_LOUDNESS })!.loudness,
+    ).toBe(UNMEASURABLE_LOUDNESS);
+    expect(normalizeSongFromJson({ musicFile: "a.mp3" })!.loudness).toBe(0);
+  });
+
+  it("reads beatOffset and treats negative values as not detected", () => {
+    expect(normalizeSongFromJson({ musicFile: "a.mp3", beatOffset: 0.23 })!.beatOffset).toBe(0.23);
+    expect(normalizeSongFromJson({ musicFile: "a.mp3", beatOffset: -3 })!.beatOffset).toBe(-1);
+    expect(normalizeSongFromJson({ musicFile: "a.mp3" })!.beatOffset).toBe(-1);
+  });
+
+  it("reads cues sorted by time and drops malformed ones", () => {
+    const song = normalizeSongFromJson({
+      musicFile: "a.mp3",
+      cues: [
+        { time: 95.5, name: "Tag" },
+        { time: 40, name: "Break starts" },
+        { time: -1, name: "Bad" },
+        { name: "No time" },
+        { time: 12 },
+        "junk",
+      ],
+    })!;
+    expect(song.cues).toEqual([
+      { time: 12, name: "" },
+      { time: 40, name: "Break starts" },
+      { time: 95.5, name: "Tag" },
+    ]);
+    expect(normalizeSongFromJson({ musicFile: "a.mp3", cues: "x" })!.cues).toEqual([]);
+  });
+
+  it("reads the lead-in and defaults to skipping it", () => {
+    const song = normalizeSongFromJson({ musicFile: "a.mp3", leadIn: 1.85 })!;
+    expect(song.leadIn).toBe(1.85);
+    expect(song.skipLeadIn).toBe(true);
+    const unmeasured = normalizeSongFromJson({ musicFile: "a.mp3", leadIn: -7, skipLeadIn: false })!;
+    expect(unmeasured.leadIn).toBe(-1);
+    expect(unmeasured.skipLeadIn).toBe(false);
+  });
+
+  it("reads the BPM confidence and tempo map, dropping malformed sections", () => {
+    const song = normalizeSongFromJson({
+      musicFile: "a.mp3",
+      bpmConfidence: 0.5,
+      tempoMap: [{ time: 30, bpm: 128 }, { time: "x", bpm: 1 }, { time: 0, bpm: 0 }],
+    })!;
+    expect(song.bpmConfidence).toBe(0.5);
+    expect(song.tempoMap).toEqual([{ time: 0, bpm: 0 }, { time: 30, bpm: 128 }]);
+    expect(normalizeSongFromJson({ musicFile: "a.mp3" })!.bpmConfidence).toBe(-1);
+  });
+
+  it("reads the decode probe result and treats anything else as not probed", () => {
+    expect(normalizeSongFromJson({ musicFile: "a.flac", audioSupport: "unsupported" })!.audioSupport)
+      .toBe("unsupported");
+    expect(normalizeSongFromJson({ musicFile: "a.flac", audioSupport: true })!.audioSupport).toBe("");
+  });
+
+  it("reads originalKey in its stored spelling and drops unknown names", () => {
+    expect(normalizeSongFromJson({ musicFile: "a.mp3", originalKey: "Bb" })!.originalKey).toBe("Bb");
+    expect(normalizeSongFromJson({ musicFile: "a.mp3", originalKey: "A#m" })!.originalKey).toBe("Bbm");
+    expect(normalizeSongFromJson({ musicFile: "a.mp3", originalKey: "X" })!.originalKey).toBe("");
+    expect(normalizeSongFromJson({ musicFile: "a.mp3", originalKey: NO_KEY })!.originalKey).toBe(NO_KEY);
+    expect(normalizeSongFromJson({ musicFile: "a.mp3" })!.originalKey).toBe("");
+  });
+
+  it("reads the tempo ramp, defaulting to off with a three-minute ramp", () => {
+    const song = normalizeSongFromJson({
+      musicFile: "a.mp3",
+      tempoRamp: true,
+      tempoRampEnd: 6,
+      tempoRampSeconds: 240,
+    })!;
+    expect([song.tempoRamp, song.tempoRampEnd, song.tempoRampSeconds]).toEqual([true, 6, 240]);
+    const plain = normalizeSongFromJson({ musicFile: "a.mp3", tempoRamp: "yes", tempoRampSeconds: 0 })!;
+    expect([plain.tempoRamp, plain.tempoRampEnd, plain.tempoRampSeconds]).toEqual([false, 0, 1]);
+    expect(normalizeSongFromJson({ musicFile: "a.mp3" })!.tempoRampSeconds).toBe(180);
+  });
+
+  it("reads targetTempo, treating missing or negative values as no target", () => {
+    expect(normalizeSongFromJson({ musicFile: "a.mp3", targetTempo: 124 })!.targetTempo).toBe(124);
+    expect(normalizeSongFromJson({ musicFile: "a.mp3", targetTempo: -5 })!.targetTempo).toBe(0);
+    expect(normalizeSongFromJson({ musicFile: "a.mp3" })!.targetTempo).toBe(0);
+  });
+
+  it("reads the stretch preset, defaulting to auto for unknown names", () => {
+    expect(normalizeSongFromJson({ musicFile: "a.mp3", stretchPreset: "percussive" })!.stretchPreset).toBe("percussive");
+    expect(normalizeSongFromJson({ musicFile: "a.mp3", stretchPreset: "vinyl" })!.stretchPreset).toBe("auto");
+    expect(normalizeSongFromJson({ musicFile: "a.mp3" })!.stretchPreset).toBe("auto");
+  });
+
+  it("reads sectionTimes only when it is a full increasing list", () => {
+    const times = [4, 34, 64, 94, 126, 156, 186, 218];
+    expect(normalizeSongFromJson({ musicFile: "a.mp3", sectionTimes: times })!.sectionTimes).toEqual(times);
+    expect(normalizeSongFromJson({ musicFile: "a.mp3", sectionTimes: times.slice(1) })!.sectionTimes).toEqual([]);
+    expect(normalizeSongFromJson({ musicFile: "a.mp3", sectionTimes: [...times].reverse() })!.sectionTimes).toEqual([]);
+    expect(normalizeSongFromJson({ musicFile: "a.mp3", sectionTimes: "4,34" })!.sectionTimes).toEqual([]);
+    expect(normalizeSongFromJson({ musicFile: "a.mp3" })!.sectionTimes).toEqual([]);
+  });
 });
 
 describe("createSongFromFile", () => {
@@ -275,8 +441,10 @@ describe("createSongFromFile", () => {
     expect(song.rank).toBe(50);
     expect(song.volume).toBe(80);
     expect(song.pitch).toBe(0);
+    expect(song.pitchCents).toBe(0);
     expect(song.originalTempo).toBe(0);
     expect(song.deltaTempo).toBe(0);
+    expect(song.targetTempo).toBe(0);
     expect(song.loopStartTime).toBe(0);
     expect(song.loopEndTime).toBe(0);
     expect(song.lastUsed).toBe("");
@@ -300,3 +468,60 @@ describe("createSongFromFile", () => {
     expect(song.title).toBe("TrackOnly");
   });
 });
+
+describe("isBpmUncertain", () => {
+  it("flags measured BPMs that too few sections agree with", () => {
+    const song = createSongFromFile("a.mp3");
+    song.originalTempo = 128;
+    expect(isBpmUncertain(song)).toBe(false);
+    song.bpmConfidence = 0.5;
+    expect(isBpmUncertain(song)).toBe(true);
+    song.bpmConfidence = 0.75;
+    expect(isBpmUncertain(song)).toBe(false);
+  });
+});
+
+describe("effectiveDeltaTempo", () => {
+  it("plays at the target BPM once the song's BPM is known", () => {
+    const song = createSongFromFile("a.mp3");
+    song.deltaTempo = 2;
+    expect(effectiveDeltaTempo(song, 126)).toBe(2);
+    song.originalTempo = 123.4;
+    expect(effectiveDeltaTempo(song, 126)).toBe(2.6);
+    expect(effectiveDeltaTempo(song, 0)).toBe(2);
+  });
+});
+
+describe("song cues", () => {
+  it("adds cues in time order with default names", () => {
+    const song = createSongFromFile("a.mp3");
+    addSongCue(song, 50);
+    addSongCue(song, 20, "Break");
+    addSongCue(song, 30);
+    expect(song.cues).toEqual([
+      { time: 20, name: "Break" },
+      { time: 30, name: "Cue 3" },
+      { time: 50, name: "Cue 1" },
+    ]);
+  });
+
+  it("finds the next and previous cue", () => {
+    const cues = [
+      { time: 10, name: "A" },
+      { time: 40, name: "B" },
+    ];
+    expect(cueSeekTarget(cues, 5, 1)).toBe(10);
+    expect(cueSeekTarget(cues, 10, 1)).toBe(40);
+    expect(cueSeekTarget(cues, 40, 1)).toBeNull();
+    expect(cueSeekTarget(cues, 50, -1)).toBe(40);
+    expect(cueSeekTarget(cues, 5, -1)).toBeNull();
+  });
+
+  it("skips a cue that just played when going back", () => {
+    const cues = [
+      { time: 10, name: "A" },
+      { time: 40, name: "B" },
+    ];
+    expect(cueSeekTarget(cues, 40.5, -1)).toBe(10);
+  });
+});
@@ -7,6 +7,8 @@
  * Lyrics use the same base name with a .md extension.
  */
 
+import { keyName, parseKey } from "../utils/musical-key.js";
+
 /** All per-song metadata persisted to CallerBuddySongs.json. */
 export interface Song {
   /** Short recording-company label + number, e.g. "RYL 607" */
@@ -42,14 +44,104 @@ export interface Song {
    * Patter (no lyrics): 0 means “full file” — see {@link effectiveAudioLoopPoints}.
    */
   loopEndTime: number;
+  /**
+   * Crossfade in seconds where the loop wraps from loopEndTime back to
+   * loopStartTime (audio before the end is overlapped with audio before the
+   * start). 0 = hard jump. Default 0
+   */
+  loopCrossfadeTime: number;
   /** Volume 0-100. Default 80 */
   volume: number;
+  /** Equalizer low-shelf gain in dB, ±{@link EQ_MAX_DB}. Default 0 (flat) */
+  eqBass: number;
+  /** Equalizer mid (peaking) gain in dB, ±{@link EQ_MAX_DB}. Default 0 */
+  eqMid: number;
+  /** Equalizer high-shelf gain in dB, ±{@link EQ_MAX_DB}. Default 0 */
+  eqTreble: number;
   /** Pitch adjustment in half-steps (signed integer). Default 0 */
   pitch: number;
+  /**
+   * Fine pitch adjustment in cents (±{@link PITCH_CENTS_MAX}, 100 cents = one
+   * half-step) on top of pitch, for recordings tuned slightly off. Default 0
+   */
+  pitchCents: number;
   /** Original tempo in BPM. 0 = unknown */
   originalTempo: number;
+  /**
+   * Time in seconds of one beat in the file, in [0, 60/BPM), detected with
+   * the BPM. Beats (for the metronome and beat seeking) fall at
+   * beatOffset + k × 60/originalTempo. -1 = not detected yet
+   */
+  beatOffset: number;
+  /**
+   * Share (0–1) of the analyzed sections whose detected tempo agrees with
+   * originalTempo; below {@link LOW_BPM_CONFIDENCE} the BPM is flagged for the
+   * user to verify. -1 = not measured yet
+   */
+  bpmConfidence: number;
+  /**
+   * Tempo detected in each analyzed section of the file, in time order. Shows
+   * where a song speeds up, slows down or has an intro without a beat.
+   * Default []
+   */
+  tempoMap: TempoSection[];
+  /**
+   * Detected key of the recording as a key name ("G", "Bb", "F#m"; see
+   * musical-key.ts), before pitch adjustment. Empty = not detected yet,
+   * {@link NO_KEY} = detected but no key found
+   */
+  originalKey: string;
+  /**
+   * Integrated loudness in LUFS (negative), measured in the background and
+   * used for automatic volume leveling. 0 = not measured yet,
+   * {@link UNMEASURABLE_LOUDNESS} = silent or too short to measure
+   */
+  loudness: number;
+  /**
+   * Whether this browser could decode the music file when it was probed in
+   * the background: "ok", "unsupported", or empty = not probed yet
+   */
+  audioSupport: AudioSupport;
+  /**
+   * Seconds of silence before the music starts, measured when the song is
+   * first decoded for playback. 0 = none to skip, -1 = not measured yet
+   */
+  leadIn: number;
+  /** When true, playback (and restart) begins after the lead-in. Default true */
+  skipLeadIn: boolean;
   /** Tempo adjustment in BPM (signed). Default 0 */
   deltaTempo: number;
+  /**
+   * BPM to play this song at when Settings.tempoMode is "target", overriding
+   * the default target for singing calls or patter. 0 = use that default. Default 0
+   */
+  targetTempo: number;
+  /**
+   * When true, playback ramps the tempo from deltaTempo to tempoRampEnd over
+   * tempoRampSeconds instead of holding deltaTempo. Default false
+   */
+  tempoRamp: boolean;
+  /** Tempo adjustment in BPM (signed) reached at the end of the ramp. Default 0 */
+  tempoRampEnd: number;
+  /** Length of the tempo ramp in seconds of playback. Default {@link DEFAULT_TEMPO_RAMP_SECONDS} */
+  tempoRampSeconds: number;
+  /**
+   * Time-stretch quality preset used when the tempo or pitch is changed; try
+   * another when a large tempo change sounds warbly. Default "auto"
+   */
+  stretchPreset: StretchPreset;
+  /**
+   * Singing calls: detected start times in seconds of the opener, figures 1–2,
+   * break, figures 3–4, closer and tag ({@link SECTION_TIME_COUNT} values,
+   * increasing). Empty = not detected; the progress slider then shows equal
+   * sevenths. Default []
+   */
+  sectionTimes: number[];
+  /**
+   * Named time markers set by the user ("Break starts", "Tag"), sorted by
+   * time and shown on the progress slider. Default []
+   */
+  cues: SongCue[];
 
   /**
    * CallerBuddyRoot-relative path for this row in the Now Playing playlist
@@ -66,6 +158,33 @@ export interface Song {
   dirHandle?: FileSystemDirectoryHandle;
 }
 
+/** Tempo of one analyzed section of a song (see {@link Song.tempoMap}). */
+export interface TempoSection {
+  /** Seconds from the start of the file where the section starts. */
+  time: number;
+  /** Detected BPM of the section, or 0 when it had no detectable beat. */
+  bpm: number;
+}
+
+/** Result of probing a song's music file with a decode (see {@link Song.audioSupport}). */
+export type AudioSupport = "" | "ok" | "unsupported";
+
+/**
+ * SoundTouch time-stretch window sizes for {@link Song.stretchPreset}: "auto"
+ * sizes them from the tempo; the others suit speech-like vocals, general
+ * music and percussive tracks (see soundtouch-renderer.ts).
+ */
+export type StretchPreset = "auto" | "speech" | "music" | "percussive";
+
+export const STRETCH_PRESETS: readonly StretchPreset[] = ["auto", "speech", "music", "percussive"];
+
+/** A named time marker in a song (see {@link Song.cues}). */
+export interface SongCue {
+  /** Seconds from the start of the file. */
+  time: number;
+  name: string;
+}
+
 /**
  * Strip runtime-only fields from a Song for JSON serialization.
  * Omits dirHandle and playlistRelPath. lyricsFile is persisted so singing/patter
@@ -100,6 +219,117 @@ function pickNum(o: Record<string, unknown>, key: string, fallback: number): num
   return fallback;
 }
 
+/** Largest equalizer boost/cut per band, in dB. */
+export const EQ_MAX_DB = 12;
+
+/** Clamp an equalizer band gain to ±{@link EQ_MAX_DB}. */
+export function clampEqDb(db: number): number {
+  return Math.max(-EQ_MAX_DB, Math.min(EQ_MAX_DB, db));
+}
+
+/** Largest fine pitch adjustment either way, in cents (half a half-step). */
+export const PITCH_CENTS_MAX = 50;
+
+/** Clamp a fine pitch adjustment to ±{@link PITCH_CENTS_MAX} cents. */
+export function clampPitchCents(cents: number): number {
+  return Math.max(-PITCH_CENTS_MAX, Math.min(PITCH_CENTS_MAX, cents));
+}
+
+/** Default tempo ramp length: about one patter. */
+export const DEFAULT_TEMPO_RAMP_SECONDS = 180;
+
+/**
+ * Tempo change in BPM (to 0.1) the song plays at. With a target BPM (target
+ * tempo mode; 0 = off) that is the target minus originalTempo; otherwise, and
+ * while the song's BPM is not detected yet, it is deltaTempo.
+ */
+export function effectiveDeltaTempo(
+  song: Pick<Song, "originalTempo" | "deltaTempo">,
+  targetBpm: number,
+): number {
+  if (targetBpm <= 0 || song.originalTempo <= 0) return song.deltaTempo;
+  return Math.round((targetBpm - song.originalTempo) * 10) / 10;
+}
+
+/** A {@link Song.bpmConfidence} below this flags the BPM for the user to verify. */
+export const LOW_BPM_CONFIDENCE = 0.6;
+
+/** True when the song's BPM was measured but too few sections agree with it. */
+export function isBpmUncertain(song: Song): boolean {
+  return song.originalTempo > 0 && song.bpmConfidence >= 0 && song.bpmConfidence < LOW_BPM_CONFIDENCE;
+}
+
+/**
+ * {@link Song.loudness} of a file that was measured but is silent or too
+ * short to have a level; it is not leveled and not measured again.
+ */
+export const UNMEASURABLE_LOUDNESS = 1;
+
+/**
+ * {@link Song.originalKey} of a song whose key detection found no tonal
+ * content (drum-heavy patter), so the background analysis does not retry it.
+ */
+export const NO_KEY = "none";
+
+/** Number of entries in a detected {@link Song.sectionTimes}: seven section starts plus the tag. */
+export const SECTION_TIME_COUNT = 8;
+
+/** Section times are all-or-nothing: a malformed list reads as "not detected". */
+function pickSectionTimes(o: Record<string, unknown>, key: string): number[] {
+  const v = o[key];
+  if (!Array.isArray(v) || v.length !== SECTION_TIME_COUNT) return [];
+  const times: number[] = [];
+  for (const t of v) {
+    if (typeof t !== "number" || !Number.isFinite(t) || t < 0) return [];
+    if (times.length > 0 && t <= times[times.length - 1]) return [];
+    times.push(t);
+  }
+  return times;
+}
+
+/** Valid tempo sections sorted by time; malformed entries are dropped. */
+function pickTempoMap(o: Record<string, unknown>, key: string): TempoSection[] {
+  const v = o[key];
+  if (!Array.isArray(v)) return [];
+  const sections: TempoSection[] = [];
+  for (const t of v) {
+    if (typeof t !== "object" || t === null) continue;
+    const { time, bpm } = t as Record<string, unknown>;
+    if (typeof time !== "number" || !Number.isFinite(time) || time < 0) continue;
+    if (typeof bpm !== "number" || !Number.isFinite(bpm) || bpm < 0) continue;
+    sections.push({ time, bpm });
+  }
+  return sections.sort((a, b) => a.time - b.time);
+}
+
+/** Valid cues sorted by time; malformed entries are dropped. */
+function pickCues(o: Record<string, unknown>, key: string): SongCue[] {
+  const v = o[key];
+  if (!Array.isArray(v)) return [];
+  const cues: SongCue[] = [];
+  for (const c of v) {
+    if (!c || typeof c !== "object") continue;
+    const { time, name } = c as Record<string, unknown>;
+    if (typeof time !== "number" || !Number.isFinite(time) || time < 0) continue;
+    cues.push({ time, name: typeof name === "string" ? name : "" });
+  }
+  return cues.sort((a, b) => a.time - b.time);
+}
+
+/** LUFS (negative), {@link UNMEASURABLE_LOUDNESS}, or 0 (not measured) for anything else. */
+function pickLoudness(o: Record<string, unknown>, key: string): number {
+  const v = pickNum(o, key, 0);
+  return v < 0 || v === UNMEASURABLE_LOUDNESS ? v : 0;
+}
+
+/** A key name in its stored spelling, {@link NO_KEY}, or "" when missing or unrecognized. */
+function pickKey(o: Record<string, unknown>, key: string): string {
+  const v = o[key];
+  if (v === NO_KEY) return NO_KEY;
+  const parsed = typeof v === "string" ? parseKey(v) : null;
+  return parsed ? keyName(parsed) : "";
+}
+
 /** Overwritten when a new song is merged from a folder scan (see song-library `mergeSongs`). */
 const PLACEHOLDER_ORDER_ADDED = 0;
 
@@ -133,10 +363,33 @@ export function normalizeSongFromJson(raw: unknown): Song | null {
     playWeight: pickNum(o, "playWeight", base.playWeight),
     loopStartTime: pickNum(o, "loopStartTime", base.loopStartTime),
     loopEndTime: pickNum(o, "loopEndTime", base.loopEndTime),
+    loopCrossfadeTime: Math.max(0, pickNum(o, "loopCrossfadeTime", base.loopCrossfadeTime)),
     volume: pickNum(o, "volume", base.volume),
+    eqBass: clampEqDb(pickNum(o, "eqBass", base.eqBass)),
+    eqMid: clampEqDb(pickNum(o, "eqMid", base.eqMid)),
+    eqTreble: clampEqDb(pickNum(o, "eqTreble", base.eqTreble)),
     pitch: pickNum(o, "pitch", base.pitch),
+    pitchCents: clampPitchCents(pickNum(o, "pitchCents", base.pitchCents)),
     originalTempo: pickNum(o, "originalTempo", base.originalTempo),
+    beatOffset: Math.max(-1, pickNum(o, "beatOffset", base.beatOffset)),
+    bpmConfidence: Math.min(1, Math.max(-1, pickNum(o, "bpmConfidence", base.bpmConfidence))),
+    tempoMap: pickTempoMap(o, "tempoMap"),
+    originalKey: pickKey(o, "originalKey"),
+    loudness: pickLoudness(o, "loudness"),
+    audioSupport:
+      o.audioSupport === "ok" || o.audioSupport === "unsupported" ? o.audioSupport : "",
+    leadIn: Math.max(-1, pickNum(o, "leadIn", base.leadIn)),
+    skipLeadIn: o.skipLeadIn !== false,
     deltaTempo: pickNum(o, "deltaTempo", base.deltaTempo),
+    targetTempo: Math.max(0, pickNum(o, "targetTempo", base.targetTempo)),
+    tempoRamp: o.tempoRamp === true,
+    tempoRampEnd: pickNum(o, "tempoRampEnd", base.tempoRampEnd),
+    tempoRampSeconds: Math.max(1, pickNum(o, "tempoRampSeconds", base.tempoRampSeconds)),
+    stretchPreset: STRETCH_PRESETS.includes(o.stretchPreset as StretchPreset)
+      ? (o.stretchPreset as StretchPreset)
+      : base.stretchPreset,
+    sectionTimes: pickSectionTimes(o, "sectionTimes"),
+    cues: pickCues(o, "cues"),
   };
 }
 
@@ -163,8 +416,14 @@ export function nextOrderAdded(songs: Song[]): number {
   return maxOrderAdded(songs) + 1;
 }
 
-/** Supported music file extensions (lower-case, with dot). */
-const MUSIC_EXTENSIONS = [".mp3", ".m4a", ".wav"];
+/**
+ * Recognized music file extensions (lower-case, with dot). Not every browser
+ * decodes all of them; see {@link Song.audioSupport}.
+ */
+export const MUSIC_EXTENSIONS: readonly string[] = [".mp3", ".m4a", ".wav", ".ogg", ".oga", ".opus", ".flac", ".aac"];
+
+/** Music formats every browser CallerBuddy runs in can decode; never probed. */
+const ALWAYS_DECODABLE_EXTENSIONS = [".mp3", ".m4a", ".wav"];
 
 /** Supported lyrics file extensions (lower-case, with dot). */
 const LYRICS_EXTENSIONS = [".md"];
@@ -244,12 +503,53 @@ export function effectiveAudioLoopPoints(
   return clampPatterLoopRegion(song.loopStartTime, song.loopEndTime, d);
 }
 
+/**
+ * Add a cue at `time`, keeping the list sorted. The name defaults to
+ * "Cue N" for the song's Nth cue. Returns the new cue.
+ */
+export function addSongCue(song: Song, time: number, name = ""): SongCue {
+  const cue: SongCue = { time: Math.max(0, time), name };
+  const index = song.cues.findIndex((c) => c.time > cue.time);
+  const at = index < 0 ? song.cues.length : index;
+  if (!cue.name) cue.name = `Cue ${song.cues.length + 1}`;
+  song.cues = [...song.cues.slice(0, at), cue, ...song.cues.slice(at)];
+  return cue;
+}
+
+/** Just after a cue, "previous" skips it (like a player's previous-track button). */
+const CUE_SEEK_GRACE_SECONDS = 1;
+
+/**
+ * Time of the next (direction 1) or previous (-1) cue from `position`, or
+ * null when there is none that way.
+ */
+export function cueSeekTarget(
+  cues: SongCue[],
+  position: number,
+  direction: 1 | -1,
+): number | null {
+  if (direction > 0) {
+    const next = cues.find((c) => c.time > position + 0.01);
+    return next ? next.time : null;
+  }
+  for (let i = cues.length - 1; i >= 0; i--) {
+    if (cues[i].time < position - CUE_SEEK_GRACE_SECONDS) return cues[i].time;
+  }
+  return null;
+}
+
 /** True if the filename (lower-cased) has a recognized music extension. */
 export function isMusicFile(filename: string): boolean {
   const lower = filename.toLowerCase();
   return MUSIC_EXTENSIONS.some((ext) => lower.endsWith(ext));
 }
 
+/** True if the file is MP3, M4A or WAV, which play everywhere without a decode probe. */
+export function isAlwaysDecodable(filename: string): boolean {
+  const lower = filename.toLowerCase();
+  return ALWAYS_DECODABLE_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
 /** True if the filename (lower-cased) has a recognized lyrics extension. */
 export function isLyricsFile(filename: string): boolean {
   const lower = filename.toLowerCase();
@@ -356,9 +656,29 @@ export function createSongFromFile(
     playWeight: 0,
     loopStartTime: 0,
     loopEndTime: 0,
+    loopCrossfadeTime: 0,
     volume: 80,
+    eqBass: 0,
+    eqMid: 0,
+    eqTreble: 0,
     pitch: 0,
+    pitchCents: 0,
     originalTempo: 0,
+    beatOffset: -1,
+    bpmConfidence: -1,
+    tempoMap: [],
+    originalKey: "",
+    loudness: 0,
+    audioSupport: "",
+    leadIn: -1,
+    skipLeadIn: true,
     deltaTempo: 0,
+    targetTempo: 0,
+    tempoRamp: false,
+    tempoRampEnd: 0,
+    tempoRampSeconds: DEFAULT_TEMPO_RAMP_SECONDS,
+    stretchPreset: "auto",
+    sectionTimes: [],
+    cues: [],
   };
 }
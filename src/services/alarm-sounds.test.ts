@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { alarmTones } from "./alarm-sounds.js";
+
+describe("alarmTones", () => {
+  it("keeps the beep at the old timer beep's level at full volume", () => {
+    expect(alarmTones("beep", 100)).toEqual([
+      { frequencyHz: 880, type: "sine", at: 0, duration: 1, gain: 2 },
+    ]);
+  });
+
+  it("scales every tone with the volume", () => {
+    const full = alarmTones("chime", 100);
+    const half = alarmTones("chime", 50);
+    expect(half.map((t) => t.gain)).toEqual(full.map((t) => t.gain / 2));
+    expect(alarmTones("pips", 0).every((t) => t.gain === 0)).toBe(true);
+  });
+
+  it("starts tones in order", () => {
+    const starts = alarmTones("pips", 100).map((t) => t.at);
+    expect(starts).toEqual([...starts].sort((a, b) => a - b));
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Timer alarm sounds for the break and patter timers.
+ *
+ * Built-in sounds are short sequences of enveloped oscillator tones; "custom"
+ * plays a decoded audio file the user picked from CallerBuddyRoot (see
+ * Settings.breakAlarm / patterAlarm). Like the metronome, alarms go straight
+ * to the destination so the song's volume, leveling and EQ do not affect them.
+ *
+ * Usage:
+ *   playAlarmSound(context, "chime", settings.breakAlarm.volume);
+ *   playAlarmSound(context, decodedBuffer, settings.patterAlarm.volume);
+ */
+
+import type { AlarmSound } from "../models/settings.js";
+
+/** Built-in alarm sounds (everything but "custom"). */
+export type BuiltInAlarmSound = Exclude<AlarmSound, "custom">;
+
+/** Names shown in the alarm sound pickers. */
+export const ALARM_SOUND_LABELS: Record<AlarmSound, string> = {
+  beep: "Beep",
+  chime: "Chime",
+  bell: "Bell",
+  buzzer: "Buzzer",
+  pips: "Pips",
+  custom: "Custom file…",
+};
+
+/** Peak gain at volume 100; loud enough to cut through music (the old fixed beep). */
+const ALARM_PEAK_GAIN = 2.0;
+
+/** Custom files are cut off after this long so repeats every 30 s never overlap. */
+export const CUSTOM_ALARM_MAX_SECONDS = 10;
+
+/** One tone of a built-in alarm sound. */
+export interface AlarmTone {
+  frequencyHz: number;
+  type: OscillatorType;
+  /** Seconds after the alarm starts. */
+  at: number;
+  /** Seconds until the tone has decayed away. */
+  duration: number;
+  /** Peak gain of the tone. */
+  gain: number;
+}
+
+type ToneRecipe = [frequencyHz: number, type: OscillatorType, at: number, duration: number, level: number];
+
+const RECIPES: Record<BuiltInAlarmSound, ToneRecipe[]> = {
+  beep: [[880, "sine", 0, 1.0, 1]],
+  // Descending two-note doorbell (E5, C5).
+  chime: [
+    [659.25, "sine", 0, 1.2, 0.8],
+    [523.25, "sine", 0.45, 1.6, 0.8],
+  ],
+  // Struck bell: fundamental plus inharmonic partials that die away faster.
+  bell: [
+    [880, "sine", 0, 2.5, 0.7],
+    [2428.8, "sine", 0, 1.2, 0.25],
+    [4118.4, "sine", 0, 0.6, 0.12],
+  ],
+  buzzer: [
+    [220, "square", 0, 0.25, 0.3],
+    [220, "square", 0.35, 0.25, 0.3],
+    [220, "square", 0.7, 0.25, 0.3],
+  ],
+  pips: [
+    [1046.5, "sine", 0, 0.15, 1],
+    [1046.5, "sine", 0.25, 0.15, 1],
+    [1046.5, "sine", 0.5, 0.15, 1],
+    [1568, "sine", 0.75, 0.5, 1],
+  ],
+};
+
+/** The tones of a built-in sound at a volume of 0–100 (exported for tests). */
+export function alarmTones(sound: BuiltInAlarmSound, volume: number): AlarmTone[] {
+  const scale = (ALARM_PEAK_GAIN * Math.min(100, Math.max(0, volume))) / 100;
+  return RECIPES[sound].map(([frequencyHz, type, at, duration, level]) => ({
+    frequencyHz,
+    type,
+    at,
+    duration,
+    gain: level * scale,
+  }));
+}
+
+/**
+ * Play a built-in alarm sound or a decoded custom file at a volume of 0–100.
+ * Custom files play at unity gain at 100 (they are already full scale).
+ */
+export function playAlarmSound(
+  context: AudioContext,
+  sound: BuiltInAlarmSound | AudioBuffer,
+  volume: number,
+): void {
+  if (volume <= 0) return;
+  const start = context.currentTime;
+  if (typeof sound !== "string") {
+    const source = context.createBufferSource();
+    const g = context.createGain();
+    source.buffer = sound;
+    g.gain.value = Math.min(100, volume) / 100;
+    source.connect(g).connect(context.destination);
+    source.start(start);
+    source.stop(start + Math.min(sound.duration, CUSTOM_ALARM_MAX_SECONDS));
+    return;
+  }
+  for (const tone of alarmTones(sound, volume)) {
+    const osc = context.createOscillator();
+    const g = context.createGain();
+    osc.type = tone.type;
+    osc.frequency.value = tone.frequencyHz;
+    g.gain.setValueAtTime(0, start);
+    g.gain.setValueAtTime(tone.gain, start + tone.at);
+    g.gain.exponentialRampToValueAtTime(0.001, start + tone.at + tone.duration);
+    osc.connect(g).connect(context.destination);
+    osc.start(start + tone.at);
+    osc.stop(start + tone.at + tone.duration);
+  }
+}
@@ -16,10 +16,30 @@ function makeSong(musicFile: string): Song {
     playWeight: 0,
     loopStartTime: 0,
     loopEndTime: 0,
+    loopCrossfadeTime: 0,
     volume: 80,
+    eqBass: 0,
+    eqMid: 0,
+    eqTreble: 0,
     pitch: 0,
+    pitchCents: 0,
     originalTempo: 0,
+    beatOffset: -1,
+    originalKey: "",
+    loudness: 0,
+    leadIn: -1,
+    skipLeadIn: true,
     deltaTempo: 0,
+    targetTempo: 0,
+    tempoRamp: false,
+    tempoRampEnd: 0,
+    tempoRampSeconds: 180,
+    stretchPreset: "auto",
+    sectionTimes: [],
+    bpmConfidence: -1,
+    tempoMap: [],
+    audioSupport: "",
+    cues: [],
   };
 }
 
@@ -416,6 +416,12 @@ export class AppState extends EventTarget {
     return this.openTab(type, title, closable, data);
   }
 
+  /** Retitle the open tab of `type` (e.g. the player when a medley moves on). */
+  setTabTitle(type: TabType, title: string): void {
+    this.setTabs(this.tabs.map((t) => (t.type === type ? { ...t, title } : t)));
+    this.emit(StateEvents.CHANGED);
+  }
+
   activateTab(id: string): void {
     if (!this.tabs.some((t) => t.id === id)) return;
     if (this.activeTabId && this.activeTabId !== id) {
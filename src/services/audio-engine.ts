@@ -7,24 +7,29 @@
  *
  * Implementation notes:
  *  - Play/pause/stop/seek/volume: fully functional.
- *  - Pitch shifting: implemented via SoundTouchJS PitchShifter (pitchSemitones).
- *  - Tempo adjustment: implemented via SoundTouchJS PitchShifter (tempo ratio).
- *  - Looping: implemented by monitoring playback position and resetting when
- *    the position reaches the loop end point.
+ *  - Pitch shifting and tempo adjustment: a ScriptProcessorNode drives the
+ *    shared {@link SoundTouchRenderer} (soundtouch-renderer.ts), the same
+ *    renderer the AudioWorklet backend runs.
+ *  - Looping: the renderer's sample source wraps from loop end to loop start,
+ *    optionally crossfading the two (see {@link AudioEngine.setLoopCrossfade}).
+ *    With no pitch/tempo change and no crossfade, a plain AudioBufferSourceNode
+ *    loops natively instead.
  *
- * The SoundTouchJS PitchShifter wraps a ScriptProcessorNode internally.
- * It reads from the decoded AudioBuffer through the SoundTouch WSOLA
+ * SoundTouch reads from the decoded AudioBuffer through the WSOLA
  * (Waveform Similarity Overlap-Add) algorithm, enabling independent control
  * of pitch and tempo. See: https://github.com/cutterbl/SoundTouchJS
  *
- * Design note: ScriptProcessorNode is technically deprecated in favor of
- * AudioWorklet, but remains widely supported. SoundTouchJS also offers an
- * AudioWorklet variant (@soundtouchjs/audio-worklet) that we can migrate to
- * if ScriptProcessorNode support is ever dropped. See BACKLOG.md.
+ * Design note: ScriptProcessorNode is deprecated and runs on the main thread,
+ * so it glitches when the UI is busy. {@link WorkletAudioEngine}
+ * (worklet-audio-engine.ts) does the same processing in an AudioWorklet and is
+ * preferred where supported; this engine remains the fallback. See BACKLOG.md.
  */
 
-import { PitchShifter } from "soundtouchjs";
+import type { StretchPreset } from "../models/song.js";
+import { playAlarmSound, type BuiltInAlarmSound } from "./alarm-sounds.js";
 import { log } from "./logger.js";
+import { Metronome } from "./metronome.js";
+import { SoundTouchRenderer, type SoundTouchEvent } from "./soundtouch-renderer.js";
 import { WakeLockService } from "./wake-lock.js";
 
 // ---------------------------------------------------------------------------
@@ -43,6 +48,15 @@ export interface AudioEngine {
   /** Decode and prepare an audio file for playback. */
   loadAudio(audioData: ArrayBuffer): Promise<void>;
 
+  /**
+   * Decode an audio file without loading it, e.g. to preload the next song
+   * while another one plays. Does not touch the current playback.
+   */
+  decodeAudio(audioData: ArrayBuffer): Promise<AudioBuffer>;
+
+  /** Prepare an already-decoded buffer (from {@link decodeAudio}) for playback. */
+  loadDecodedAudio(buffer: AudioBuffer): Promise<void>;
+
   /** Resume the AudioContext if needed (call `await` this before decode when opening a song from a click). */
   ensureContextRunning(): Promise<void>;
 
@@ -53,6 +67,14 @@ export interface AudioEngine {
   /** Seek to an absolute position in seconds. */
   seek(timeSeconds: number): void;
 
+  /**
+   * Where playback begins after {@link stop} or a restart, in seconds (e.g. to
+   * skip a song's lead-in silence). Loading a song resets it to 0. When the
+   * engine is stopped at the old start, it moves to the new one.
+   */
+  setStartOffset(seconds: number): void;
+  getStartOffset(): number;
+
   /** Current playback position in seconds. */
   getCurrentTime(): number;
 
@@ -62,12 +84,33 @@ export interface AudioEngine {
   /** Set volume (0 – 100). */
   setVolume(volume: number): void;
 
+  /**
+   * Extra gain in dB applied on top of {@link setVolume}: the loudness
+   * leveling for the current song (0 = none).
+   */
+  setLevelingGain(db: number): void;
+
+  /** Set the bass/mid/treble equalizer (dB per band, 0 = flat). */
+  setEqualizer(gains: EqualizerGains): void;
+
   /**
    * Set pitch shift in half-steps (signed integer).
    * Implemented via SoundTouchJS pitchSemitones.
    */
   setPitch(halfSteps: number): void;
 
+  /**
+   * Set a fine pitch adjustment in cents (±50; 100 cents = one half-step) on
+   * top of {@link setPitch}, for recordings tuned slightly off.
+   */
+  setPitchCents(cents: number): void;
+
+  /**
+   * Set the time-stretch quality preset (SoundTouch window sizes) used for
+   * pitch and tempo changes. Default "auto".
+   */
+  setStretchPreset(preset: StretchPreset): void;
+
   /**
    * Set tempo adjustment.
    *
@@ -78,9 +121,58 @@ export interface AudioEngine {
    */
   setTempo(deltaBPM: number, referenceBPM?: number): void;
 
+  /**
+   * Glide the tempo from `fromDeltaBPM` to `toDeltaBPM` over `seconds` of
+   * playback (paused time does not count), then hold it. The ramp starts when
+   * this is called, or at the next play if paused. {@link setTempo} cancels it.
+   */
+  setTempoRamp(
+    fromDeltaBPM: number,
+    toDeltaBPM: number,
+    seconds: number,
+    referenceBPM?: number,
+  ): void;
+
+  /** Tempo ratio being played right now (1.0 = original); follows a ramp. */
+  getTempoRatio(): number;
+
+  /**
+   * Metronome clicks on the song's beats while it plays: `bpm` is the
+   * original tempo (0 = off) and `offset` the time of one beat in the file.
+   * The clicks follow the current tempo ratio.
+   */
+  setMetronome(bpm: number, offset: number): void;
+
+  /**
+   * Play `clicks` count-in clicks at `bpm` (tempo-adjusted). Resolves true
+   * when the music should start, or false if pause/stop/seek cut it short.
+   */
+  playCountIn(clicks: number, bpm: number): Promise<boolean>;
+
+  /**
+   * Route output to an audio device by id ("" = system default). Rejects when
+   * the browser cannot select outputs or the device is unavailable.
+   */
+  setOutputDevice(deviceId: string): Promise<void>;
+
   /** Configure loop points. Set end = 0 to disable looping. */
   setLoopPoints(startSeconds: number, endSeconds: number): void;
 
+  /**
+   * Crossfade length in seconds applied where the loop wraps (0 = hard jump).
+   * The audio before the loop end is overlapped with the audio before the
+   * loop start; the engine shortens the fade if the loop is too short for it.
+   */
+  setLoopCrossfade(seconds: number): void;
+
+  /**
+   * Load the next song of a patter medley while the one playing now fades
+   * out over `seconds`; the new song fades in over the same time from the
+   * next {@link play}. Like {@link loadDecodedAudio} when nothing is playing.
+   * Pause, stop or another crossfade cuts the outgoing song off.
+   */
+  crossfadeTo(buffer: AudioBuffer, seconds: number): Promise<void>;
+
   isPlaying(): boolean;
 
   /** Register a callback invoked when the song finishes (no loop or loop disabled). */
@@ -89,10 +181,14 @@ export interface AudioEngine {
   /** Register a callback invoked roughly every animation frame with current time. */
   onTimeUpdate(callback: TimeUpdateCallback): void;
 
-  /** Short alert beep for timers (stronger than {@link playErrorBeep} for audibility over music). */
-  playBeep(): void;
+  /**
+   * Timer alarm: a built-in sound or a decoded custom file, at a volume of
+   * 0–100 (see alarm-sounds.ts). Louder than {@link playErrorBeep} at 100 so
+   * it cuts through music.
+   */
+  playAlarm(sound: BuiltInAlarmSound | AudioBuffer, volume: number): void;
 
-  /** Short beep for errors (e.g. no song to play); softer than timer {@link playBeep}. */
+  /** Short beep for errors (e.g. no song to play); softer than timer alarms. */
   playErrorBeep(): void;
 
   /** Release all resources. */
@@ -111,7 +207,7 @@ export interface AudioEngine {
 const DEFAULT_REFERENCE_BPM = 128;
 
 /**
- * ScriptProcessorNode buffer size for SoundTouchJS.  4096 is a good balance
+ * ScriptProcessorNode buffer size for SoundTouch.  4096 is a good balance
  * between latency (~93 ms at 44.1 kHz) and CPU load.
  */
 const SHIFTER_BUFFER_SIZE = 4096;
@@ -143,6 +239,146 @@ export function songPositionSeconds(
   return loopStart + ((absoluteSeconds - loopStart) % loopLen);
 }
 
+/**
+ * Convert a signed BPM delta to a tempo ratio, clamped to 0.5x–2.0x.
+ * e.g. +5 BPM at 128 reference = 133/128 = 1.039 (3.9% faster).
+ * A missing or 0 reference uses {@link DEFAULT_REFERENCE_BPM}.
+ */
+export function tempoRatioFromDelta(deltaBPM: number, referenceBPM?: number): number {
+  const ref = referenceBPM && referenceBPM > 0 ? referenceBPM : DEFAULT_REFERENCE_BPM;
+  return Math.max(0.5, Math.min(2.0, (ref + deltaBPM) / ref));
+}
+
+/** Shared {@link AudioEngine.setOutputDevice} for engines that own one AudioContext. */
+export async function setContextOutputDevice(
+  context: AudioContext,
+  deviceId: string,
+): Promise<void> {
+  if (!context.setSinkId) {
+    throw new Error("Audio output selection is not supported in this browser");
+  }
+  await context.setSinkId(deviceId);
+  log.info(`Audio output: ${deviceId ? `device ${deviceId.slice(0, 8)}…` : "system default"}`);
+}
+
+/** Error beep (e.g. no song to play): softer profile than timer alarms. */
+export function playErrorTone(context: AudioContext): void {
+  playTone(context, 880, 0.5, 0.15);
+}
+
+/** Sine tone straight to the destination, bypassing the song's volume gain. */
+function playTone(
+  context: AudioContext,
+  frequencyHz: number,
+  durationSeconds: number,
+  peakGain = 0.15,
+): void {
+  const osc = context.createOscillator();
+  const g = context.createGain();
+  osc.type = "sine";
+  osc.frequency.value = frequencyHz;
+  g.gain.setValueAtTime(peakGain, context.currentTime);
+  g.gain.exponentialRampToValueAtTime(0.001, context.currentTime + durationSeconds);
+  osc.connect(g).connect(context.destination);
+  osc.start();
+  osc.stop(context.currentTime + durationSeconds);
+}
+
+/** Equalizer gain per band in dB (0 = flat). */
+export interface EqualizerGains {
+  bass: number;
+  mid: number;
+  treble: number;
+}
+
+/** Filter per {@link EqualizerGains} band, in signal order. */
+const EQ_BANDS = [
+  { band: "bass", type: "lowshelf", frequency: 250 },
+  { band: "mid", type: "peaking", frequency: 1000 },
+  { band: "treble", type: "highshelf", frequency: 4000 },
+] as const;
+
+/**
+ * Bass → mid → treble BiquadFilter chain in front of an engine's volume gain.
+ * Sources connect to {@link input}; all bands start flat.
+ */
+export class Equalizer {
+  readonly input: AudioNode;
+  private readonly filters: Record<keyof EqualizerGains, BiquadFilterNode>;
+
+  constructor(context: BaseAudioContext, output: AudioNode) {
+    const nodes = EQ_BANDS.map(({ type, frequency }) => {
+      const filter = context.createBiquadFilter();
+      filter.type = type;
+      filter.frequency.value = frequency;
+      filter.gain.value = 0;
+      return filter;
+    });
+    for (let i = 1; i < nodes.length; i++) nodes[i - 1].connect(nodes[i]);
+    nodes[nodes.length - 1].connect(output);
+    this.input = nodes[0];
+    this.filters = { bass: nodes[0], mid: nodes[1], treble: nodes[2] };
+  }
+
+  set(gains: EqualizerGains): void {
+    for (const { band } of EQ_BANDS) {
+      this.filters[band].gain.value = gains[band];
+    }
+  }
+}
+
+/**
+ * The outgoing half of a song-to-song crossfade. The old song's playback
+ * node, already disconnected from the engine, is routed through its own gain
+ * straight to the destination (the engine's EQ and volume now belong to the
+ * new song) and fades out while the engine's last gain stage fades in.
+ */
+export class Crossfade {
+  private readonly context: BaseAudioContext;
+  private readonly out: GainNode;
+  private readonly release: () => void;
+  private fadeIn: GainNode | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Keep `outgoing` sounding at `level` (the engine's gain when it was
+   * detached); `release` stops it for good.
+   */
+  constructor(context: BaseAudioContext, outgoing: AudioNode, level: number, release: () => void) {
+    this.context = context;
+    this.release = release;
+    this.out = context.createGain();
+    this.out.gain.value = level;
+    this.out.connect(context.destination);
+    outgoing.connect(this.out);
+  }
+
+  /** Fade the old song out and `fadeIn` from silence up, over `seconds`. */
+  start(fadeIn: GainNode, seconds: number): void {
+    const now = this.context.currentTime;
+    this.fadeIn = fadeIn;
+    this.out.gain.setValueAtTime(this.out.gain.value, now);
+    this.out.gain.linearRampToValueAtTime(0, now + seconds);
+    fadeIn.gain.cancelScheduledValues(now);
+    fadeIn.gain.setValueAtTime(0, now);
+    fadeIn.gain.linearRampToValueAtTime(1, now + seconds);
+    this.timer = setTimeout(() => this.end(), seconds * 1000);
+  }
+
+  /** Silence the old song now and bring the new one to full level. */
+  end(): void {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+    this.release();
+    this.out.disconnect();
+    if (this.fadeIn) {
+      this.fadeIn.gain.cancelScheduledValues(0);
+      this.fadeIn.gain.value = 1;
+      this.fadeIn = null;
+    }
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Web Audio + SoundTouchJS implementation
 // ---------------------------------------------------------------------------
@@ -151,9 +387,21 @@ export class WebAudioEngine implements AudioEngine {
   private context: AudioContext;
   private audioBuffer: AudioBuffer | null = null;
   private gainNode: GainNode;
-
-  // --- SoundTouchJS PitchShifter state ---
-  private shifter: PitchShifter | null = null;
+  /** Last gain stage; only a crossfade moves it off 1. */
+  private fadeNode: GainNode;
+  private equalizer: Equalizer;
+  private metronome: Metronome;
+  /** Song volume (0–1) and loudness leveling (linear); gainNode = product. */
+  private volumeGain = 1;
+  private levelingGain = 1;
+  /** Outgoing song of a running crossfade (see {@link crossfadeTo}). */
+  private crossfade: Crossfade | null = null;
+  /** Its renderer, which keeps rendering but must not move this engine's position. */
+  private fadingShifter: SoundTouchRenderer | null = null;
+
+  // --- SoundTouch (ScriptProcessorNode) state ---
+  private shifter: SoundTouchRenderer | null = null;
+  private processor: ScriptProcessorNode | null = null;
   private playing = false;
   private connected = false;
 
@@ -166,12 +414,19 @@ export class WebAudioEngine implements AudioEngine {
 
   /** Current pitch shift in half-steps. */
   private pitchHalfSteps = 0;
-  /** Current tempo ratio (1.0 = original). */
+  /** Current fine pitch in cents, on top of pitchHalfSteps. */
+  private pitchCents = 0;
+  /** Time-stretch preset applied to each new renderer. */
+  private stretchPreset: StretchPreset = "auto";
+  /** Current tempo ratio (1.0 = original); the ramp's start while ramping. */
   private tempoRatio = 1.0;
+  /** Ramp passed to {@link setTempoRamp}, replayed into a new renderer; null = fixed tempo. */
+  private tempoRamp: { from: number; to: number; seconds: number } | null = null;
 
   // --- Loop state ---
   private loopStart = 0;
   private loopEnd = 0;
+  private loopCrossfade = 0;
 
   // --- Callbacks ---
   private endedCb: EndedCallback | null = null;
@@ -181,6 +436,8 @@ export class WebAudioEngine implements AudioEngine {
   // --- Playback tracking ---
   /** Current position in the song file (seconds). Single source of truth for UI. */
   private positionSeconds = 0;
+  /** See {@link AudioEngine.setStartOffset}. */
+  private startOffsetSeconds = 0;
   /** Whether we have already fired the ended callback for the current playback. */
   private endedFired = false;
 
@@ -195,23 +452,48 @@ export class WebAudioEngine implements AudioEngine {
 
   constructor() {
     this.context = new AudioContext();
+    this.fadeNode = this.context.createGain();
+    this.fadeNode.connect(this.context.destination);
     this.gainNode = this.context.createGain();
-    this.gainNode.connect(this.context.destination);
+    this.gainNode.connect(this.fadeNode);
+    this.equalizer = new Equalizer(this.context, this.gainNode);
+    this.metronome = new Metronome(this.context);
     document.addEventListener("visibilitychange", this.onDocumentVisibilityChange);
   }
 
   async loadAudio(audioData: ArrayBuffer): Promise<void> {
     this.stop();
     const t0 = performance.now();
-    this.audioBuffer = await this.context.decodeAudioData(audioData);
+    const buffer = await this.decodeAudio(audioData);
     const t1 = performance.now();
+    await this.loadDecodedAudio(buffer);
+    log.info(`Audio decode: ${(t1 - t0).toFixed(1)}ms`);
+  }
+
+  decodeAudio(audioData: ArrayBuffer): Promise<AudioBuffer> {
+    return this.context.decodeAudioData(audioData);
+  }
+
+  async loadDecodedAudio(buffer: AudioBuffer): Promise<void> {
+    this.startOffsetSeconds = 0;
+    this.stop();
+    this.audioBuffer = buffer;
     this.positionSeconds = 0;
     this.endedFired = false;
     log.info(
-      `Audio loaded: ${this.audioBuffer.duration.toFixed(1)}s, ` +
-        `${this.audioBuffer.numberOfChannels}ch, ${this.audioBuffer.sampleRate}Hz`,
+      `Audio loaded: ${buffer.duration.toFixed(1)}s, ` +
+        `${buffer.numberOfChannels}ch, ${buffer.sampleRate}Hz`,
     );
-    log.info(`Audio decode: ${(t1 - t0).toFixed(1)}ms`);
+  }
+
+  async crossfadeTo(buffer: AudioBuffer, seconds: number): Promise<void> {
+    this.endCrossfade();
+    const crossfade = this.playing ? this.detachForCrossfade() : null;
+    await this.loadDecodedAudio(buffer);
+    if (!crossfade) return;
+    this.crossfade = crossfade;
+    crossfade.start(this.fadeNode, seconds);
+    log.info(`crossfadeTo: ${buffer.duration.toFixed(1)}s over ${seconds}s`);
   }
 
   async ensureContextRunning(): Promise<void> {
@@ -230,20 +512,17 @@ export class WebAudioEngine implements AudioEngine {
       await this.context.resume();
     }
 
-    // If no pitch/tempo modifications are requested, avoid SoundTouchJS overhead.
+    // If no pitch/tempo modifications (or loop crossfade) are requested, avoid SoundTouch overhead.
     if (this.canUseRawPlayback()) {
       this.startRawPlayback();
     } else {
-      // If we don't have a PitchShifter yet, create one
+      // If we don't have a renderer yet, create one
       if (!this.shifter) {
         this.createShifter();
       }
-
-      // Connect the shifter to the gain node to start audio flowing
-      if (this.shifter && !this.connected) {
-        this.shifter.connect(this.gainNode);
-        this.connected = true;
-      }
+      // The renderer stops itself at the end of the song; restart it.
+      this.shifter?.handle({ type: "play" });
+      this.connectShifter();
     }
 
     this.playing = true;
@@ -253,12 +532,11 @@ export class WebAudioEngine implements AudioEngine {
   }
 
   pause(): void {
+    this.metronome.cancel();
+    this.endCrossfade();
     if (!this.playing) return;
     // Disconnect stops audio flow but keeps the shifter's position
-    if (this.shifter && this.connected) {
-      this.shifter.disconnect();
-      this.connected = false;
-    }
+    this.disconnectShifter();
     this.syncPositionFromPlayback();
     if (this.sourceNode) {
       // Stopping the source is the only way to pause.
@@ -281,10 +559,9 @@ export class WebAudioEngine implements AudioEngine {
   }
 
   stop(): void {
-    if (this.shifter && this.connected) {
-      this.shifter.disconnect();
-      this.connected = false;
-    }
+    this.metronome.cancel();
+    this.endCrossfade();
+    this.disconnectShifter();
     if (this.sourceNode) {
       try {
         this.sourceNode.onended = null;
@@ -300,31 +577,33 @@ export class WebAudioEngine implements AudioEngine {
       this.sourceNode = null;
     }
     this.destroyShifter();
-    this.positionSeconds = 0;
+    this.positionSeconds = this.startOffsetSeconds;
     this.playing = false;
     this.endedFired = false;
     this.stopTimeUpdates();
     void this.wakeLock.release();
   }
 
+  setStartOffset(seconds: number): void {
+    const atStart = !this.playing && this.positionSeconds === this.startOffsetSeconds;
+    this.startOffsetSeconds = Math.max(0, seconds);
+    if (atStart) this.seek(this.startOffsetSeconds);
+  }
+
+  getStartOffset(): number {
+    return this.startOffsetSeconds;
+  }
+
   seek(timeSeconds: number): void {
+    this.metronome.cancel();
     const duration = this.getDuration();
     const clampedTime = Math.max(0, Math.min(timeSeconds, duration));
 
     if (this.shifter && duration > 0) {
-      // PitchShifter.percentagePlayed setter expects 0–1 fraction
-      const fraction = clampedTime / duration;
-      this.shifter.percentagePlayed = fraction;
-      this.positionSeconds = clampedTime;
-      // Read-back uses getter which returns 0–100 (asymmetric API)
-      const readBackPct = this.shifter.percentagePlayed;
-      log.info(
-        `seek: time=${clampedTime.toFixed(2)}s, duration=${duration.toFixed(2)}s, ` +
-          `set fraction=${fraction.toFixed(4)}, readBackPct=${readBackPct.toFixed(4)}`,
-      );
-    } else {
-      this.positionSeconds = clampedTime;
+      this.shifter.handle({ type: "seek", seconds: clampedTime, generation: 0 });
+      log.info(`seek: time=${clampedTime.toFixed(2)}s, duration=${duration.toFixed(2)}s`);
     }
+    this.positionSeconds = clampedTime;
 
     // Raw mode: restart source at the desired offset when playing.
     if (!this.shifter && this.playing) {
@@ -347,12 +626,6 @@ export class WebAudioEngine implements AudioEngine {
       }
     }
 
-    // If we're playing but had to recreate the shifter, reconnect
-    if (this.playing && this.shifter && !this.connected) {
-      this.shifter.connect(this.gainNode);
-      this.connected = true;
-    }
-
     // Notify UI immediately (time-update polling is stopped while paused).
     this.timeUpdateCb?.(this.positionSeconds);
   }
@@ -367,42 +640,107 @@ export class WebAudioEngine implements AudioEngine {
 
   setVolume(volume: number): void {
     // volume is 0-100 → gain is 0-1
-    this.gainNode.gain.value = Math.max(0, Math.min(volume, 100)) / 100;
+    this.volumeGain = Math.max(0, Math.min(volume, 100)) / 100;
+    this.gainNode.gain.value = this.volumeGain * this.levelingGain;
+  }
+
+  setLevelingGain(db: number): void {
+    this.levelingGain = 10 ** (db / 20);
+    this.gainNode.gain.value = this.volumeGain * this.levelingGain;
+    log.info(`setLevelingGain(${db.toFixed(1)} dB)`);
+  }
+
+  setEqualizer(gains: EqualizerGains): void {
+    this.equalizer.set(gains);
+    log.info(`setEqualizer(bass ${gains.bass}, mid ${gains.mid}, treble ${gains.treble})`);
+  }
+
+  setOutputDevice(deviceId: string): Promise<void> {
+    return setContextOutputDevice(this.context, deviceId);
   }
 
   setPitch(halfSteps: number): void {
     this.pitchHalfSteps = halfSteps;
+    this.applyPitch();
+    log.info(`setPitch(${halfSteps}) — pitch shift set to ${halfSteps} half-steps`);
+  }
+
+  setPitchCents(cents: number): void {
+    this.pitchCents = cents;
+    this.applyPitch();
+    log.info(`setPitchCents(${cents}) — fine pitch set to ${cents} cents`);
+  }
+
+  setStretchPreset(preset: StretchPreset): void {
+    this.stretchPreset = preset;
+    this.shifter?.handle({ type: "stretch", preset });
+    log.info(`setStretchPreset(${preset})`);
+  }
+
+  /** Total pitch shift in (fractional) half-steps, as SoundTouch takes it. */
+  private pitchSemitones(): number {
+    return this.pitchHalfSteps + this.pitchCents / 100;
+  }
+
+  private applyPitch(): void {
     // If we're playing raw and pitch is changed, switch to shifter.
     if (this.playing && this.sourceNode && !this.canUseRawPlayback()) {
       this.switchRawToShifterAtCurrentTime();
     }
-    if (this.shifter) {
-      this.shifter.pitchSemitones = halfSteps;
-    }
-    log.info(`setPitch(${halfSteps}) — pitch shift set to ${halfSteps} half-steps`);
+    this.shifter?.handle({ type: "pitch", semitones: this.pitchSemitones() });
   }
 
   setTempo(deltaBPM: number, referenceBPM?: number): void {
     const ref = referenceBPM && referenceBPM > 0 ? referenceBPM : DEFAULT_REFERENCE_BPM;
-    // Convert BPM delta to a ratio: ratio = (ref + delta) / ref
-    // e.g. +5 BPM at 128 reference = 133/128 = 1.039 (3.9% faster)
-    this.tempoRatio = (ref + deltaBPM) / ref;
-    // Clamp to reasonable range (0.5x to 2.0x)
-    this.tempoRatio = Math.max(0.5, Math.min(2.0, this.tempoRatio));
+    this.tempoRatio = tempoRatioFromDelta(deltaBPM, ref);
+    this.tempoRamp = null;
 
     // If we're playing raw and tempo is changed, switch to shifter.
     if (this.playing && this.sourceNode && !this.canUseRawPlayback()) {
       this.switchRawToShifterAtCurrentTime();
     }
-    if (this.shifter) {
-      this.shifter.tempo = this.tempoRatio;
-    }
+    this.shifter?.handle({ type: "tempo", ratio: this.tempoRatio });
     log.info(
       `setTempo(${deltaBPM}, ref=${ref}) — tempo ratio ${this.tempoRatio.toFixed(3)} ` +
         `(${deltaBPM >= 0 ? "+" : ""}${deltaBPM} BPM from ${ref} BPM)`,
     );
   }
 
+  setTempoRamp(
+    fromDeltaBPM: number,
+    toDeltaBPM: number,
+    seconds: number,
+    referenceBPM?: number,
+  ): void {
+    this.tempoRatio = tempoRatioFromDelta(fromDeltaBPM, referenceBPM);
+    this.tempoRamp = {
+      from: this.tempoRatio,
+      to: tempoRatioFromDelta(toDeltaBPM, referenceBPM),
+      seconds,
+    };
+    if (this.playing && this.sourceNode) {
+      this.switchRawToShifterAtCurrentTime();
+    }
+    this.shifter?.handle({ type: "tempoRamp", ...this.tempoRamp });
+    log.info(
+      `setTempoRamp(${fromDeltaBPM} → ${toDeltaBPM} over ${seconds}s) — tempo ratio ` +
+        `${this.tempoRamp.from.toFixed(3)} → ${this.tempoRamp.to.toFixed(3)}`,
+    );
+  }
+
+  getTempoRatio(): number {
+    return this.shifter?.currentTempoRatio ?? this.tempoRatio;
+  }
+
+  setMetronome(bpm: number, offset: number): void {
+    this.metronome.configure(bpm, offset);
+  }
+
+  async playCountIn(clicks: number, bpm: number): Promise<boolean> {
+    await this.ensureContextRunning();
+    return this.metronome.countIn(clicks, bpm);
+  }
+
   setLoopPoints(startSeconds: number, endSeconds: number): void {
     let start = startSeconds;
     const end = endSeconds;
@@ -416,13 +754,13 @@ export class WebAudioEngine implements AudioEngine {
       `setLoopPoints(${start.toFixed(2)}, ${end.toFixed(2)}) — ` +
         (end > 0 ? "looping enabled" : "looping disabled"),
     );
-    if (this.sourceNode) {
-      this.sourceNode.loop = end > 0 && end > start;
-      if (this.sourceNode.loop) {
-        this.sourceNode.loopStart = start;
-        this.sourceNode.loopEnd = end;
-      }
-    }
+    this.applyLoopToPlayback();
+  }
+
+  setLoopCrossfade(seconds: number): void {
+    this.loopCrossfade = Math.max(0, seconds);
+    log.info(`setLoopCrossfade(${this.loopCrossfade.toFixed(3)})`);
+    this.applyLoopToPlayback();
   }
 
   isPlaying(): boolean {
@@ -437,36 +775,17 @@ export class WebAudioEngine implements AudioEngine {
     this.timeUpdateCb = callback;
   }
 
-  /** Play a short beep using an oscillator (for timer alerts). Louder/longer than {@link playErrorBeep} so it cuts through music. */
-  playBeep(): void {
-    this.playTone(880, 1.0, 2.0);  // 1.0 second, 2.0 gain
+  playAlarm(sound: BuiltInAlarmSound | AudioBuffer, volume: number): void {
+    playAlarmSound(this.context, sound, volume);
   }
 
   /** Play a short beep for errors (e.g. no song to play). Uses a softer profile than timer beeps. */
   playErrorBeep(): void {
-    this.playTone(880, 0.5, 0.15);
-  }
-
-  private playTone(
-    frequencyHz: number,
-    durationSeconds: number,
-    peakGain = 0.15,
-  ): void {
-    const osc = this.context.createOscillator();
-    const g = this.context.createGain();
-    osc.type = "sine";
-    osc.frequency.value = frequencyHz;
-    g.gain.setValueAtTime(peakGain, this.context.currentTime);
-    g.gain.exponentialRampToValueAtTime(
-      0.001,
-      this.context.currentTime + durationSeconds,
-    );
-    osc.connect(g).connect(this.context.destination);
-    osc.start();
-    osc.stop(this.context.currentTime + durationSeconds);
+    playErrorTone(this.context);
   }
 
   dispose(): void {
+    this.metronome.cancel();
     document.removeEventListener("visibilitychange", this.onDocumentVisibilityChange);
     this.stop();
     this.wakeLock.dispose();
@@ -476,8 +795,9 @@ export class WebAudioEngine implements AudioEngine {
   // -- private helpers ------------------------------------------------------
 
   /**
-   * Create a new PitchShifter from the current audioBuffer, applying the
-   * current pitch and tempo settings.
+   * Create a new SoundTouch renderer and ScriptProcessorNode for the current
+   * audioBuffer, applying the current stretch preset, pitch, tempo, loop and
+   * position.
    */
   private createShifter(): void {
     if (!this.audioBuffer) return;
@@ -485,43 +805,107 @@ export class WebAudioEngine implements AudioEngine {
     this.destroyShifter();
 
     const t0 = performance.now();
-    this.shifter = new PitchShifter(
-      this.context,
-      this.audioBuffer,
-      SHIFTER_BUFFER_SIZE,
-      () => this.onShifterEnd(),
-    );
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < Math.min(this.audioBuffer.numberOfChannels, 2); c++) {
+      channels.push(this.audioBuffer.getChannelData(c));
+    }
+    const shifter: SoundTouchRenderer = new SoundTouchRenderer(this.audioBuffer.sampleRate, (e) => {
+      if (shifter !== this.fadingShifter) this.onShifterEvent(e);
+    });
+    shifter.handle({ type: "load", channels });
+    shifter.handle({ type: "stretch", preset: this.stretchPreset });
+    shifter.handle({ type: "pitch", semitones: this.pitchSemitones() });
+    shifter.handle({ type: "tempo", ratio: this.tempoRatio });
+    if (this.tempoRamp) shifter.handle({ type: "tempoRamp", ...this.tempoRamp });
+    shifter.handle(this.loopCommand());
+    if (this.positionSeconds > 0) {
+      shifter.handle({ type: "seek", seconds: this.positionSeconds, generation: 0 });
+    }
+    shifter.handle({ type: "play" });
+
+    // Input channels are unused, but some browsers only fire onaudioprocess
+    // for processors with inputs (soundtouchjs uses the same 2-in/2-out shape).
+    const processor = this.context.createScriptProcessor(SHIFTER_BUFFER_SIZE, 2, 2);
+    processor.onaudioprocess = (e: AudioProcessingEvent) =>
+      shifter.render(e.outputBuffer.getChannelData(0), e.outputBuffer.getChannelData(1));
 
-    // Apply current pitch and tempo settings
-    this.shifter.pitchSemitones = this.pitchHalfSteps;
-    this.shifter.tempo = this.tempoRatio;
+    this.shifter = shifter;
+    this.processor = processor;
 
-    // Note: we do NOT use the "play" event for position tracking because
-    // the ScriptProcessorNode can emit stale timePlayed values after a seek.
-    // Instead, we read the shifter's percentagePlayed getter directly in the
-    // RAF loop (see startTimeUpdates), making the shifter's internal
-    // sourcePosition the single source of truth for playback position.
+    const t1 = performance.now();
+    log.info(`SoundTouch ScriptProcessor created in ${(t1 - t0).toFixed(1)}ms`);
+  }
 
-    // If we had a saved position, seek to it (setter expects 0–1 fraction)
-    if (this.positionSeconds > 0 && this.getDuration() > 0) {
-      const fraction = this.positionSeconds / this.getDuration();
-      this.shifter.percentagePlayed = fraction;
+  /**
+   * Take the sounding playback path (renderer or raw source) away from the
+   * engine, still playing, as the outgoing half of a crossfade.
+   */
+  private detachForCrossfade(): Crossfade | null {
+    const level = this.gainNode.gain.value;
+    const processor = this.connected ? this.processor : null;
+    if (processor) {
+      const shifter = this.shifter;
+      processor.disconnect();
+      this.connected = false;
+      this.processor = null;
+      this.shifter = null;
+      this.fadingShifter = shifter;
+      return new Crossfade(this.context, processor, level, () => {
+        processor.onaudioprocess = null;
+        processor.disconnect();
+        if (this.fadingShifter === shifter) this.fadingShifter = null;
+      });
     }
+    const src = this.sourceNode;
+    if (!src) return null;
+    src.onended = null;
+    src.disconnect();
+    this.sourceNode = null;
+    return new Crossfade(this.context, src, level, () => {
+      try {
+        src.stop();
+      } catch {
+        // ignore
+      }
+      src.disconnect();
+    });
+  }
 
-    const t1 = performance.now();
-    log.info(`SoundTouchJS PitchShifter created in ${(t1 - t0).toFixed(1)}ms`);
+  private endCrossfade(): void {
+    this.crossfade?.end();
+    this.crossfade = null;
   }
 
-  /** Called by SoundTouchJS when the source buffer is exhausted. */
-  private onShifterEnd(): void {
-    if (this.endedFired) return;
+  private connectShifter(): void {
+    if (this.processor && !this.connected) {
+      this.processor.connect(this.equalizer.input);
+      this.connected = true;
+    }
+  }
 
-    // If looping is active, seek to loop start instead of ending
-    if (this.loopEnd > 0 && this.loopEnd > this.loopStart) {
-      this.seek(this.loopStart);
-      return;
+  private disconnectShifter(): void {
+    if (this.processor && this.connected) {
+      try {
+        this.processor.disconnect();
+      } catch {
+        // Processor may already be disconnected
+      }
+      this.connected = false;
+    }
+  }
+
+  /** Position reports and end-of-song from the renderer (called from onaudioprocess). */
+  private onShifterEvent(event: SoundTouchEvent): void {
+    if (event.type === "position") {
+      this.positionSeconds = event.seconds;
+    } else if (event.type === "ended") {
+      this.onShifterEnd();
     }
+  }
 
+  /** Called when the renderer runs out of audio (never while looping). */
+  private onShifterEnd(): void {
+    if (this.endedFired) return;
     this.endedFired = true;
     this.playing = false;
     this.stopTimeUpdates();
@@ -529,20 +913,44 @@ export class WebAudioEngine implements AudioEngine {
   }
 
   private destroyShifter(): void {
-    if (this.shifter) {
-      try {
-        this.shifter.off();
-        if (this.connected) {
-          this.shifter.disconnect();
-          this.connected = false;
-        }
-      } catch {
-        // Shifter may already be disconnected
+    this.disconnectShifter();
+    if (this.processor) {
+      this.processor.onaudioprocess = null;
+      this.processor = null;
+    }
+    this.shifter = null;
+  }
+
+  private loopCommand() {
+    return {
+      type: "loop",
+      start: this.loopStart,
+      end: this.loopEnd,
+      crossfade: this.loopCrossfade,
+    } as const;
+  }
+
+  /** Push loop settings to whichever playback path is active. */
+  private applyLoopToPlayback(): void {
+    this.shifter?.handle(this.loopCommand());
+    if (this.sourceNode) {
+      // A crossfade needs the renderer; a plain buffer source can only jump.
+      if (this.playing && !this.canUseRawPlayback()) {
+        this.switchRawToShifterAtCurrentTime();
+        return;
+      }
+      this.sourceNode.loop = this.loopActive();
+      if (this.sourceNode.loop) {
+        this.sourceNode.loopStart = this.loopStart;
+        this.sourceNode.loopEnd = this.loopEnd;
       }
-      this.shifter = null;
     }
   }
 
+  private loopActive(): boolean {
+    return this.loopEnd > 0 && this.loopEnd > this.loopStart;
+  }
+
   /** Last time we logged position (for throttling). */
   private lastPositionLogTime = 0;
 
@@ -551,6 +959,7 @@ export class WebAudioEngine implements AudioEngine {
     const tick = () => {
       if (this.playing) {
         this.syncPositionFromPlayback();
+        this.metronome.update(this.positionSeconds, this.getTempoRatio());
 
         // Throttled position log (about once per second)
         const now = Date.now();
@@ -560,16 +969,6 @@ export class WebAudioEngine implements AudioEngine {
             `position: time=${this.positionSeconds.toFixed(2)}s, duration=${this.getDuration().toFixed(2)}s`,
           );
         }
-
-        // Shifter path: loop by seeking (raw path loops in the browser).
-        if (
-          this.shifter &&
-          this.loopEnd > 0 &&
-          this.loopEnd > this.loopStart &&
-          this.positionSeconds >= this.loopEnd
-        ) {
-          this.seek(this.loopStart);
-        }
       }
 
       this.timeUpdateCb?.(this.positionSeconds);
@@ -579,16 +978,15 @@ export class WebAudioEngine implements AudioEngine {
   }
 
   private canUseRawPlayback(): boolean {
-    return this.pitchHalfSteps === 0 && Math.abs(this.tempoRatio - 1.0) < 1e-6;
+    if (this.loopCrossfade > 0 && this.loopActive()) return false;
+    if (this.tempoRamp) return false;
+    return this.pitchSemitones() === 0 && Math.abs(this.tempoRatio - 1.0) < 1e-6;
   }
 
   /** Update {@link positionSeconds} from the active playback backend. */
   private syncPositionFromPlayback(): void {
-    const duration = this.getDuration();
-    if (this.shifter && duration > 0) {
-      // SoundTouchJS: setter uses 0–1 fraction, getter returns 0–100 percentage.
-      const pctRaw = this.shifter.percentagePlayed;
-      this.positionSeconds = (pctRaw / 100) * duration;
+    if (this.shifter) {
+      this.positionSeconds = this.shifter.positionSeconds;
       return;
     }
     if (this.sourceNode) {
@@ -608,14 +1006,6 @@ export class WebAudioEngine implements AudioEngine {
     const clamped = Math.max(0, Math.min(offset, this.audioBuffer.duration));
 
     // Ensure any shifter path is down before starting raw playback.
-    if (this.shifter && this.connected) {
-      try {
-        this.shifter.disconnect();
-      } catch {
-        // ignore
-      }
-      this.connected = false;
-    }
     this.destroyShifter();
 
     if (this.sourceNode) {
@@ -636,9 +1026,9 @@ export class WebAudioEngine implements AudioEngine {
     const t0 = performance.now();
     const src = this.context.createBufferSource();
     src.buffer = this.audioBuffer;
-    src.connect(this.gainNode);
+    src.connect(this.equalizer.input);
 
-    src.loop = this.loopEnd > 0 && this.loopEnd > this.loopStart;
+    src.loop = this.loopActive();
     if (src.loop) {
       src.loopStart = this.loopStart;
       src.loopEnd = this.loopEnd;
@@ -647,7 +1037,7 @@ export class WebAudioEngine implements AudioEngine {
     src.onended = () => {
       if (!this.playing || this.sourceNode !== src) return;
       if (this.endedFired) return;
-      if (this.loopEnd > 0 && this.loopEnd > this.loopStart) return;
+      if (this.loopActive()) return;
       this.endedFired = true;
       this.playing = false;
       this.stopTimeUpdates();
@@ -690,10 +1080,7 @@ export class WebAudioEngine implements AudioEngine {
     }
     this.positionSeconds = t;
     this.createShifter();
-    if (this.shifter && !this.connected) {
-      this.shifter.connect(this.gainNode);
-      this.connected = true;
-    }
+    this.connectShifter();
     log.info(`Audio mode switch: raw → shifter at ${t.toFixed(2)}s`);
   }
 
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { encodeWav, renderSoundTouch, type ExportSettings } from "./audio-export.js";
+
+// SoundTouch's window sizes assume a music sample rate; at 8 kHz it drops far more of the tail.
+const SAMPLE_RATE = 22050;
+
+function tone(seconds: number): Float32Array {
+  const out = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < out.length; i++) out[i] = 0.5 * Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE);
+  return out;
+}
+
+function settings(overrides: Partial<ExportSettings> = {}): ExportSettings {
+  return {
+    pitchSemitones: 0,
+    stretchPreset: "auto",
+    tempoRatio: 1,
+    tempoRamp: null,
+    gain: 1,
+    equalizer: { bass: 0, mid: 0, treble: 0 },
+    loopStart: 0,
+    loopEnd: 0,
+    loopCrossfade: 0,
+    maxSeconds: 60,
+    ...overrides,
+  };
+}
+
+describe("renderSoundTouch", () => {
+  it("copies unmodified audio through to the end of the song", async () => {
+    const input = tone(2);
+    const { channels, truncated } = await renderSoundTouch([input], SAMPLE_RATE, settings());
+    expect(truncated).toBe(false);
+    expect(channels[0].length).toBe(input.length);
+    expect(channels[1][100]).toBeCloseTo(input[100], 6);
+  });
+
+  it("shortens the song when the tempo is faster", async () => {
+    const { channels } = await renderSoundTouch([tone(4)], SAMPLE_RATE, settings({ tempoRatio: 2 }));
+    // 4 s at double speed; SoundTouch keeps back a fraction of a second at the end.
+    expect(channels[0].length / SAMPLE_RATE).toBeGreaterThan(1.6);
+    expect(channels[0].length / SAMPLE_RATE).toBeLessThanOrEqual(2);
+  });
+
+  it("cuts a looping song at maxSeconds", async () => {
+    const { channels, truncated } = await renderSoundTouch(
+      [tone(2)],
+      SAMPLE_RATE,
+      settings({ loopStart: 0.5, loopEnd: 1.5, maxSeconds: 5 }),
+    );
+    expect(truncated).toBe(true);
+    expect(channels[0].length).toBe(5 * SAMPLE_RATE);
+  });
+
+  it("reports rising progress that ends at 1", async () => {
+    const progress: number[] = [];
+    await renderSoundTouch(
+      [tone(2)],
+      SAMPLE_RATE,
+      settings({ loopStart: 0.5, loopEnd: 1.5, maxSeconds: 30 }),
+      (f) => progress.push(f),
+    );
+    expect(progress.at(-1)).toBe(1);
+    for (let i = 1; i < progress.length; i++) {
+      expect(progress[i]).toBeGreaterThanOrEqual(progress[i - 1]);
+    }
+  });
+});
+
+describe("encodeWav", () => {
+  it("writes a 16-bit PCM header and interleaved samples", () => {
+    const wav = encodeWav([new Float32Array([0, 1, -1]), new Float32Array([0.5, 0, 0])], SAMPLE_RATE);
+    const view = new DataView(wav);
+    const text = (offset: number) =>
+      String.fromCharCode(...new Uint8Array(wav, offset, 4));
+    expect(wav.byteLength).toBe(44 + 3 * 2 * 2);
+    expect([text(0), text(8), text(12), text(36)]).toEqual(["RIFF", "WAVE", "fmt ", "data"]);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(SAMPLE_RATE);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(view.getUint32(40, true)).toBe(12);
+    const samples = Array.from({ length: 6 }, (_, i) => view.getInt16(44 + i * 2, true));
+    expect(samples).toEqual([0, 16383, 32767, 0, -32768, 0]);
+  });
+});
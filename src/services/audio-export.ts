@@ -0,0 +1,213 @@
+/**
+ * Export a song rendered with its playback adjustments, for a co-caller or
+ * cuer who does not use CallerBuddy.
+ *
+ * The audio goes through the same processing as playback:
+ *  1. Pitch, tempo (or tempo ramp) and loop run through the
+ *     {@link SoundTouchRenderer} both audio engines use, driven block by block
+ *     on the main thread (it has no Web Audio dependencies). A patter export
+ *     covers minutes of audio, so rendering yields to the event loop every
+ *     {@link SLICE_MS} ms and reports progress.
+ *  2. The result plays through the engines' {@link Equalizer} and a gain node
+ *     in an OfflineAudioContext.
+ *  3. {@link encodeWav} writes 16-bit PCM.
+ *
+ * A looping song never ends by itself, so the export stops at
+ * {@link ExportSettings.maxSeconds} and fades out over the last
+ * {@link LOOP_FADE_OUT_SECONDS}.
+ *
+ * Usage:
+ *   const rendered = await renderAdjustedAudio(decoded, settings, (f) => show(f));
+ *   const channels = [rendered.getChannelData(0), rendered.getChannelData(1)];
+ *   await writeBinaryFile(root, "Song (adjusted).wav", encodeWav(channels, rendered.sampleRate));
+ */
+
+import type { StretchPreset } from "../models/song.js";
+import { Equalizer, type EqualizerGains } from "./audio-engine.js";
+import { log } from "./logger.js";
+import { SoundTouchRenderer } from "./soundtouch-renderer.js";
+
+/** Playback adjustments to bake into an export. */
+export interface ExportSettings {
+  /** Pitch shift in half-steps; fractional with a fine (cents) adjustment. */
+  pitchSemitones: number;
+  stretchPreset: StretchPreset;
+  /** Tempo ratio (1.0 = original); the ramp start when `tempoRamp` is set. */
+  tempoRatio: number;
+  tempoRamp: { from: number; to: number; seconds: number } | null;
+  /** Linear output gain (song volume × loudness leveling). */
+  gain: number;
+  equalizer: EqualizerGains;
+  /** Loop region in seconds of the source; end = 0 for no loop. */
+  loopStart: number;
+  loopEnd: number;
+  loopCrossfade: number;
+  /** Longest export in seconds of output; a looping song always reaches it. */
+  maxSeconds: number;
+}
+
+/** Fade applied when the export is cut off at maxSeconds. */
+const LOOP_FADE_OUT_SECONDS = 3;
+/** Frames pulled from the renderer per call. */
+const RENDER_BLOCK_FRAMES = 4096;
+/** Longest stretch of rendering before yielding to the UI. */
+const SLICE_MS = 50;
+
+/**
+ * Render `source` with `settings` applied. `onProgress` receives the
+ * fraction (0–1) of the pitch/tempo rendering done so far.
+ */
+export async function renderAdjustedAudio(
+  source: AudioBuffer,
+  settings: ExportSettings,
+  onProgress?: (fraction: number) => void,
+): Promise<AudioBuffer> {
+  const t0 = performance.now();
+  const input: Float32Array[] = [];
+  for (let c = 0; c < Math.min(source.numberOfChannels, 2); c++) {
+    input.push(source.getChannelData(c));
+  }
+  const { channels, truncated } = await renderSoundTouch(
+    input,
+    source.sampleRate,
+    settings,
+    onProgress,
+  );
+  const length = channels[0].length;
+
+  const context = new OfflineAudioContext(2, Math.max(1, length), source.sampleRate);
+  const stretched = context.createBuffer(2, Math.max(1, length), source.sampleRate);
+  stretched.copyToChannel(channels[0], 0);
+  stretched.copyToChannel(channels[1], 1);
+
+  const gainNode = context.createGain();
+  gainNode.gain.value = settings.gain;
+  if (truncated) {
+    const end = length / source.sampleRate;
+    const fadeStart = Math.max(0, end - LOOP_FADE_OUT_SECONDS);
+    gainNode.gain.setValueAtTime(settings.gain, fadeStart);
+    gainNode.gain.linearRampToValueAtTime(0, end);
+  }
+  gainNode.connect(context.destination);
+  const equalizer = new Equalizer(context, gainNode);
+  equalizer.set(settings.equalizer);
+
+  const node = context.createBufferSource();
+  node.buffer = stretched;
+  node.connect(equalizer.input);
+  node.start();
+  const rendered = await context.startRendering();
+  log.info(
+    `Export rendered: ${rendered.duration.toFixed(1)}s in ${(performance.now() - t0).toFixed(0)}ms` +
+      (truncated ? " (loop cut at max length)" : ""),
+  );
+  return rendered;
+}
+
+/**
+ * Run planar channels through the SoundTouch renderer with the pitch, tempo
+ * and loop from `settings` (exported for tests). Always returns two channels.
+ * `truncated` is true when the output was cut at `maxSeconds`. Progress is
+ * estimated from the expected output length (the source at the start tempo,
+ * or `maxSeconds` for a loop).
+ */
+export async function renderSoundTouch(
+  input: Float32Array[],
+  sampleRate: number,
+  settings: ExportSettings,
+  onProgress?: (fraction: number) => void,
+): Promise<{
+  channels: [Float32Array<ArrayBuffer>, Float32Array<ArrayBuffer>];
+  truncated: boolean;
+}> {
+  let ended = false;
+  const renderer = new SoundTouchRenderer(sampleRate, (e) => {
+    if (e.type === "ended") ended = true;
+  });
+  renderer.handle({ type: "load", channels: input });
+  renderer.handle({ type: "stretch", preset: settings.stretchPreset });
+  renderer.handle({ type: "pitch", semitones: settings.pitchSemitones });
+  renderer.handle({ type: "tempo", ratio: settings.tempoRatio });
+  if (settings.tempoRamp) renderer.handle({ type: "tempoRamp", ...settings.tempoRamp });
+  renderer.handle({
+    type: "loop",
+    start: settings.loopStart,
+    end: settings.loopEnd,
+    crossfade: settings.loopCrossfade,
+  });
+  renderer.handle({ type: "play" });
+
+  const maxFrames = Math.floor(settings.maxSeconds * sampleRate);
+  const looping = settings.loopEnd > settings.loopStart;
+  const expectedFrames = looping
+    ? maxFrames
+    : Math.min(maxFrames, (input[0]?.length ?? 0) / settings.tempoRatio);
+  const left = new Float32Array(RENDER_BLOCK_FRAMES);
+  const right = new Float32Array(RENDER_BLOCK_FRAMES);
+  const blocks: [Float32Array, Float32Array][] = [];
+  let frames = 0;
+  let sliceStart = performance.now();
+  while (!ended && frames < maxFrames) {
+    renderer.render(left, right);
+    blocks.push([left.slice(), right.slice()]);
+    frames += RENDER_BLOCK_FRAMES;
+    if (performance.now() - sliceStart > SLICE_MS) {
+      onProgress?.(Math.min(1, frames / Math.max(1, expectedFrames)));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      sliceStart = performance.now();
+    }
+  }
+  onProgress?.(1);
+
+  const length = Math.min(frames, maxFrames);
+  const out: [Float32Array<ArrayBuffer>, Float32Array<ArrayBuffer>] = [new Float32Array(length), new Float32Array(length)];
+  blocks.forEach(([l, r], i) => {
+    const offset = i * RENDER_BLOCK_FRAMES;
+    const n = Math.min(RENDER_BLOCK_FRAMES, length - offset);
+    out[0].set(l.subarray(0, n), offset);
+    out[1].set(r.subarray(0, n), offset);
+  });
+  if (!ended) return { channels: out, truncated: true };
+
+  // The renderer pads the block where the song ended with silence.
+  let end = length;
+  while (end > 0 && out[0][end - 1] === 0 && out[1][end - 1] === 0) end--;
+  return { channels: [out[0].slice(0, end), out[1].slice(0, end)], truncated: false };
+}
+
+/** Encode planar channels as a 16-bit PCM WAV file. */
+export function encodeWav(channels: Float32Array[], sampleRate: number): ArrayBuffer {
+  const channelCount = channels.length;
+  const frames = channels[0]?.length ?? 0;
+  const blockAlign = channelCount * 2;
+  const dataBytes = frames * blockAlign;
+  const out = new ArrayBuffer(44 + dataBytes);
+  const view = new DataView(out);
+  const ascii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  ascii(0, "RIFF");
+  view.setUint32(4, 36 + dataBytes, true);
+  ascii(8, "WAVE");
+  ascii(12, "fmt ");
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channelCount, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true); // bits per sample
+  ascii(36, "data");
+  view.setUint32(40, dataBytes, true);
+
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channelCount; c++) {
+      const s = Math.max(-1, Math.min(1, channels[c][i]));
+      view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  loadSavedAudioOutput,
+  resolveSavedAudioOutput,
+  saveAudioOutput,
+} from "./audio-output.js";
+
+const usb = { deviceId: "usb-id", label: "USB Audio CODEC" };
+const speakers = { deviceId: "spk-id", label: "Built-in Speakers" };
+
+describe("resolveSavedAudioOutput", () => {
+  it("uses the system default when nothing is saved", () => {
+    expect(resolveSavedAudioOutput([usb, speakers], null)).toBeNull();
+  });
+
+  it("finds the saved device by id", () => {
+    expect(resolveSavedAudioOutput([speakers, usb], usb)).toBe(usb);
+  });
+
+  it("finds the saved device by label when the browser issued a new id", () => {
+    const renamed = { deviceId: "new-id", label: usb.label };
+    expect(resolveSavedAudioOutput([speakers, renamed], usb)).toBe(renamed);
+  });
+
+  it("falls back to the default when the saved device is not connected", () => {
+    expect(resolveSavedAudioOutput([speakers], usb)).toBeNull();
+    expect(resolveSavedAudioOutput([{ deviceId: "x", label: "" }], { deviceId: "y", label: "" }))
+      .toBeNull();
+  });
+});
+
+describe("saveAudioOutput / loadSavedAudioOutput", () => {
+  afterEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("round-trips the choice and clears it for the system default", () => {
+    saveAudioOutput(usb);
+    expect(loadSavedAudioOutput()).toEqual(usb);
+    saveAudioOutput(null);
+    expect(loadSavedAudioOutput()).toBeNull();
+  });
+
+  it("ignores malformed stored values", () => {
+    window.localStorage.setItem("cbAudioOutputDevice", "{not json");
+    expect(loadSavedAudioOutput()).toBeNull();
+    window.localStorage.setItem("cbAudioOutputDevice", JSON.stringify({ label: "x" }));
+    expect(loadSavedAudioOutput()).toBeNull();
+  });
+});
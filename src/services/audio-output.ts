@@ -0,0 +1,113 @@
+/**
+ * Audio output device selection (e.g. built-in speakers vs. a USB interface
+ * to the hall sound system).
+ *
+ * The choice is remembered per device in localStorage rather than in
+ * CallerBuddySettings.json: device ids only mean something on the machine that
+ * reported them, and CallerBuddyRoot is often shared between devices via cloud
+ * storage. The label is stored too, because browsers may issue a new id for
+ * the same device (e.g. after clearing site data).
+ *
+ * Usage:
+ *   const device = resolveSavedAudioOutput(await listAudioOutputs(), loadSavedAudioOutput());
+ *   await engine.setOutputDevice(device?.deviceId ?? "");
+ */
+
+import { log } from "./logger.js";
+
+/** One output device as reported by enumerateDevices(). */
+export interface AudioOutputDevice {
+  deviceId: string;
+  /** Empty until the page has media permission (see {@link revealAudioOutputLabels}). */
+  label: string;
+}
+
+const STORAGE_KEY = "cbAudioOutputDevice";
+
+/** True when the browser can route an AudioContext to a chosen device. */
+export function isAudioOutputSelectionSupported(): boolean {
+  return (
+    typeof AudioContext !== "undefined" &&
+    "setSinkId" in AudioContext.prototype &&
+    typeof navigator !== "undefined" &&
+    !!navigator.mediaDevices?.enumerateDevices
+  );
+}
+
+/** Output devices other than the "default"/"communications" aliases. */
+export async function listAudioOutputs(): Promise<AudioOutputDevice[]> {
+  if (!isAudioOutputSelectionSupported()) return [];
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      .filter(
+        (d) =>
+          d.kind === "audiooutput" &&
+          d.deviceId !== "" &&
+          d.deviceId !== "default" &&
+          d.deviceId !== "communications",
+      )
+      .map((d) => ({ deviceId: d.deviceId, label: d.label }));
+  } catch (err) {
+    log.warn("listAudioOutputs: enumerateDevices failed:", err);
+    return [];
+  }
+}
+
+/**
+ * Browsers hide device names until the page has had media permission. Ask for
+ * the microphone once (the stream is stopped immediately) so the list can show
+ * names. Returns false when the user declines.
+ */
+export async function revealAudioOutputLabels(): Promise<boolean> {
+  try {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    for (const track of stream.getTracks()) track.stop();
+    return true;
+  } catch (err) {
+    log.info("revealAudioOutputLabels: permission not granted:", err);
+    return false;
+  }
+}
+
+/** The output chosen on this device, or null for the system default. */
+export function loadSavedAudioOutput(): AudioOutputDevice | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const o = JSON.parse(raw) as Record<string, unknown>;
+    if (typeof o.deviceId !== "string" || !o.deviceId) return null;
+    return { deviceId: o.deviceId, label: typeof o.label === "string" ? o.label : "" };
+  } catch {
+    return null;
+  }
+}
+
+/** Remember the chosen output on this device (null = system default). */
+export function saveAudioOutput(device: AudioOutputDevice | null): void {
+  try {
+    if (device) {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(device));
+    } else {
+      window.localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (err) {
+    log.warn("saveAudioOutput: localStorage unavailable:", err);
+  }
+}
+
+/**
+ * Find the saved device among those currently present: by id, else by label.
+ * Returns null (use the system default) when it is not connected.
+ */
+export function resolveSavedAudioOutput(
+  available: AudioOutputDevice[],
+  saved: AudioOutputDevice | null,
+): AudioOutputDevice | null {
+  if (!saved) return null;
+  return (
+    available.find((d) => d.deviceId === saved.deviceId) ??
+    (saved.label ? available.find((d) => d.label === saved.label) : undefined) ??
+    null
+  );
+}
@@ -5,7 +5,14 @@ vi.mock("web-audio-beat-detector", () => ({
   guess: vi.fn(),
 }));
 
-import { detectBPM, disposeDetectionContext } from "./bpm-detector.js";
+import {
+  detectBeat,
+  detectBPM,
+  disposeDetectionContext,
+  summarizeSections,
+  tempoAgreement,
+  tempoSectionStarts,
+} from "./bpm-detector.js";
 import { guess } from "web-audio-beat-detector";
 
 // ---------------------------------------------------------------------------
@@ -56,16 +63,16 @@ describe("detectBPM", () => {
     expect(guess).toHaveBeenCalledOnce();
   });
 
-  it("analyzes middle 30s for tracks longer than 45s", async () => {
+  it("analyzes 30s sections spread over tracks longer than 45s", async () => {
     const buffer = makeFakeAudioBuffer(180);
     fakeDecodeAudioData.mockResolvedValue(buffer);
     vi.mocked(guess).mockResolvedValue({ bpm: 124, offset: 0 });
 
     await detectBPM(new ArrayBuffer(100));
 
-    const [, offset, length] = vi.mocked(guess).mock.calls[0];
-    expect(offset).toBe(Math.floor(180 * 0.25));
-    expect(length).toBe(30);
+    const calls = vi.mocked(guess).mock.calls;
+    expect(calls.map(([, offset]) => offset)).toEqual([0, 30, 60, 90, 120, 150]);
+    expect(calls.every(([, , length]) => length === 30)).toBe(true);
   });
 
   it("uses full duration for short tracks", async () => {
@@ -107,6 +114,86 @@ describe("detectBPM", () => {
   });
 });
 
+describe("detectBeat", () => {
+  it("reports the beat phase relative to the start of the file", async () => {
+    const buffer = makeFakeAudioBuffer(180);
+    fakeDecodeAudioData.mockResolvedValue(buffer);
+    // 120 BPM: beats every 0.5 s; first beat 0.2 s into the window at 45 s.
+    vi.mocked(guess).mockResolvedValue({ bpm: 120, offset: 0.2 });
+
+    const grid = await detectBeat(new ArrayBuffer(100));
+    expect(grid?.bpm).toBe(120);
+    expect(grid?.offset).toBeCloseTo(0.2, 6);
+  });
+
+  it("returns null when detection fails", async () => {
+    fakeDecodeAudioData.mockRejectedValue(new Error("decode error"));
+    expect(await detectBeat(new ArrayBuffer(100))).toBeNull();
+  });
+
+  it("reports the tempo map and confidence when sections disagree", async () => {
+    fakeDecodeAudioData.mockResolvedValue(makeFakeAudioBuffer(120));
+    vi.mocked(guess)
+      .mockRejectedValueOnce(new Error("no beats"))
+      .mockResolvedValueOnce({ bpm: 126, offset: 0.1 })
+      .mockResolvedValueOnce({ bpm: 126, offset: 0.1 })
+      .mockResolvedValueOnce({ bpm: 132, offset: 0.1 });
+
+    const grid = await detectBeat(new ArrayBuffer(100));
+    expect(grid?.bpm).toBe(126);
+    expect(grid?.confidence).toBe(0.5);
+    expect(grid?.tempoMap).toEqual([
+      { time: 0, bpm: 0 },
+      { time: 30, bpm: 126 },
+      { time: 60, bpm: 126 },
+      { time: 90, bpm: 132 },
+    ]);
+  });
+});
+
+describe("tempoSectionStarts", () => {
+  it("analyzes short tracks whole and spreads sections over long ones", () => {
+    expect(tempoSectionStarts(40)).toEqual([0]);
+    expect(tempoSectionStarts(50)).toEqual([12]);
+    expect(tempoSectionStarts(90)).toEqual([0, 30, 60]);
+    expect(tempoSectionStarts(600)).toHaveLength(8);
+    expect(tempoSectionStarts(600).at(-1)).toBe(570);
+  });
+});
+
+describe("summarizeSections", () => {
+  it("picks the tempo most sections agree on, within a BPM", () => {
+    const grid = summarizeSections(
+      [
+        { time: 0, bpm: 98, offset: 0 },
+        { time: 30, bpm: 128, offset: 30.2 },
+        { time: 60, bpm: 127, offset: 60.3 },
+        { time: 90, bpm: 128, offset: 90.1 },
+      ],
+      120,
+    );
+    expect(grid?.bpm).toBe(128);
+    expect(grid?.offset).toBeCloseTo(30.2 % (60 / 128), 6);
+    expect(grid?.confidence).toBe(0.75);
+  });
+
+  it("is null when no section found a beat", () => {
+    expect(summarizeSections([{ time: 0, bpm: 0, offset: 0 }], 20)).toBeNull();
+  });
+});
+
+describe("tempoAgreement", () => {
+  it("counts sections without a beat as disagreeing", () => {
+    const map = [
+      { time: 0, bpm: 0 },
+      { time: 30, bpm: 124 },
+    ];
+    expect(tempoAgreement(map, 124)).toBe(0.5);
+    expect(tempoAgreement(map, 62)).toBe(0);
+    expect(tempoAgreement([], 124)).toBe(0);
+  });
+});
+
 describe("disposeDetectionContext", () => {
   it("closes the detection context", async () => {
     const buffer = makeFakeAudioBuffer(10);
@@ -9,6 +9,10 @@
  * detector with a 90–170 BPM window to capture the fundamental beat while
  * avoiding octave errors (detecting at half or double the true tempo).
  *
+ * The detector is run on several sections spread over the track. The BPM most
+ * sections agree on wins, the per-section results become the song's tempo map,
+ * and the share of agreeing sections is the confidence.
+ *
  * Usage:
  *   const bpm = await detectBPM(arrayBuffer);
  *   if (bpm > 0) song.originalTempo = bpm;
@@ -18,6 +22,7 @@
  */
 
 import { guess } from "web-audio-beat-detector";
+import type { TempoSection } from "../models/song.js";
 import { log } from "./logger.js";
 
 /**
@@ -28,6 +33,15 @@ import { log } from "./logger.js";
 const MIN_TEMPO = 90;
 const MAX_TEMPO = 170;
 
+/** Length of each analyzed section, in seconds. */
+const SECTION_SECONDS = 30;
+
+/** Most sections analyzed per track (long tracks get sparser sections). */
+const MAX_SECTIONS = 8;
+
+/** Section tempos this close (BPM) count as the same tempo. */
+const SAME_TEMPO_BPM = 1;
+
 /**
  * We decode audio in a one-shot AudioContext that is closed after use.
  * This avoids interference with the playback AudioContext. A single
@@ -42,6 +56,127 @@ function getDetectionContext(): AudioContext {
   return detectionContext;
 }
 
+/**
+ * Decode raw audio bytes in the shared detection context (not the playback
+ * context). The input is copied, so the caller's buffer stays usable.
+ */
+export async function decodeForAnalysis(audioData: ArrayBuffer): Promise<AudioBuffer> {
+  const ctx = getDetectionContext();
+  // decodeAudioData consumes the ArrayBuffer, so we must copy it
+  const copy = audioData.slice(0);
+  return ctx.decodeAudioData(copy);
+}
+
+/** Average all channels of a decoded track into one. */
+export function downmix(buffer: AudioBuffer): Float32Array {
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < mono.length; i++) mono[i] += data[i];
+  }
+  if (buffer.numberOfChannels > 1) {
+    for (let i = 0; i < mono.length; i++) mono[i] /= buffer.numberOfChannels;
+  }
+  return mono;
+}
+
+/** Tempo plus beat phase of a decoded track. */
+export interface BeatGrid {
+  /** Detected tempo (rounded integer BPM). */
+  bpm: number;
+  /** Time of some beat, in seconds from the start of the file, in [0, 60/bpm). */
+  offset: number;
+}
+
+/** A beat grid plus how the tempo varies over the track. */
+export interface TempoAnalysis extends BeatGrid {
+  /** Share (0–1) of the analyzed sections that agree with `bpm`. */
+  confidence: number;
+  /** Tempo of each analyzed section (bpm 0 = no beat found there). */
+  tempoMap: TempoSection[];
+}
+
+/** Detector result for one analyzed section. */
+export interface SectionGuess extends TempoSection {
+  /** Time of some beat, in seconds from the start of the file (unused when bpm is 0). */
+  offset: number;
+}
+
+/**
+ * Start times of the sections to analyze. Short tracks are analyzed whole;
+ * longer ones get up to {@link MAX_SECTIONS} sections spread from the start
+ * to the end, so a slow intro or a tempo change shows up in the map.
+ */
+export function tempoSectionStarts(duration: number): number[] {
+  if (duration <= 45) return [0];
+  const count = Math.min(MAX_SECTIONS, Math.floor(duration / SECTION_SECONDS));
+  if (count <= 1) return [Math.floor(duration * 0.25)];
+  const step = (duration - SECTION_SECONDS) / (count - 1);
+  return Array.from({ length: count }, (_, i) => Math.floor(i * step));
+}
+
+/** Share of the sections whose tempo is within a BPM of `bpm`. */
+export function tempoAgreement(tempoMap: TempoSection[], bpm: number): number {
+  if (tempoMap.length === 0 || bpm <= 0) return 0;
+  const agreeing = tempoMap.filter((s) => s.bpm > 0 && Math.abs(s.bpm - bpm) <= SAME_TEMPO_BPM);
+  return agreeing.length / tempoMap.length;
+}
+
+/**
+ * Combine per-section results into one beat grid. The BPM is the one most
+ * sections agree with; ties go to the section nearest a quarter of the way
+ * in, which is where the beat is usually steadiest. The beat phase comes
+ * from that same section. Null when no section had a beat.
+ */
+export function summarizeSections(sections: SectionGuess[], duration: number): TempoAnalysis | null {
+  const found = sections.filter((s) => s.bpm > 0);
+  if (found.length === 0) return null;
+  const steadyAt = duration * 0.25;
+  let best = found[0];
+  let bestAgreement = -1;
+  for (const s of found) {
+    const agreement = tempoAgreement(sections, s.bpm);
+    const nearer = Math.abs(s.time - steadyAt) < Math.abs(best.time - steadyAt);
+    if (agreement > bestAgreement || (agreement === bestAgreement && nearer)) {
+      best = s;
+      bestAgreement = agreement;
+    }
+  }
+  return {
+    bpm: best.bpm,
+    offset: best.offset % (60 / best.bpm),
+    confidence: bestAgreement,
+    tempoMap: sections.map(({ time, bpm }) => ({ time, bpm })),
+  };
+}
+
+/**
+ * Estimate tempo, beat phase and tempo map of a decoded track. Throws when
+ * no section has a detectable beat (see web-audio-beat-detector `guess`).
+ */
+export async function detectBeatGrid(audioBuffer: AudioBuffer): Promise<TempoAnalysis> {
+  const duration = audioBuffer.duration;
+  const sections: SectionGuess[] = [];
+  let lastError: unknown = null;
+  for (const start of tempoSectionStarts(duration)) {
+    const length = duration <= 45 ? duration : Math.min(SECTION_SECONDS, duration - start);
+    try {
+      const result = await guess(audioBuffer, start, length, {
+        minTempo: MIN_TEMPO,
+        maxTempo: MAX_TEMPO,
+      });
+      // guess() reports the first beat relative to the analyzed window.
+      sections.push({ time: start, bpm: result.bpm, offset: start + result.offset });
+    } catch (err) {
+      sections.push({ time: start, bpm: 0, offset: 0 });
+      lastError = err;
+    }
+  }
+  const grid = summarizeSections(sections, duration);
+  if (!grid) throw lastError ?? new Error("No beat found");
+  return grid;
+}
+
 /**
  * Detect the BPM of an audio file from its raw binary data.
  *
@@ -51,35 +186,25 @@ function getDetectionContext(): AudioContext {
  * Postcondition: return value is 0 (failed) or a positive integer.
  */
 export async function detectBPM(audioData: ArrayBuffer): Promise<number> {
-  try {
-    const ctx = getDetectionContext();
-    // decodeAudioData consumes the ArrayBuffer, so we must copy it
-    const copy = audioData.slice(0);
-    const audioBuffer = await ctx.decodeAudioData(copy);
-
-    // Analyze a portion of the track for speed. The middle 30 seconds
-    // tends to have the steadiest beat (avoids intros/outros with
-    // tempo changes or silence).
-    const duration = audioBuffer.duration;
-    let offset = 0;
-    let analysisLength = duration;
-    if (duration > 45) {
-      // Use 30 seconds starting from 25% into the track
-      offset = Math.floor(duration * 0.25);
-      analysisLength = 30;
-    }
-
-    const result = await guess(audioBuffer, offset, analysisLength, {
-      minTempo: MIN_TEMPO,
-      maxTempo: MAX_TEMPO,
-    });
+  return (await detectBeat(audioData))?.bpm ?? 0;
+}
 
-    const bpm = result.bpm;
-    log.info(`BPM detected: ${bpm} (offset: ${result.offset.toFixed(2)}s)`);
-    return bpm;
+/**
+ * Detect tempo, beat phase and tempo map of an audio file from its raw binary data.
+ * Returns null if detection failed.
+ */
+export async function detectBeat(audioData: ArrayBuffer): Promise<TempoAnalysis | null> {
+  try {
+    const audioBuffer = await decodeForAnalysis(audioData);
+    const grid = await detectBeatGrid(audioBuffer);
+    log.info(
+      `BPM detected: ${grid.bpm} (offset: ${grid.offset.toFixed(2)}s, ` +
+        `confidence: ${Math.round(grid.confidence * 100)}%)`,
+    );
+    return grid;
   } catch (err) {
     log.warn("BPM detection failed:", err);
-    return 0;
+    return null;
   }
 }
 
@@ -16,6 +16,11 @@ import { log, assert } from "./logger.js";
 export const DIR_PICKER_ROOT_ID = "callerbuddy-root";
 /** Directory-picker id for importing a song folder (separate browser history). */
 export const DIR_PICKER_IMPORT_ID = "callerbuddy-import";
+/**
+ * Folder in CallerBuddyRoot for derived data (e.g. waveform overviews). Safe
+ * to delete; not a playlist folder, so folder listings skip it.
+ */
+export const CACHE_DIR = "CallerBuddyCache";
 
 // ---------------------------------------------------------------------------
 // IndexedDB helpers for persisting the FileSystemDirectoryHandle
@@ -445,7 +450,7 @@ async function collectDirectories(
 ): Promise<void> {
   const entries = await listDirectory(dir);
   for (const entry of entries) {
-    if (entry.kind !== "directory") continue;
+    if (entry.kind !== "directory" || entry.name === CACHE_DIR) continue;
     try {
       const handle = await dir.getDirectoryHandle(entry.name);
       const relPath = prefix ? `${prefix}/${entry.name}` : entry.name;
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { estimateKey } from "./key-detector.js";
+
+const SAMPLE_RATE = 22050;
+
+/** MIDI note number → Hz. */
+const hz = (midi: number) => 440 * 2 ** ((midi - 69) / 12);
+
+/** Each chord (MIDI notes) held for `seconds`, the whole progression repeated. */
+function progression(chords: number[][], seconds: number, repeats: number): Float32Array {
+  const chordLen = Math.round(seconds * SAMPLE_RATE);
+  const out = new Float32Array(chordLen * chords.length * repeats);
+  for (let r = 0; r < repeats; r++) {
+    chords.forEach((notes, c) => {
+      const offset = (r * chords.length + c) * chordLen;
+      for (let i = 0; i < chordLen; i++) {
+        let v = 0;
+        for (const n of notes) v += Math.sin((2 * Math.PI * hz(n) * i) / SAMPLE_RATE);
+        out[offset + i] = (0.2 * v) / notes.length;
+      }
+    });
+  }
+  return out;
+}
+
+describe("estimateKey", () => {
+  it("finds a major key from a I–IV–V–I progression", () => {
+    // G (G B D), C (C E G), D (D F# A), G — with the bass note an octave down.
+    const g = progression(
+      [
+        [43, 55, 59, 62],
+        [48, 60, 64, 67],
+        [50, 62, 66, 69],
+        [43, 55, 59, 62],
+      ],
+      1.5,
+      3,
+    );
+    expect(estimateKey(g, SAMPLE_RATE)).toBe("G");
+  });
+
+  it("finds a minor key from an i–iv–V–i progression", () => {
+    // Am (A C E), Dm (D F A), E (E G# B), Am.
+    const am = progression(
+      [
+        [45, 57, 60, 64],
+        [50, 62, 65, 69],
+        [40, 52, 56, 59],
+        [45, 57, 60, 64],
+      ],
+      1.5,
+      3,
+    );
+    expect(estimateKey(am, SAMPLE_RATE)).toBe("Am");
+  });
+
+  it("returns an empty string for silence", () => {
+    expect(estimateKey(new Float32Array(SAMPLE_RATE * 3), SAMPLE_RATE)).toBe("");
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Musical key detection service.
+ *
+ * Builds a chromagram (energy per pitch class, C through B) of the whole
+ * track and correlates it with the Krumhansl–Kessler key profiles for all 24
+ * major and minor keys; the best match is the key. The analysis:
+ *
+ *  1. Downmix and decimate to about {@link ANALYSIS_RATE} Hz (everything
+ *     above {@link MAX_FREQ} is ignored anyway).
+ *  2. Hann-windowed FFT frames; each bin between {@link MIN_FREQ} and
+ *     {@link MAX_FREQ} adds its magnitude to the pitch class it is nearest to.
+ *     Frames are normalized first so loud passages do not dominate.
+ *  3. Pearson correlation of the summed chroma with each rotated profile.
+ *
+ * Like BPM detection this runs in the background per folder (see CallerBuddy
+ * `analyzeSongs`), and the result is stored as a key name (see
+ * musical-key.ts).
+ *
+ * Usage:
+ *   const key = detectKey(await decodeForAnalysis(arrayBuffer));
+ *   if (key) song.originalKey = key;
+ */
+
+import { downmix } from "./bpm-detector.js";
+import { keyName } from "../utils/musical-key.js";
+import { log } from "./logger.js";
+
+/** Target sample rate after decimation. */
+const ANALYSIS_RATE = 11025;
+/** FFT size at the analysis rate (~0.37 s, ~2.7 Hz per bin). */
+const FRAME_SIZE = 4096;
+/** Lowest frequency counted (below this, bins are too wide for semitones). */
+const MIN_FREQ = 65;
+/** Highest frequency counted (above this, harmonics blur the chroma). */
+const MAX_FREQ = 2000;
+/** Frames quieter than this RMS are skipped (silence, fades). */
+const SILENCE_RMS = 1e-3;
+
+/** Krumhansl–Kessler probe-tone profiles, tonic first. */
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+/**
+ * Detect the key of a decoded track.
+ *
+ * @returns A key name such as "G" or "Em", or "" if detection failed.
+ */
+export function detectKey(audioBuffer: AudioBuffer): string {
+  const key = estimateKey(downmix(audioBuffer), audioBuffer.sampleRate);
+  log.info(`Key detected: ${key || "(none)"}`);
+  return key;
+}
+
+/** Key of mono samples (exported for tests); "" when there is no tonal content. */
+export function estimateKey(samples: Float32Array, sampleRate: number): string {
+  const chroma = chromagram(samples, sampleRate);
+  if (chroma.every((v) => v === 0)) return "";
+
+  let best = { score: -Infinity, tonic: 0, minor: false };
+  for (let tonic = 0; tonic < 12; tonic++) {
+    for (const minor of [false, true]) {
+      const profile = minor ? MINOR_PROFILE : MAJOR_PROFILE;
+      const rotated = chroma.map((_, pc) => profile[(pc - tonic + 12) % 12]);
+      const score = correlation(chroma, rotated);
+      if (score > best.score) best = { score, tonic, minor };
+    }
+  }
+  return keyName(best);
+}
+
+// -- helpers ----------------------------------------------------------------
+
+/** Summed, per-frame-normalized energy for each pitch class (index 0 = C). */
+function chromagram(samples: Float32Array, sampleRate: number): number[] {
+  const factor = Math.max(1, Math.floor(sampleRate / ANALYSIS_RATE));
+  const rate = sampleRate / factor;
+  // Averaging decimator: crude, but the chroma band stops well below Nyquist.
+  const signal = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < signal.length; i++) {
+    let sum = 0;
+    for (let k = 0; k < factor; k++) sum += samples[i * factor + k];
+    signal[i] = sum / factor;
+  }
+
+  const binPitchClass = new Int8Array(FRAME_SIZE / 2).fill(-1);
+  for (let bin = 1; bin < FRAME_SIZE / 2; bin++) {
+    const freq = (bin * rate) / FRAME_SIZE;
+    if (freq < MIN_FREQ || freq > MAX_FREQ) continue;
+    const midi = Math.round(69 + 12 * Math.log2(freq / 440));
+    binPitchClass[bin] = midi % 12;
+  }
+
+  const window = new Float32Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1));
+  }
+
+  const chroma = new Array<number>(12).fill(0);
+  const re = new Float64Array(FRAME_SIZE);
+  const im = new Float64Array(FRAME_SIZE);
+  const frame = new Array<number>(12);
+  for (let start = 0; start + FRAME_SIZE <= signal.length; start += FRAME_SIZE) {
+    let energy = 0;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const x = signal[start + i];
+      energy += x * x;
+      re[i] = x * window[i];
+      im[i] = 0;
+    }
+    if (Math.sqrt(energy / FRAME_SIZE) < SILENCE_RMS) continue;
+
+    fft(re, im);
+    frame.fill(0);
+    for (let bin = 1; bin < FRAME_SIZE / 2; bin++) {
+      const pc = binPitchClass[bin];
+      if (pc >= 0) frame[pc] += Math.hypot(re[bin], im[bin]);
+    }
+    const peak = Math.max(...frame);
+    if (peak > 0) for (let pc = 0; pc < 12; pc++) chroma[pc] += frame[pc] / peak;
+  }
+  return chroma;
+}
+
+function correlation(a: number[], b: number[]): number {
+  const meanA = a.reduce((s, v) => s + v, 0) / a.length;
+  const meanB = b.reduce((s, v) => s + v, 0) / b.length;
+  let num = 0;
+  let denA = 0;
+  let denB = 0;
+  for (let i = 0; i < a.length; i++) {
+    num += (a[i] - meanA) * (b[i] - meanB);
+    denA += (a[i] - meanA) ** 2;
+    denB += (b[i] - meanB) ** 2;
+  }
+  return denA > 0 && denB > 0 ? num / Math.sqrt(denA * denB) : 0;
+}
+
+/** In-place iterative radix-2 FFT; length must be a power of two. */
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const aRe = re[i + k];
+        const aIm = im[i + k];
+        const bRe = re[i + k + len / 2] * curRe - im[i + k + len / 2] * curIm;
+        const bIm = re[i + k + len / 2] * curIm + im[i + k + len / 2] * curRe;
+        re[i + k] = aRe + bRe;
+        im[i + k] = aIm + bIm;
+        re[i + k + len / 2] = aRe - bRe;
+        im[i + k + len / 2] = aIm - bIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
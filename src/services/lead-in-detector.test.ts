@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { findLeadIn } from "./lead-in-detector.js";
+
+const SAMPLE_RATE = 8000;
+
+/** `silence` seconds of low noise (peak `noise`), then `music` seconds of a 440 Hz tone. */
+function track(silence: number, music: number, noise = 0): Float32Array {
+  const start = Math.round(silence * SAMPLE_RATE);
+  const out = new Float32Array(start + Math.round(music * SAMPLE_RATE));
+  for (let i = 0; i < out.length; i++) {
+    out[i] = i < start
+      ? noise * Math.sin(i * 1.7)
+      : 0.5 * Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE);
+  }
+  return out;
+}
+
+describe("findLeadIn", () => {
+  it("finds the silence before the music, less a short pre-roll", () => {
+    expect(findLeadIn([track(2, 5)], SAMPLE_RATE)).toBeCloseTo(1.9, 1);
+  });
+
+  it("treats studio noise well below the music as silence", () => {
+    expect(findLeadIn([track(1.5, 5, 0.003)], SAMPLE_RATE)).toBeCloseTo(1.4, 1);
+  });
+
+  it("starts when either channel has music", () => {
+    const left = track(3, 5);
+    const right = track(1, 7);
+    expect(findLeadIn([left, right], SAMPLE_RATE)).toBeCloseTo(0.9, 1);
+  });
+
+  it("returns 0 when the music starts right away", () => {
+    expect(findLeadIn([track(0, 5)], SAMPLE_RATE)).toBe(0);
+    expect(findLeadIn([track(0.2, 5)], SAMPLE_RATE)).toBe(0);
+  });
+
+  it("returns 0 for a long quiet start and for silence", () => {
+    expect(findLeadIn([track(15, 5)], SAMPLE_RATE)).toBe(0);
+    expect(findLeadIn([new Float32Array(SAMPLE_RATE * 3)], SAMPLE_RATE)).toBe(0);
+    expect(findLeadIn([new Float32Array(0)], SAMPLE_RATE)).toBe(0);
+  });
+});
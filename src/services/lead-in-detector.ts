@@ -0,0 +1,63 @@
+/**
+ * Lead-in silence detection.
+ *
+ * Many tracks start with a second or more of silence or studio noise before
+ * the music. This finds where the music starts so playback can begin there
+ * (see {@link Song.leadIn} and {@link Song.skipLeadIn}).
+ *
+ * The track is cut into {@link WINDOW_SECONDS} windows. The music starts at
+ * the first window whose RMS is within {@link THRESHOLD_DB} of the loudest
+ * window (and above {@link ABSOLUTE_FLOOR}), so steady hiss or hum well below
+ * the music counts as silence. Playback starts {@link PRE_ROLL_SECONDS} before
+ * that so the first attack is not clipped.
+ *
+ * Usage:
+ *   song.leadIn = detectLeadIn(audioBuffer);
+ */
+
+/** Analysis window length. */
+const WINDOW_SECONDS = 0.05;
+/** Music starts at the first window within this many dB of the loudest one. */
+const THRESHOLD_DB = -36;
+/** RMS that always counts as silence (about −60 dBFS). */
+const ABSOLUTE_FLOOR = 1e-3;
+/** Start this much before the detected onset. */
+const PRE_ROLL_SECONDS = 0.1;
+/** Shorter lead-ins are not worth skipping. */
+const MIN_LEAD_IN_SECONDS = 0.3;
+/** Longer "lead-ins" are more likely a quiet intro than silence; not skipped. */
+const MAX_LEAD_IN_SECONDS = 10;
+
+/** Seconds of silence before the music in a decoded song; 0 when there is none to skip. */
+export function detectLeadIn(buffer: AudioBuffer): number {
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) channels.push(buffer.getChannelData(c));
+  return findLeadIn(channels, buffer.sampleRate);
+}
+
+/** Lead-in of planar channels (exported for tests), rounded to 10 ms. */
+export function findLeadIn(channels: Float32Array[], sampleRate: number): number {
+  const length = channels[0]?.length ?? 0;
+  const windowFrames = Math.max(1, Math.round(WINDOW_SECONDS * sampleRate));
+  const windows = Math.floor(length / windowFrames);
+  if (windows === 0) return 0;
+
+  const rms = new Float32Array(windows);
+  let peak = 0;
+  for (let w = 0; w < windows; w++) {
+    let sum = 0;
+    for (const ch of channels) {
+      for (let i = w * windowFrames; i < (w + 1) * windowFrames; i++) sum += ch[i] * ch[i];
+    }
+    rms[w] = Math.sqrt(sum / (windowFrames * channels.length));
+    if (rms[w] > peak) peak = rms[w];
+  }
+
+  const threshold = Math.max(ABSOLUTE_FLOOR, peak * 10 ** (THRESHOLD_DB / 20));
+  const onset = rms.findIndex((v) => v >= threshold);
+  if (onset < 0) return 0;
+
+  const leadIn = Math.max(0, (onset * windowFrames) / sampleRate - PRE_ROLL_SECONDS);
+  if (leadIn < MIN_LEAD_IN_SECONDS || leadIn > MAX_LEAD_IN_SECONDS) return 0;
+  return Math.round(leadIn * 100) / 100;
+}
@@ -0,0 +1,69 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { findLoopSuggestions, type LoopSuggestion } from "./loop-suggester.js";
+
+const SAMPLE_RATE = 8000;
+const BPM = 120;
+const BEAT = 60 / BPM;
+
+/** Deterministic pseudo-random numbers in [0, 1). */
+function rng(seed: number): () => number {
+  let s = seed;
+  return () => {
+    s = (s * 1103515245 + 12345) % 2147483648;
+    return s / 2147483648;
+  };
+}
+
+/**
+ * Synthetic patter track: a decaying tone burst on every beat whose loudness
+ * follows a 32-beat pattern, preceded by an intro that does not repeat.
+ */
+function patterTrack(introBeats: number, totalBeats: number): Float32Array {
+  const rand = rng(7);
+  const phrase = Array.from({ length: 32 }, () => 0.2 + 0.8 * rand());
+  const intro = Array.from({ length: introBeats }, () => 0.2 + 0.8 * rand());
+  const beatSamples = Math.round(BEAT * SAMPLE_RATE);
+  const out = new Float32Array(totalBeats * beatSamples);
+  for (let b = 0; b < totalBeats; b++) {
+    const amp = b < introBeats ? intro[b] : phrase[(b - introBeats) % 32];
+    for (let i = 0; i < beatSamples; i++) {
+      const t = i / SAMPLE_RATE;
+      out[b * beatSamples + i] = amp * Math.exp(-t * 12) * Math.sin(2 * Math.PI * 220 * t);
+    }
+  }
+  return out;
+}
+
+describe("findLoopSuggestions", () => {
+  const intro = 12;
+  const samples = patterTrack(intro, 200);
+  let suggestions: LoopSuggestion[] = [];
+  beforeAll(async () => {
+    suggestions = await findLoopSuggestions(samples, SAMPLE_RATE, { bpm: BPM, offset: 0 });
+  });
+
+  it("returns up to three non-overlapping suggestions, best first", () => {
+    expect(suggestions.length).toBeGreaterThan(0);
+    expect(suggestions.length).toBeLessThanOrEqual(3);
+    for (let i = 1; i < suggestions.length; i++) {
+      expect(suggestions[i].score).toBeLessThanOrEqual(suggestions[i - 1].score);
+    }
+  });
+
+  it("proposes whole-phrase loops that start after the intro on a beat", () => {
+    for (const s of suggestions) {
+      expect(s.beats % 32).toBe(0);
+      expect(s.start).toBeGreaterThanOrEqual(intro * BEAT - 0.01);
+      const beatsFromGrid = s.start / BEAT;
+      expect(Math.abs(beatsFromGrid - Math.round(beatsFromGrid))).toBeLessThan(0.05);
+      // Phrase-aligned: the loop length matches the repeating 32-beat pattern.
+      expect(Math.abs(s.end - s.start - s.beats * BEAT)).toBeLessThan(0.02);
+    }
+    expect(suggestions[0].score).toBeGreaterThan(0.9);
+  });
+
+  it("returns nothing when the track is shorter than a two-phrase loop", async () => {
+    const short = patterTrack(0, 40);
+    expect(await findLoopSuggestions(short, SAMPLE_RATE, { bpm: BPM, offset: 0 })).toEqual([]);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Patter loop point suggestion service.
+ *
+ * Proposes loop regions for a patter track so the caller does not have to
+ * find loopStartTime/loopEndTime by ear with 10 ms nudges. The analysis:
+ *
+ *  1. Beat grid from {@link detectBeatGrid} (same detector as the BPM column).
+ *  2. Candidate loops start on a beat and last a whole number of 32-beat
+ *     phrases, so the loop is musically aligned.
+ *  3. Each candidate is scored by how similar the loudness envelope around
+ *     the loop end is to the envelope around the loop start (the audio the
+ *     listener hears after the wrap). The end is searched within ±½ beat to
+ *     absorb tempo rounding.
+ *  4. The best candidates are refined to the sample by cross-correlating the
+ *     waveform just after the two points, which is what makes the wrap
+ *     inaudible.
+ *
+ * The scan runs on the main thread while the song plays, so it hands control
+ * back to the event loop every {@link SLICE_MS} ms (between beat windows).
+ *
+ * Usage:
+ *   const suggestions = await suggestLoopPoints(arrayBuffer);
+ *   if (suggestions.length) applyLoop(suggestions[0].start, suggestions[0].end);
+ */
+
+import {
+  decodeForAnalysis,
+  detectBeatGrid,
+  downmix,
+  type BeatGrid,
+} from "./bpm-detector.js";
+import { log } from "./logger.js";
+
+/** One proposed loop region. Times are in seconds of the source file. */
+export interface LoopSuggestion {
+  start: number;
+  end: number;
+  /** Loop length in beats (a multiple of {@link PHRASE_BEATS}). */
+  beats: number;
+  /** Envelope similarity at the wrap, 0–1 (higher = smoother). */
+  score: number;
+}
+
+/** Loop lengths are whole phrases; square dance music phrases in 32 beats. */
+const PHRASE_BEATS = 32;
+/** Shortest loop offered. Two phrases (~30 s at 128 BPM). */
+const MIN_LOOP_BEATS = 64;
+/** Envelope hop: 10 ms. */
+const ENVELOPE_HOP_SECONDS = 0.01;
+/** Envelope compared on each side of a candidate point. */
+const COMPARE_BEATS = 4;
+/** Waveform refinement: the end may move by up to this much. */
+const REFINE_RANGE_SECONDS = 0.01;
+/** Waveform refinement: length compared after each point. */
+const REFINE_WINDOW_SECONDS = 0.05;
+/** Candidate loop starts are limited to the first part of the track. */
+const MAX_START_FRACTION = 0.5;
+/** Keep out of the very start (silence/count-off) and tail (fade-out, decoder end). */
+const EDGE_MARGIN_SECONDS = 1;
+
+const DEFAULT_MAX_SUGGESTIONS = 3;
+
+/** Longest stretch the scan runs before yielding to playback and the UI. */
+const SLICE_MS = 8;
+
+/**
+ * Decode and analyze a track, returning up to `maxResults` suggestions, best
+ * first. Returns an empty list when the track has no detectable beat or is
+ * too short for a two-phrase loop.
+ */
+export async function suggestLoopPoints(
+  audioData: ArrayBuffer,
+  maxResults = DEFAULT_MAX_SUGGESTIONS,
+): Promise<LoopSuggestion[]> {
+  try {
+    const t0 = performance.now();
+    const audioBuffer = await decodeForAnalysis(audioData);
+    const grid = await detectBeatGrid(audioBuffer);
+    // findLoopSuggestions steps through the track one beat at a time.
+    if (!(grid.bpm > 0)) return [];
+    const suggestions = await findLoopSuggestions(
+      downmix(audioBuffer),
+      audioBuffer.sampleRate,
+      grid,
+      maxResults,
+    );
+    log.info(
+      `Loop suggestions (${grid.bpm} BPM) in ${(performance.now() - t0).toFixed(0)}ms: ` +
+        suggestions
+          .map((s) => `${s.start.toFixed(2)}–${s.end.toFixed(2)}s (${s.score.toFixed(2)})`)
+          .join(", "),
+    );
+    return suggestions;
+  } catch (err) {
+    log.warn("Loop suggestion failed:", err);
+    return [];
+  }
+}
+
+/**
+ * Core analysis on mono samples (exported for tests).
+ *
+ * Precondition: `grid.bpm > 0`.
+ * Postcondition: suggestions are sorted best first, no two have the same
+ * length with starts less than a phrase apart, and 0 < start < end < duration.
+ */
+export async function findLoopSuggestions(
+  samples: Float32Array,
+  sampleRate: number,
+  grid: BeatGrid,
+  maxResults = DEFAULT_MAX_SUGGESTIONS,
+): Promise<LoopSuggestion[]> {
+  const duration = samples.length / sampleRate;
+  const beatSeconds = 60 / grid.bpm;
+  const hopSamples = Math.max(1, Math.round(ENVELOPE_HOP_SECONDS * sampleRate));
+  const hopSeconds = hopSamples / sampleRate;
+  const envelope = rmsEnvelope(samples, hopSamples);
+
+  const halfWindow = Math.round((COMPARE_BEATS * beatSeconds) / hopSeconds);
+  const endSearch = Math.round(beatSeconds / 2 / hopSeconds);
+  const minHop = Math.ceil(EDGE_MARGIN_SECONDS / hopSeconds) + halfWindow;
+  const maxHop = envelope.length - 1 - halfWindow - endSearch -
+    Math.ceil(EDGE_MARGIN_SECONDS / hopSeconds);
+
+  const candidates: LoopSuggestion[] = [];
+  let sliceStart = performance.now();
+  for (let startTime = grid.offset; ; startTime += beatSeconds) {
+    if (performance.now() - sliceStart > SLICE_MS) {
+      await yieldToEventLoop();
+      sliceStart = performance.now();
+    }
+    const startHop = Math.round(startTime / hopSeconds);
+    if (startHop < minHop) continue;
+    // Loops start after the intro; past mid-track only short loops remain.
+    if (startTime > duration * MAX_START_FRACTION) break;
+    if (startHop + (MIN_LOOP_BEATS * beatSeconds) / hopSeconds > maxHop) break;
+
+    for (let beats = MIN_LOOP_BEATS; ; beats += PHRASE_BEATS) {
+      const nominalEndHop = Math.round((startTime + beats * beatSeconds) / hopSeconds);
+      if (nominalEndHop + endSearch > maxHop) break;
+      let bestScore = -Infinity;
+      let bestEndHop = nominalEndHop;
+      for (let d = -endSearch; d <= endSearch; d++) {
+        const score = correlation(envelope, startHop - halfWindow, nominalEndHop + d - halfWindow, 2 * halfWindow);
+        if (score > bestScore) {
+          bestScore = score;
+          bestEndHop = nominalEndHop + d;
+        }
+      }
+      candidates.push({
+        start: startHop * hopSeconds,
+        end: bestEndHop * hopSeconds,
+        beats,
+        score: Math.max(0, bestScore),
+      });
+    }
+  }
+
+  // Best first; on (near) ties prefer the longer loop — less repetition.
+  candidates.sort((a, b) => b.score - a.score || b.beats - a.beats);
+
+  const picked: LoopSuggestion[] = [];
+  for (const c of candidates) {
+    if (picked.length >= maxResults) break;
+    // The same loop shifted by a few beats scores the same in steady music;
+    // offer distinct lengths or starts at least a phrase apart instead.
+    const duplicate = picked.some(
+      (p) => p.beats === c.beats && Math.abs(p.start - c.start) < PHRASE_BEATS * beatSeconds,
+    );
+    if (duplicate) continue;
+    picked.push(refineEnd(samples, sampleRate, c));
+  }
+  return picked.filter((s) => s.start > 0 && s.end > s.start && s.end < duration);
+}
+
+// -- helpers ----------------------------------------------------------------
+
+/** Let pending timers, audio callbacks and rendering run before continuing. */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/** RMS loudness per hop. */
+function rmsEnvelope(samples: Float32Array, hopSamples: number): Float32Array {
+  const env = new Float32Array(Math.floor(samples.length / hopSamples));
+  for (let h = 0; h < env.length; h++) {
+    let sum = 0;
+    const base = h * hopSamples;
+    for (let i = 0; i < hopSamples; i++) {
+      const v = samples[base + i];
+      sum += v * v;
+    }
+    env[h] = Math.sqrt(sum / hopSamples);
+  }
+  return env;
+}
+
+/**
+ * Pearson correlation of `length` values of `x` starting at `a` and at `b`.
+ * Returns 0 for flat (silent) windows.
+ */
+function correlation(x: Float32Array, a: number, b: number, length: number): number {
+  let sumA = 0;
+  let sumB = 0;
+  for (let i = 0; i < length; i++) {
+    sumA += x[a + i];
+    sumB += x[b + i];
+  }
+  const meanA = sumA / length;
+  const meanB = sumB / length;
+  let cov = 0;
+  let varA = 0;
+  let varB = 0;
+  for (let i = 0; i < length; i++) {
+    const da = x[a + i] - meanA;
+    const db = x[b + i] - meanB;
+    cov += da * db;
+    varA += da * da;
+    varB += db * db;
+  }
+  const denom = Math.sqrt(varA * varB);
+  return denom > 0 ? cov / denom : 0;
+}
+
+/**
+ * Move the loop end (start stays on its beat) to the sample offset where the
+ * waveform after the end best matches the waveform after the start.
+ */
+function refineEnd(
+  samples: Float32Array,
+  sampleRate: number,
+  suggestion: LoopSuggestion,
+): LoopSuggestion {
+  const range = Math.round(REFINE_RANGE_SECONDS * sampleRate);
+  const window = Math.round(REFINE_WINDOW_SECONDS * sampleRate);
+  const startSample = Math.round(suggestion.start * sampleRate);
+  const endSample = Math.round(suggestion.end * sampleRate);
+  if (endSample - range < 0 || endSample + range + window > samples.length) return suggestion;
+
+  let startEnergy = 0;
+  for (let i = 0; i < window; i++) startEnergy += samples[startSample + i] ** 2;
+
+  let best = endSample;
+  let bestScore = -Infinity;
+  for (let d = -range; d <= range; d++) {
+    let dot = 0;
+    let energy = 0;
+    const e = endSample + d;
+    for (let i = 0; i < window; i++) {
+      dot += samples[startSample + i] * samples[e + i];
+      energy += samples[e + i] ** 2;
+    }
+    const score = energy > 0 && startEnergy > 0 ? dot / Math.sqrt(startEnergy * energy) : 0;
+    if (score > bestScore) {
+      bestScore = score;
+      best = e;
+    }
+  }
+  return { ...suggestion, end: best / sampleRate };
+}
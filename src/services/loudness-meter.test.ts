@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { integratedLoudness, levelingGainDb, LOUDNESS_TARGET_LUFS } from "./loudness-meter.js";
+
+const SAMPLE_RATE = 48000;
+
+function sine(amplitude: number, seconds: number, freq = 1000): Float32Array {
+  const out = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < out.length; i++) {
+    out[i] = amplitude * Math.sin((2 * Math.PI * freq * i) / SAMPLE_RATE);
+  }
+  return out;
+}
+
+describe("integratedLoudness", () => {
+  it("measures a full-scale 1 kHz sine at the BS.1770 reference levels", () => {
+    // -3.01 LUFS in one channel; the same tone in both channels adds 3 dB.
+    const tone = sine(1, 5);
+    expect(integratedLoudness([tone], SAMPLE_RATE)).toBeCloseTo(-3.01, 1);
+    expect(integratedLoudness([tone, tone], SAMPLE_RATE)).toBeCloseTo(0, 1);
+  });
+
+  it("drops 20 LU when the signal is 20 dB quieter", () => {
+    const loud = integratedLoudness([sine(0.5, 5)], SAMPLE_RATE);
+    const quiet = integratedLoudness([sine(0.05, 5)], SAMPLE_RATE);
+    expect(loud - quiet).toBeCloseTo(20, 1);
+  });
+
+  it("ignores silence (gating) when measuring a song with a quiet tail", () => {
+    const tone = sine(0.5, 5);
+    const withSilence = new Float32Array(tone.length * 2);
+    withSilence.set(tone);
+    expect(integratedLoudness([withSilence], SAMPLE_RATE)).toBeCloseTo(
+      integratedLoudness([tone], SAMPLE_RATE),
+      0,
+    );
+  });
+
+  it("returns -Infinity for silence", () => {
+    expect(integratedLoudness([new Float32Array(SAMPLE_RATE * 2)], SAMPLE_RATE)).toBe(-Infinity);
+  });
+});
+
+describe("levelingGainDb", () => {
+  it("brings songs to the target, within the boost/cut limits", () => {
+    expect(levelingGainDb(LOUDNESS_TARGET_LUFS)).toBe(0);
+    expect(levelingGainDb(LOUDNESS_TARGET_LUFS + 4)).toBe(-4);
+    expect(levelingGainDb(LOUDNESS_TARGET_LUFS - 3)).toBe(3);
+    expect(levelingGainDb(-60)).toBe(6);
+    expect(levelingGainDb(-1)).toBe(-12);
+  });
+
+  it("leaves unmeasured songs alone", () => {
+    expect(levelingGainDb(0)).toBe(0);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Loudness measurement for automatic volume leveling.
+ *
+ * Integrated loudness follows ITU-R BS.1770 (the LUFS scale used by
+ * streaming services): K-weighting filters, mean square over 400 ms blocks
+ * with 75% overlap, an absolute gate at -70 LUFS and a relative gate 10 LU
+ * below the ungated level. Songs are measured once in the background (see
+ * CallerBuddy `analyzeSongs`) and played back with {@link levelingGainDb}
+ * on top of the song's volume.
+ *
+ * Usage:
+ *   const lufs = measureLoudness(await decodeForAnalysis(arrayBuffer));
+ *   song.loudness = lufs < 0 ? lufs : UNMEASURABLE_LOUDNESS;
+ */
+
+import { log } from "./logger.js";
+
+/** Level songs are brought to. Typical square dance tracks measure -8 to -20. */
+export const LOUDNESS_TARGET_LUFS = -16;
+/** Leveling never boosts a quiet song by more than this (headroom). */
+const MAX_BOOST_DB = 6;
+/** …nor cuts a loud one by more than this. */
+const MAX_CUT_DB = 12;
+
+const BLOCK_SECONDS = 0.4;
+const BLOCK_STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = 10;
+
+/**
+ * Measure a decoded track. Returns integrated loudness in LUFS (negative),
+ * or 0 when the track is silent.
+ */
+export function measureLoudness(audioBuffer: AudioBuffer): number {
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < audioBuffer.numberOfChannels; c++) {
+    channels.push(audioBuffer.getChannelData(c));
+  }
+  const lufs = integratedLoudness(channels, audioBuffer.sampleRate);
+  if (!Number.isFinite(lufs)) return 0;
+  log.info(`Loudness measured: ${lufs.toFixed(1)} LUFS`);
+  return Math.round(lufs * 10) / 10;
+}
+
+/**
+ * Gain in dB that brings a song measured at `lufs` to
+ * {@link LOUDNESS_TARGET_LUFS}, limited to +{@link MAX_BOOST_DB} /
+ * -{@link MAX_CUT_DB}. 0 for a song that is not measured or has no level
+ * (`lufs >= 0`).
+ */
+export function levelingGainDb(lufs: number): number {
+  if (!(lufs < 0)) return 0;
+  return Math.max(-MAX_CUT_DB, Math.min(MAX_BOOST_DB, LOUDNESS_TARGET_LUFS - lufs));
+}
+
+/**
+ * BS.1770 integrated loudness of planar channel data (exported for tests).
+ * Channels are weighted equally (stereo / mono; no surround weights).
+ * Returns -Infinity when every block is below the absolute gate.
+ */
+export function integratedLoudness(channels: Float32Array[], sampleRate: number): number {
+  const length = channels[0]?.length ?? 0;
+  const blockLen = Math.round(BLOCK_SECONDS * sampleRate);
+  const stepLen = Math.round(BLOCK_STEP_SECONDS * sampleRate);
+  if (length < blockLen) return -Infinity;
+
+  // Sum of K-weighted squares per 100 ms step, across channels.
+  const stepCount = Math.floor(length / stepLen);
+  const stepEnergy = new Float64Array(stepCount);
+  for (const data of channels) {
+    const weighted = kWeight(data, sampleRate);
+    for (let s = 0; s < stepCount; s++) {
+      let sum = 0;
+      for (let i = s * stepLen; i < (s + 1) * stepLen; i++) sum += weighted[i] * weighted[i];
+      stepEnergy[s] += sum;
+    }
+  }
+
+  // 400 ms blocks = 4 consecutive steps.
+  const stepsPerBlock = Math.round(BLOCK_SECONDS / BLOCK_STEP_SECONDS);
+  const blocks: number[] = [];
+  for (let s = 0; s + stepsPerBlock <= stepCount; s++) {
+    let sum = 0;
+    for (let k = 0; k < stepsPerBlock; k++) sum += stepEnergy[s + k];
+    blocks.push(sum / (stepsPerBlock * stepLen));
+  }
+
+  const aboveAbsolute = blocks.filter((z) => loudnessOf(z) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) return -Infinity;
+  const relativeGate = loudnessOf(mean(aboveAbsolute)) - RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter((z) => loudnessOf(z) > relativeGate);
+  return loudnessOf(mean(gated));
+}
+
+// -- helpers ----------------------------------------------------------------
+
+function loudnessOf(meanSquare: number): number {
+  return -0.691 + 10 * Math.log10(meanSquare);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/**
+ * K-weighting: the BS.1770 high-shelf "head" filter followed by the RLB
+ * high-pass, with coefficients derived for `sampleRate` (libebur128 method).
+ */
+function kWeight(data: Float32Array, sampleRate: number): Float32Array {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = 10 ** (3.999843853973347 / 20);
+  const Vb = Vh ** 0.4996667741545416;
+  let a0 = 1 + K / Q + K * K;
+  const shelf = biquad(
+    data,
+    [(Vh + (Vb * K) / Q + K * K) / a0, (2 * (K * K - Vh)) / a0, (Vh - (Vb * K) / Q + K * K) / a0],
+    [(2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0],
+  );
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  return biquad(shelf, [1, -2, 1], [(2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0]);
+}
+
+/** Direct-form I biquad; `a` omits the leading 1. */
+function biquad(x: Float32Array, b: number[], a: number[]): Float32Array {
+  const y = new Float32Array(x.length);
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+  for (let i = 0; i < x.length; i++) {
+    const xi = x[i];
+    const yi = b[0] * xi + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+    x2 = x1;
+    x1 = xi;
+    y2 = y1;
+    y1 = yi;
+    y[i] = yi;
+  }
+  return y;
+}
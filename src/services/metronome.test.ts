@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { beatTimes } from "./metronome.js";
+
+describe("beatTimes", () => {
+  it("lists the beats in the window, aligned to the offset", () => {
+    // 120 BPM = a beat every 0.5 s, one of them at 0.2 s.
+    const times = beatTimes(120, 0.2, 1, 2.5);
+    expect(times.map((t) => Number(t.toFixed(3)))).toEqual([1.2, 1.7, 2.2]);
+  });
+
+  it("includes a beat at the window start and excludes one at the end", () => {
+    expect(beatTimes(60, 0, 2, 4)).toEqual([2, 3]);
+  });
+
+  it("works for offsets past the window start", () => {
+    expect(beatTimes(60, 5.5, 0, 2)).toEqual([0.5, 1.5]);
+  });
+
+  it("is empty when off or for an empty window", () => {
+    expect(beatTimes(0, 0, 0, 10)).toEqual([]);
+    expect(beatTimes(120, 0, 3, 3)).toEqual([]);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Metronome clicks and count-in for the audio engines.
+ *
+ * Clicks are short sine blips scheduled on the AudioContext clock, straight to
+ * the destination like the timer beeps (so the song's volume, leveling and EQ
+ * do not affect them).
+ *
+ * While a song plays, the engine calls {@link Metronome.update} on every
+ * position tick. Beats are at `offset + k × 60/bpm` seconds of the source
+ * file; each one inside the next {@link LOOKAHEAD_SECONDS} of playback is
+ * scheduled once, at a context time scaled by the current tempo ratio.
+ * Seeking or pausing cancels clicks that have not sounded yet.
+ *
+ * Usage:
+ *   const metronome = new Metronome(context);
+ *   metronome.configure(song.originalTempo, grid.offset);
+ *   if (await metronome.countIn(4, bpm)) await engine.play();
+ */
+
+/** How far ahead of the playback position clicks are scheduled (wall-clock seconds). */
+const LOOKAHEAD_SECONDS = 0.25;
+/** Delay before the first count-in click so it is not cut off. */
+const COUNT_IN_LEAD_SECONDS = 0.05;
+const CLICK_SECONDS = 0.03;
+const CLICK_GAIN = 0.25;
+const CLICK_HZ = 1000;
+/** First beat of each bar of the count-in. */
+const ACCENT_HZ = 1500;
+const BEATS_PER_BAR = 4;
+
+/**
+ * Source times in [from, to) of beats at `bpm` with a beat at `offset`
+ * (exported for tests).
+ */
+export function beatTimes(bpm: number, offset: number, from: number, to: number): number[] {
+  if (bpm <= 0 || to <= from) return [];
+  const period = 60 / bpm;
+  const times: number[] = [];
+  for (let k = Math.ceil((from - offset) / period); offset + k * period < to; k++) {
+    times.push(offset + k * period);
+  }
+  return times;
+}
+
+export class Metronome {
+  private readonly context: AudioContext;
+  /** 0 = metronome off. */
+  private bpm = 0;
+  private offset = 0;
+  /** Source time up to which beats have been scheduled. */
+  private scheduledUntil = -Infinity;
+  private lastPosition = 0;
+  private pending = new Set<OscillatorNode>();
+  private countInTimer: ReturnType<typeof setTimeout> | null = null;
+  private countInResolve: ((completed: boolean) => void) | null = null;
+
+  constructor(context: AudioContext) {
+    this.context = context;
+  }
+
+  /** Click on the beats of a song at `bpm` (0 = off) with a beat at `offset` seconds. */
+  configure(bpm: number, offset: number): void {
+    this.cancel();
+    this.bpm = Math.max(0, bpm);
+    this.offset = offset;
+  }
+
+  /** Schedule the clicks due in the next moment of playback. */
+  update(positionSeconds: number, tempoRatio: number): void {
+    if (this.bpm <= 0 || tempoRatio <= 0) return;
+    // A backwards jump is a seek or the loop wrapping around.
+    if (positionSeconds < this.lastPosition) this.scheduledUntil = -Infinity;
+    this.lastPosition = positionSeconds;
+
+    const horizon = positionSeconds + LOOKAHEAD_SECONDS * tempoRatio;
+    const from = Math.max(positionSeconds, this.scheduledUntil);
+    for (const beat of beatTimes(this.bpm, this.offset, from, horizon)) {
+      this.click(this.context.currentTime + (beat - positionSeconds) / tempoRatio, false);
+    }
+    this.scheduledUntil = horizon;
+  }
+
+  /**
+   * Play `clicks` clicks at `bpm` (already tempo-adjusted). Resolves true one
+   * beat after the last click, when the music should come in, or false if
+   * {@link cancel} was called first.
+   */
+  countIn(clicks: number, bpm: number): Promise<boolean> {
+    this.cancel();
+    if (clicks <= 0 || bpm <= 0) return Promise.resolve(true);
+    const period = 60 / bpm;
+    const start = this.context.currentTime + COUNT_IN_LEAD_SECONDS;
+    for (let i = 0; i < clicks; i++) {
+      this.click(start + i * period, i % BEATS_PER_BAR === 0);
+    }
+    return new Promise((resolve) => {
+      this.countInResolve = resolve;
+      this.countInTimer = setTimeout(() => {
+        this.countInTimer = null;
+        this.countInResolve = null;
+        resolve(true);
+      }, (COUNT_IN_LEAD_SECONDS + clicks * period) * 1000);
+    });
+  }
+
+  /** Silence clicks that have not sounded yet and abort a running count-in. */
+  cancel(): void {
+    for (const osc of this.pending) {
+      try {
+        osc.stop();
+      } catch {
+        // ignore
+      }
+    }
+    this.pending.clear();
+    this.scheduledUntil = -Infinity;
+    if (this.countInTimer !== null) {
+      clearTimeout(this.countInTimer);
+      this.countInTimer = null;
+    }
+    this.countInResolve?.(false);
+    this.countInResolve = null;
+  }
+
+  private click(when: number, accent: boolean): void {
+    const at = Math.max(when, this.context.currentTime);
+    const osc = this.context.createOscillator();
+    const g = this.context.createGain();
+    osc.type = "sine";
+    osc.frequency.value = accent ? ACCENT_HZ : CLICK_HZ;
+    g.gain.setValueAtTime(CLICK_GAIN, at);
+    g.gain.exponentialRampToValueAtTime(0.001, at + CLICK_SECONDS);
+    osc.connect(g).connect(this.context.destination);
+    osc.onended = () => this.pending.delete(osc);
+    this.pending.add(osc);
+    osc.start(at);
+    osc.stop(at + CLICK_SECONDS);
+  }
+}
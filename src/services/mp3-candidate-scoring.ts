@@ -44,7 +44,12 @@ function getExtension(filename: string): string {
 
 const FORMAT_BY_EXT: Record<string, { delta: number; reason: string }> = {
   ".m4a": { delta: 5, reason: "m4a format (+5)" },
+  ".aac": { delta: 5, reason: "aac format (+5)" },
+  ".ogg": { delta: 5, reason: "ogg format (+5)" },
+  ".oga": { delta: 5, reason: "ogg format (+5)" },
+  ".opus": { delta: 5, reason: "opus format (+5)" },
   ".wav": { delta: 10, reason: "wav format (+10)" },
+  ".flac": { delta: 10, reason: "flac format (+10)" },
 };
 
 /** Filename substring / regex penalties (vocal-ish names). */
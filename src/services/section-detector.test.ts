@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { findSongSections } from "./section-detector.js";
+
+const SAMPLE_RATE = 8000;
+const BPM = 128;
+const BEAT = 60 / BPM;
+
+/** A stretch of the track: `beats` beats of a tone burst at one loudness and pitch. */
+interface Part {
+  beats: number;
+  amp: number;
+  freq: number;
+}
+
+/** Synthetic track: a decaying tone burst on every beat, part by part. */
+function track(parts: Part[]): Float32Array {
+  const beatSamples = Math.round(BEAT * SAMPLE_RATE);
+  const total = parts.reduce((n, p) => n + p.beats, 0);
+  const out = new Float32Array(total * beatSamples);
+  let b = 0;
+  for (const part of parts) {
+    for (let i = 0; i < part.beats; i++, b++) {
+      for (let j = 0; j < beatSamples; j++) {
+        const t = j / SAMPLE_RATE;
+        out[b * beatSamples + j] =
+          part.amp * Math.exp(-t * 8) * Math.sin(2 * Math.PI * part.freq * t);
+      }
+    }
+  }
+  return out;
+}
+
+/** Opener/break/closer sound different from the figures, as in most singing calls. */
+const CHORUS: Part = { beats: 64, amp: 0.8, freq: 330 };
+const FIGURE: Part = { beats: 64, amp: 0.4, freq: 220 };
+
+/** Beat-grid time of each part boundary in `parts`, skipping the first part. */
+function partStarts(parts: Part[]): number[] {
+  const starts: number[] = [];
+  let beats = 0;
+  for (const p of parts.slice(0, -1)) {
+    beats += p.beats;
+    starts.push(beats * BEAT);
+  }
+  return starts;
+}
+
+describe("findSongSections", () => {
+  it("finds the opener after the lead-in and seven 64-beat sections", () => {
+    const parts = [
+      { beats: 8, amp: 0.1, freq: 440 },
+      CHORUS, FIGURE, FIGURE, CHORUS, FIGURE, FIGURE, CHORUS,
+      { beats: 8, amp: 0.2, freq: 440 },
+    ];
+    const times = findSongSections(track(parts), SAMPLE_RATE, { bpm: BPM, offset: 0 });
+    expect(times).toHaveLength(8);
+    const expected = partStarts(parts);
+    times.forEach((t, i) => expect(Math.abs(t - expected[i])).toBeLessThan(BEAT / 2));
+  });
+
+  it("lets the break and closer start late after a short transition", () => {
+    const transition = { beats: 4, amp: 0.6, freq: 550 };
+    const parts = [
+      { beats: 4, amp: 0.1, freq: 440 },
+      CHORUS, FIGURE, { ...FIGURE, beats: 68 }, CHORUS, FIGURE, { ...FIGURE, beats: 68 }, CHORUS,
+      transition,
+    ];
+    const times = findSongSections(track(parts), SAMPLE_RATE, { bpm: BPM, offset: 0 });
+    const expected = partStarts(parts);
+    times.forEach((t, i) => expect(Math.abs(t - expected[i])).toBeLessThan(BEAT / 2));
+  });
+
+  it("returns nothing when the track is too short for seven sections", () => {
+    const short = track([CHORUS, FIGURE, FIGURE, CHORUS]);
+    expect(findSongSections(short, SAMPLE_RATE, { bpm: BPM, offset: 0 })).toEqual([]);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Singing-call section detection service.
+ *
+ * A singing call is a lead-in, then seven 64-beat sections (opener, figure 1,
+ * figure 2, middle break, figure 3, figure 4, closer), then a tag. The
+ * progress slider in song-play shows the seven sections; this service finds
+ * where they really start so the segments line up with the music instead of
+ * being equal sevenths of the file. The analysis:
+ *
+ *  1. Beat grid from {@link detectBeatGrid} (same detector as the BPM column).
+ *  2. A novelty curve at quarter-beat resolution: how much loudness and
+ *     brightness change from the 4 beats before a point to the 4 beats after.
+ *     Section starts are where the arrangement changes, so novelty peaks there.
+ *  3. Every beat in the first {@link MAX_LEAD_IN_BEATS} is tried as the opener
+ *     start. From it, each following section start is searched near 64 beats
+ *     later (±1 beat for tempo drift; up to {@link MAX_TRANSITION_BEATS} late
+ *     before the break and closer, which often have a short transition).
+ *  4. The opener start whose eight boundaries (seven starts plus the tag)
+ *     have the most total novelty wins.
+ *
+ * Usage:
+ *   const times = await detectSongSections(arrayBuffer);
+ *   if (times.length) song.sectionTimes = times;
+ */
+
+import {
+  decodeForAnalysis,
+  detectBeatGrid,
+  downmix,
+  type BeatGrid,
+} from "./bpm-detector.js";
+import { SECTION_TIME_COUNT } from "../models/song.js";
+import { log } from "./logger.js";
+
+/** Every singing-call section is 64 beats (two 32-beat phrases). */
+const SECTION_BEATS = 64;
+/** Opener starts are searched up to this many beats into the track. */
+const MAX_LEAD_IN_BEATS = 32;
+/** A break or closer may start up to this many beats after the nominal 64. */
+const MAX_TRANSITION_BEATS = 4;
+/** Other section starts may drift this many beats (integer-BPM rounding). */
+const DRIFT_BEATS = 1;
+/** Feature frames per beat. */
+const FRAMES_PER_BEAT = 4;
+/** Novelty compares this many beats before and after each frame. */
+const NOVELTY_BEATS = 4;
+/** Sections whose tag would start this far past the end of the file are rejected. */
+const END_TOLERANCE_BEATS = 2;
+/** Index of the break and closer in the boundary list (opener = 0). */
+const BREAK_INDEX = 3;
+const CLOSER_INDEX = 6;
+
+/** Silence floor for the loudness/brightness features. */
+const SILENCE_RMS = 1e-4;
+
+/**
+ * Decode and analyze a singing call. Returns {@link SECTION_TIME_COUNT}
+ * increasing start times in seconds (opener … closer, then tag), or [] when
+ * the track has no detectable beat or is too short for seven sections.
+ */
+export async function detectSongSections(audioData: ArrayBuffer): Promise<number[]> {
+  try {
+    const t0 = performance.now();
+    const audioBuffer = await decodeForAnalysis(audioData);
+    const grid = await detectBeatGrid(audioBuffer);
+    const times = findSongSections(downmix(audioBuffer), audioBuffer.sampleRate, grid);
+    log.info(
+      `Song sections (${grid.bpm} BPM) in ${(performance.now() - t0).toFixed(0)}ms: ` +
+        (times.length ? times.map((t) => t.toFixed(1)).join(", ") : "none"),
+    );
+    return times;
+  } catch (err) {
+    log.warn("Section detection failed:", err);
+    return [];
+  }
+}
+
+/**
+ * Core analysis on mono samples (exported for tests).
+ *
+ * Precondition: `grid.bpm > 0`.
+ * Postcondition: result is [] or {@link SECTION_TIME_COUNT} strictly
+ * increasing times in [0, duration], rounded to milliseconds.
+ */
+export function findSongSections(
+  samples: Float32Array,
+  sampleRate: number,
+  grid: BeatGrid,
+): number[] {
+  const duration = samples.length / sampleRate;
+  const beatSeconds = 60 / grid.bpm;
+  const frameSeconds = beatSeconds / FRAMES_PER_BEAT;
+  const novelty = noveltyCurve(frameFeatures(samples, sampleRate, frameSeconds));
+  const lastFrame = Math.floor(duration / frameSeconds);
+  const maxTagFrame = lastFrame + END_TOLERANCE_BEATS * FRAMES_PER_BEAT;
+
+  let best: number[] | null = null;
+  let bestScore = -Infinity;
+  for (let b = 0; b <= MAX_LEAD_IN_BEATS; b++) {
+    const openerFrame = Math.round((grid.offset + b * beatSeconds) / frameSeconds);
+    const frames = [openerFrame];
+    let score = noveltyAt(novelty, openerFrame);
+    for (let k = 1; k < SECTION_TIME_COUNT; k++) {
+      const nominal = frames[k - 1] + SECTION_BEATS * FRAMES_PER_BEAT;
+      const transition = k === BREAK_INDEX || k === CLOSER_INDEX;
+      const lo = nominal - DRIFT_BEATS * FRAMES_PER_BEAT;
+      const hi = nominal + (transition ? MAX_TRANSITION_BEATS : DRIFT_BEATS) * FRAMES_PER_BEAT;
+      // Prefer the nominal position on ties (flat novelty, e.g. steady music).
+      let pick = nominal;
+      let pickScore = noveltyAt(novelty, nominal);
+      for (let f = lo; f <= hi; f++) {
+        const s = noveltyAt(novelty, f);
+        if (s > pickScore) {
+          pick = f;
+          pickScore = s;
+        }
+      }
+      frames.push(pick);
+      score += pickScore;
+    }
+    if (frames[frames.length - 1] > maxTagFrame) break;
+    if (score > bestScore) {
+      bestScore = score;
+      best = frames;
+    }
+  }
+  if (!best) return [];
+
+  return best.map((f) => Math.round(Math.min(f * frameSeconds, duration) * 1000) / 1000);
+}
+
+// -- helpers ----------------------------------------------------------------
+
+/**
+ * Per-frame [log loudness, brightness], each normalized to zero mean and unit
+ * variance over the track so both weigh the same in the novelty distance.
+ */
+function frameFeatures(
+  samples: Float32Array,
+  sampleRate: number,
+  frameSeconds: number,
+): Float32Array[] {
+  const frameCount = Math.floor(samples.length / sampleRate / frameSeconds);
+  const loudness = new Float32Array(frameCount);
+  const brightness = new Float32Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    const start = Math.round(f * frameSeconds * sampleRate);
+    const end = Math.min(samples.length, Math.round((f + 1) * frameSeconds * sampleRate));
+    let energy = 0;
+    let diffEnergy = 0;
+    for (let i = start; i < end; i++) {
+      const v = samples[i];
+      energy += v * v;
+      if (i > 0) {
+        const d = v - samples[i - 1];
+        diffEnergy += d * d;
+      }
+    }
+    const rms = Math.sqrt(energy / Math.max(1, end - start));
+    loudness[f] = Math.log(rms + SILENCE_RMS);
+    // High-frequency share: the first difference boosts treble (0–4 × energy).
+    brightness[f] = rms > SILENCE_RMS ? diffEnergy / energy : 0;
+  }
+  return [standardize(loudness), standardize(brightness)];
+}
+
+function standardize(x: Float32Array): Float32Array {
+  if (x.length === 0) return x;
+  let sum = 0;
+  for (const v of x) sum += v;
+  const mean = sum / x.length;
+  let variance = 0;
+  for (const v of x) variance += (v - mean) ** 2;
+  const sd = Math.sqrt(variance / x.length);
+  return x.map((v) => (sd > 0 ? (v - mean) / sd : 0));
+}
+
+/**
+ * Distance between the mean features of the {@link NOVELTY_BEATS} beats
+ * before and after each frame (0 near the edges of the track).
+ */
+function noveltyCurve(features: Float32Array[]): Float32Array {
+  const length = features[0]?.length ?? 0;
+  const half = NOVELTY_BEATS * FRAMES_PER_BEAT;
+  const novelty = new Float32Array(length);
+  const prefix = features.map((x) => {
+    const p = new Float64Array(x.length + 1);
+    for (let i = 0; i < x.length; i++) p[i + 1] = p[i] + x[i];
+    return p;
+  });
+  for (let f = half; f + half <= length; f++) {
+    let dist = 0;
+    for (const p of prefix) {
+      const before = (p[f] - p[f - half]) / half;
+      const after = (p[f + half] - p[f]) / half;
+      dist += (after - before) ** 2;
+    }
+    novelty[f] = Math.sqrt(dist);
+  }
+  return novelty;
+}
+
+function noveltyAt(novelty: Float32Array, frame: number): number {
+  return frame >= 0 && frame < novelty.length ? novelty[frame] : 0;
+}
@@ -50,10 +50,30 @@ function makeSong(overrides: Partial<Song> = {}): Song {
     playWeight: 0,
     loopStartTime: 0,
     loopEndTime: 0,
+    loopCrossfadeTime: 0,
     volume: 80,
+    eqBass: 0,
+    eqMid: 0,
+    eqTreble: 0,
     pitch: 0,
+    pitchCents: 0,
     originalTempo: 0,
+    beatOffset: -1,
+    originalKey: "",
+    loudness: 0,
+    leadIn: -1,
+    skipLeadIn: true,
     deltaTempo: 0,
+    targetTempo: 0,
+    tempoRamp: false,
+    tempoRampEnd: 0,
+    tempoRampSeconds: 180,
+    stretchPreset: "auto",
+    sectionTimes: [],
+    bpmConfidence: -1,
+    tempoMap: [],
+    audioSupport: "",
+    cues: [],
     ...overrides,
   };
 }
@@ -333,6 +353,17 @@ describe("scanDirectory", () => {
     expect(songs[0].musicFile).toBe("RR 275 - Boogie Shoes.m4a");
   });
 
+  it("includes .flac and .ogg files, not yet probed", async () => {
+    vi.mocked(listDirectory).mockResolvedValue([
+      { name: "RR 275 - Boogie Shoes.flac", kind: "file" },
+      { name: "Patter.ogg", kind: "file" },
+    ]);
+
+    const songs = await scanDirectory(fakeDirHandle);
+    expect(songs.map((s) => s.musicFile).sort()).toEqual(["Patter.ogg", "RR 275 - Boogie Shoes.flac"]);
+    expect(songs.every((s) => s.audioSupport === "")).toBe(true);
+  });
+
   it("ignores directories", async () => {
     vi.mocked(listDirectory).mockResolvedValue([
       { name: "subfolder", kind: "directory" },
@@ -349,6 +349,11 @@ describe("computeDestNames", () => {
     const { destMp3Name } = computeDestNames("", "Some Song", true);
     expect(destMp3Name).toBe("Some Song.mp3");
   });
+
+  it("keeps the selected music file's format", () => {
+    const { destMp3Name } = computeDestNames("RR 104", "Rocky Top", false, "music/RR104.FLAC");
+    expect(destMp3Name).toBe("RR 104 - Rocky Top.flac");
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -392,6 +397,17 @@ describe("analyzeZipForOnboarding", () => {
     expect(proposal.destMp3Name).toBe("BS 2634 - Singing in the Rain.mp3");
   });
 
+  it("accepts an OGG-only archive and keeps the format", async () => {
+    const proposal = await analyzeZipForOnboarding(
+      "RR 104 - Rocky Top.zip",
+      ["RR 104 - Rocky Top.ogg", "RR 104 - Rocky Top.txt"],
+      async () => "",
+    );
+
+    expect(proposal.selectedMp3).toBe("RR 104 - Rocky Top.ogg");
+    expect(proposal.destMp3Name).toBe("RR 104 - Rocky Top.ogg");
+  });
+
   it("handles archive with no HTML (TXT fallback)", async () => {
     const entries = [
       "RR 104A - Rocky Top.mp3",
@@ -12,6 +12,7 @@
  */
 
 import { toTitleCase } from "../utils/text.js";
+import { MUSIC_EXTENSIONS } from "../models/song.js";
 import { importHtmlToMarkdown, importTextToMarkdown, replaceLyricsHeader } from "./lyrics-import.js";
 import { decodeHtmlBytes, filterLyricsText } from "../utils/lyrics-text-filter.js";
 import { scoreMp3Candidates, type Mp3Candidate } from "./mp3-candidate-scoring.js";
@@ -132,7 +133,7 @@ export async function analyzeZipForOnboarding(
 
   // 7. Generate destination filenames
   const destBase = label && title ? `${label} - ${title}` : title || label || "Untitled";
-  const destMp3Name = `${destBase}.mp3`;
+  const destMp3Name = `${destBase}${musicExtOrMp3(selectedMp3)}`;
   const destLyricsName = lyricsMarkdown ? `${destBase}.md` : "";
 
   return {
@@ -157,15 +158,19 @@ export function sortPaths(paths: string[]): string[] {
   );
 }
 
-/** Regenerate destination filenames when the user edits label/title. */
+/**
+ * Regenerate destination filenames when the user edits label/title or picks
+ * another music file. The music file keeps its own format's extension.
+ */
 export function computeDestNames(
   label: string,
   title: string,
   hasLyrics: boolean,
+  musicPath = "",
 ): { destMp3Name: string; destLyricsName: string } {
   const destBase = label && title ? `${label} - ${title}` : title || label || "Untitled";
   return {
-    destMp3Name: `${destBase}.mp3`,
+    destMp3Name: `${destBase}${musicExtOrMp3(musicPath)}`,
     destLyricsName: hasLyrics ? `${destBase}.md` : "",
   };
 }
@@ -479,11 +484,15 @@ function getExtension(filename: string): string {
   return dotIdx >= 0 ? filename.substring(dotIdx).toLowerCase() : "";
 }
 
-const MUSIC_EXTENSIONS = new Set([".mp3", ".m4a", ".wav"]);
 const HTML_EXTENSIONS = new Set([".html", ".htm"]);
 
 function isMusicExt(path: string): boolean {
-  return MUSIC_EXTENSIONS.has(getExtension(basename(path)));
+  return MUSIC_EXTENSIONS.includes(getExtension(basename(path)));
+}
+
+/** Extension of a selected music file, or ".mp3" when none is selected. */
+function musicExtOrMp3(path: string): string {
+  return isMusicExt(path) ? getExtension(basename(path)) : ".mp3";
 }
 
 function isHtmlExt(path: string): boolean {
@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+import { songPositionSeconds } from "./audio-engine.js";
+import {
+  LoopingSampleSource,
+  SoundTouchRenderer,
+  type SoundTouchEvent,
+} from "./soundtouch-renderer.js";
+
+const SAMPLE_RATE = 44100;
+const BLOCK = 128;
+
+/** Stereo test signal whose samples encode their own frame index. */
+function rampChannels(seconds: number): Float32Array[] {
+  const n = Math.round(seconds * SAMPLE_RATE);
+  const left = new Float32Array(n);
+  for (let i = 0; i < n; i++) left[i] = i / n;
+  return [left, left.slice()];
+}
+
+function setup(seconds: number) {
+  const events: SoundTouchEvent[] = [];
+  const renderer = new SoundTouchRenderer(SAMPLE_RATE, (e) => events.push(e));
+  renderer.handle({ type: "load", channels: rampChannels(seconds) });
+  const left = new Float32Array(BLOCK);
+  const right = new Float32Array(BLOCK);
+  const renderSeconds = (s: number) => {
+    const blocks = Math.round((s * SAMPLE_RATE) / BLOCK);
+    for (let i = 0; i < blocks; i++) renderer.render(left, right);
+  };
+  return { renderer, events, renderSeconds, left };
+}
+
+describe("LoopingSampleSource", () => {
+  it("wraps from loop end to loop start", () => {
+    const data = new Float32Array([0, 1, 2, 3, 4, 5, 6, 7]);
+    const source = new LoopingSampleSource([data]);
+    source.setLoop(2, 5);
+    const out = new Float32Array(16);
+    expect(source.extract(out, 8)).toBe(8);
+    // Mono is duplicated, so read every other sample.
+    expect(Array.from(out.filter((_, i) => i % 2 === 0))).toEqual([0, 1, 2, 3, 4, 2, 3, 4]);
+  });
+
+  it("crossfades the audio before loop end with the audio before loop start", () => {
+    // 1.0 before the loop start, 0.0 inside the loop: the fade-in source is all 1s.
+    const data = new Float32Array(20);
+    data.fill(1, 0, 10);
+    const source = new LoopingSampleSource([data]);
+    source.setLoop(10, 20, 4);
+    source.position = 14;
+    const out = new Float32Array(20);
+    source.extract(out, 10);
+    const left = Array.from(out.filter((_, i) => i % 2 === 0));
+    expect(left.slice(0, 2)).toEqual([0, 0]);
+    // Frames 16..19 fade in the lead-in (frames 6..9); the wrap lands on frame 10.
+    for (let i = 1; i < 4; i++) expect(left[2 + i]).toBeGreaterThan(left[1 + i]);
+    expect(left[5]).toBeGreaterThan(0.9);
+    expect(left[6]).toBe(0);
+  });
+
+  it("limits the crossfade to the audio available before loop start", () => {
+    const data = new Float32Array(20).fill(0.5);
+    const source = new LoopingSampleSource([data]);
+    source.setLoop(0, 20, 8);
+    source.position = 16;
+    const out = new Float32Array(8);
+    source.extract(out, 4);
+    expect(Array.from(out.filter((_, i) => i % 2 === 0))).toEqual([0.5, 0.5, 0.5, 0.5]);
+  });
+
+  it("returns a short count at the end when not looping", () => {
+    const source = new LoopingSampleSource([new Float32Array(5)]);
+    const out = new Float32Array(16);
+    expect(source.extract(out, 8)).toBe(5);
+    expect(source.extract(out, 8)).toBe(0);
+  });
+});
+
+describe("SoundTouchRenderer", () => {
+  it("outputs silence until play", () => {
+    const { renderer, left } = setup(1);
+    left.fill(1);
+    renderer.render(left, new Float32Array(BLOCK));
+    expect(left.every((v) => v === 0)).toBe(true);
+  });
+
+  it("reports the same position as songPositionSeconds while looping (unmodified audio)", () => {
+    const { renderer, events, renderSeconds } = setup(4);
+    renderer.handle({ type: "loop", start: 1, end: 2, crossfade: 0 });
+    renderer.handle({ type: "play" });
+    let rendered = 0;
+    for (const elapsed of [0.5, 1.5, 2.5, 3.5]) {
+      renderSeconds(elapsed - rendered);
+      rendered = elapsed;
+      expect(renderer.positionSeconds).toBeCloseTo(songPositionSeconds(elapsed, 1, 2), 2);
+    }
+    expect(events.some((e) => e.type === "ended")).toBe(false);
+  });
+
+  it("keeps position within the loop when pitch/tempo are shifted", () => {
+    const { renderer, events, renderSeconds } = setup(4);
+    renderer.handle({ type: "pitch", semitones: 2 });
+    renderer.handle({ type: "tempo", ratio: 1.25 });
+    renderer.handle({ type: "loop", start: 1, end: 2, crossfade: 0 });
+    renderer.handle({ type: "play" });
+    // 3.6 s of output at 1.25x consumes 4.5 s of source: 1 s before the loop, then 3.5 loop passes.
+    renderSeconds(3.6);
+    const expected = songPositionSeconds(3.6 * 1.25, 1, 2);
+    expect(Math.abs(renderer.positionSeconds - expected)).toBeLessThan(0.05);
+    expect(renderer.isPlaying).toBe(true);
+    expect(events.some((e) => e.type === "ended")).toBe(false);
+  });
+
+  it("keeps the position when the stretch preset changes mid-song", () => {
+    const { renderer, renderSeconds } = setup(4);
+    renderer.handle({ type: "tempo", ratio: 1.25 });
+    renderer.handle({ type: "play" });
+    renderSeconds(1);
+    const before = renderer.positionSeconds;
+    renderer.handle({ type: "stretch", preset: "percussive" });
+    expect(renderer.positionSeconds).toBeCloseTo(before, 3);
+    renderSeconds(1);
+    expect(Math.abs(renderer.positionSeconds - 2.5)).toBeLessThan(0.05);
+  });
+
+  it("fires ended once at the end of the song when not looping", () => {
+    for (const semitones of [0, 3]) {
+      const { renderer, events, renderSeconds } = setup(1);
+      renderer.handle({ type: "pitch", semitones });
+      renderer.handle({ type: "play" });
+      renderSeconds(2);
+      expect(events.filter((e) => e.type === "ended")).toHaveLength(1);
+      expect(renderer.isPlaying).toBe(false);
+    }
+  });
+
+  it("does not fire ended when the loop ends at the end of the song", () => {
+    const { renderer, events, renderSeconds } = setup(1);
+    renderer.handle({ type: "loop", start: 0, end: 1, crossfade: 0 });
+    renderer.handle({ type: "play" });
+    renderSeconds(3);
+    expect(events.some((e) => e.type === "ended")).toBe(false);
+  });
+
+  it("seeks and tags position reports with the seek generation", () => {
+    const { renderer, events } = setup(2);
+    renderer.handle({ type: "seek", seconds: 1.5, generation: 7 });
+    expect(renderer.positionSeconds).toBeCloseTo(1.5, 3);
+    expect(events.at(-1)).toEqual({ type: "position", seconds: renderer.positionSeconds, generation: 7 });
+  });
+
+  it("glides the tempo over a ramp and then holds the end tempo", () => {
+    const { renderer, events, renderSeconds } = setup(10);
+    renderer.handle({ type: "tempoRamp", from: 1, to: 1.2, seconds: 2 });
+    renderer.handle({ type: "play" });
+    expect(renderer.currentTempoRatio).toBe(1);
+    renderSeconds(1);
+    expect(renderer.currentTempoRatio).toBeCloseTo(1.1, 2);
+    const reported = events.filter((e) => e.type === "tempo").map((e) => e.ratio);
+    expect(reported.length).toBeGreaterThan(1);
+    for (let i = 1; i < reported.length; i++) expect(reported[i]).toBeGreaterThan(reported[i - 1]);
+    renderSeconds(2);
+    expect(renderer.currentTempoRatio).toBe(1.2);
+    // A fixed tempo cancels the ramp.
+    renderer.handle({ type: "tempoRamp", from: 1, to: 1.2, seconds: 2 });
+    renderer.handle({ type: "tempo", ratio: 0.9 });
+    renderSeconds(1);
+    expect(renderer.currentTempoRatio).toBe(0.9);
+  });
+
+  it("does not advance the ramp while paused", () => {
+    const { renderer, renderSeconds } = setup(10);
+    renderer.handle({ type: "tempoRamp", from: 1, to: 1.2, seconds: 2 });
+    renderSeconds(1);
+    expect(renderer.currentTempoRatio).toBe(1);
+  });
+});
@@ -0,0 +1,428 @@
+/**
+ * SoundTouch pitch/tempo renderer for the AudioWorklet backend.
+ *
+ * This module has no Web Audio dependencies: it turns decoded channel data into
+ * output frames, so it runs inside the AudioWorkletGlobalScope (see
+ * soundtouch-worklet.ts) and in unit tests alike. The main-thread side is
+ * {@link WorkletAudioEngine} in worklet-audio-engine.ts; the two talk through
+ * the {@link SoundTouchCommand} / {@link SoundTouchEvent} messages below.
+ *
+ * Looping is done by the sample source rather than by seeking: the reader
+ * wraps from loop end to loop start while filling SoundTouch's input, so the
+ * loop is sample-accurate and does not flush the WSOLA buffers.
+ *
+ * A tempo ramp is also applied here, block by block, so the tempo glides
+ * instead of stepping at the rate the main thread could send commands.
+ */
+
+import { SimpleFilter, SoundTouch, type SampleSource } from "soundtouchjs";
+import type { StretchPreset } from "../models/song.js";
+
+// ---------------------------------------------------------------------------
+// Messages (main thread ⇄ worklet)
+// ---------------------------------------------------------------------------
+
+/**
+ * Main thread → processor. Times are in seconds of the source file.
+ * `generation` is echoed back in position events so the main thread can drop
+ * reports that were already in flight when it seeked.
+ */
+export type SoundTouchCommand =
+  | { type: "load"; channels: Float32Array[] }
+  | { type: "unload" }
+  | { type: "play" }
+  | { type: "pause" }
+  | { type: "seek"; seconds: number; generation: number }
+  | { type: "pitch"; semitones: number }
+  | { type: "tempo"; ratio: number }
+  /**
+   * Glide the tempo ratio linearly from `from` to `to` over `seconds` of
+   * playback (paused time does not count), then hold `to`. A later "tempo"
+   * command cancels the ramp.
+   */
+  | { type: "tempoRamp"; from: number; to: number; seconds: number }
+  | { type: "loop"; start: number; end: number; crossfade: number }
+  /** Time-stretch window sizes; see {@link STRETCH_PARAMETERS}. */
+  | { type: "stretch"; preset: StretchPreset };
+
+/** Processor → main thread. */
+export type SoundTouchEvent =
+  | { type: "position"; seconds: number; generation: number }
+  | { type: "ended" }
+  /** Current tempo ratio; sent with position reports while a ramp is running. */
+  | { type: "tempo"; ratio: number };
+
+/**
+ * SoundTouch WSOLA window sizes in ms. A sequence or seek window of 0 is
+ * picked by SoundTouch from the tempo.
+ */
+export interface StretchParameters {
+  /** Length of each stretched chunk; longer is smoother, shorter keeps attacks. */
+  sequenceMs: number;
+  /** How far to search for the best splice point; wider is smoother, costs CPU. */
+  seekWindowMs: number;
+  /** Crossfade between chunks. */
+  overlapMs: number;
+}
+
+/**
+ * Window sizes for each {@link StretchPreset}. "auto" is SoundTouch's own
+ * default; the others are the values SoundTouch suggests for speech, general
+ * music, and sharp percussive material.
+ */
+export const STRETCH_PARAMETERS: Record<StretchPreset, StretchParameters> = {
+  auto: { sequenceMs: 0, seekWindowMs: 0, overlapMs: 8 },
+  speech: { sequenceMs: 40, seekWindowMs: 15, overlapMs: 8 },
+  music: { sequenceMs: 82, seekWindowMs: 28, overlapMs: 12 },
+  percussive: { sequenceMs: 50, seekWindowMs: 12, overlapMs: 6 },
+};
+
+/** Name passed to registerProcessor / new AudioWorkletNode. */
+export const SOUNDTOUCH_PROCESSOR_NAME = "callerbuddy-soundtouch";
+
+/** Passed as `processorOptions` when the node is created. */
+export interface SoundTouchProcessorOptions {
+  sampleRate: number;
+}
+
+/** How often (in output frames) the renderer reports its position. ~50 ms at 44.1 kHz. */
+const POSITION_REPORT_FRAMES = 2048;
+
+// ---------------------------------------------------------------------------
+// Looping sample source
+// ---------------------------------------------------------------------------
+
+/**
+ * Reads interleaved stereo frames from decoded channel data, wrapping from the
+ * loop end back to the loop start. Mono input is duplicated to both channels.
+ *
+ * With a crossfade of N frames, the last N frames before the loop end are
+ * mixed with the N frames before the loop start (equal-power fade), so by the
+ * time the cursor wraps the listener is already hearing the audio that leads
+ * into the loop start and there is no click.
+ *
+ * The source keeps its own cursor (the file position of the next frame read);
+ * the `position` argument SimpleFilter passes in is ignored.
+ */
+export class LoopingSampleSource implements SampleSource {
+  private readonly left: Float32Array;
+  private readonly right: Float32Array;
+  /** File position (frames) of the next frame to read. */
+  private cursor = 0;
+  private loopStartFrame = 0;
+  /** 0 = looping disabled. */
+  private loopEndFrame = 0;
+  /** Effective crossfade length (already clamped to fit the loop). */
+  private crossfadeFrames = 0;
+
+  constructor(channels: Float32Array[]) {
+    this.left = channels[0] ?? new Float32Array(0);
+    this.right = channels[1] ?? this.left;
+  }
+
+  /** Total length of the source in frames. */
+  get length(): number {
+    return this.left.length;
+  }
+
+  /** File position (frames) of the next frame to be read. */
+  get position(): number {
+    return this.cursor;
+  }
+
+  set position(frame: number) {
+    this.cursor = Math.max(0, Math.min(Math.floor(frame), this.length));
+  }
+
+  /**
+   * Configure loop points in frames. Set end = 0 to disable looping.
+   * The crossfade is limited to the audio available before the loop start and
+   * to half the loop length.
+   */
+  setLoop(startFrame: number, endFrame: number, crossfadeFrames = 0): void {
+    this.loopStartFrame = Math.max(0, Math.floor(startFrame));
+    this.loopEndFrame = Math.max(0, Math.min(Math.floor(endFrame), this.length));
+    this.crossfadeFrames = this.looping
+      ? Math.max(
+          0,
+          Math.min(
+            Math.floor(crossfadeFrames),
+            this.loopStartFrame,
+            Math.floor((this.loopEndFrame - this.loopStartFrame) / 2),
+          ),
+        )
+      : 0;
+  }
+
+  get looping(): boolean {
+    return this.loopEndFrame > 0 && this.loopEndFrame > this.loopStartFrame;
+  }
+
+  /**
+   * Map a frame that may have run past the loop end back into the loop, the
+   * same way {@link extract} wraps its cursor.
+   */
+  wrapFrame(frame: number): number {
+    if (!this.looping || frame < this.loopEndFrame) return frame;
+    const loopLength = this.loopEndFrame - this.loopStartFrame;
+    return this.loopStartFrame + ((frame - this.loopEndFrame) % loopLength);
+  }
+
+  extract(target: Float32Array, numFrames: number): number {
+    let i = 0;
+    while (i < numFrames) {
+      if (this.looping && this.cursor >= this.loopEndFrame) {
+        this.cursor = this.loopStartFrame;
+      }
+      if (this.cursor >= this.length) break;
+      const fadeFrame = this.cursor - (this.loopEndFrame - this.crossfadeFrames);
+      if (this.crossfadeFrames > 0 && fadeFrame >= 0 && this.looping) {
+        const t = ((fadeFrame + 0.5) / this.crossfadeFrames) * (Math.PI / 2);
+        const fadeOut = Math.cos(t);
+        const fadeIn = Math.sin(t);
+        const lead = this.cursor - (this.loopEndFrame - this.loopStartFrame);
+        target[i * 2] = this.left[this.cursor] * fadeOut + this.left[lead] * fadeIn;
+        target[i * 2 + 1] = this.right[this.cursor] * fadeOut + this.right[lead] * fadeIn;
+      } else {
+        target[i * 2] = this.left[this.cursor];
+        target[i * 2 + 1] = this.right[this.cursor];
+      }
+      this.cursor++;
+      i++;
+    }
+    return i;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Renderer
+// ---------------------------------------------------------------------------
+
+/**
+ * Owns the SoundTouch pipeline and the transport state of the worklet.
+ * {@link handle} applies commands; {@link render} fills one output block.
+ *
+ * When pitch is 0 and tempo is 1 the source is copied straight to the output
+ * (same idea as the raw AudioBufferSourceNode path in WebAudioEngine), so
+ * unmodified songs are not coloured by WSOLA.
+ */
+export class SoundTouchRenderer {
+  private readonly sampleRate: number;
+  private readonly emit: (event: SoundTouchEvent) => void;
+  private readonly soundTouch = new SoundTouch();
+
+  private source: LoopingSampleSource | null = null;
+  private filter: SimpleFilter | null = null;
+  private playing = false;
+  private endedEmitted = false;
+  private pitchSemitones = 0;
+  private tempoRatio = 1;
+  /** Running tempo ramp, or null. */
+  private ramp: { from: number; to: number; frames: number } | null = null;
+  /** Output frames rendered since the ramp started. */
+  private rampFrame = 0;
+  private loopStartSeconds = 0;
+  private loopEndSeconds = 0;
+  private loopCrossfadeSeconds = 0;
+
+  /**
+   * File position (frames) of what is being output. SoundTouch reads ahead of
+   * what it outputs, so this is tracked separately from the source cursor by
+   * advancing `tempo` source frames per output frame.
+   */
+  private audibleFrame = 0;
+  /** True when the last rendered block went through SoundTouch (not bypassed). */
+  private processedLastBlock = false;
+  /** Interleaved scratch buffer, grown on demand. */
+  private scratch = new Float32Array(0);
+  private framesSincePositionReport = 0;
+  private generation = 0;
+
+  constructor(sampleRate: number, emit: (event: SoundTouchEvent) => void) {
+    this.sampleRate = sampleRate;
+    this.emit = emit;
+  }
+
+  /** Current file position in seconds of the audio being output. */
+  get positionSeconds(): number {
+    return this.source ? this.audibleFrame / this.sampleRate : 0;
+  }
+
+  /** Tempo ratio currently applied (follows a running ramp). */
+  get currentTempoRatio(): number {
+    return this.tempoRatio;
+  }
+
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  handle(cmd: SoundTouchCommand): void {
+    switch (cmd.type) {
+      case "load":
+        this.source = new LoopingSampleSource(cmd.channels);
+        this.filter = new SimpleFilter(this.source, this.soundTouch);
+        this.applyLoop();
+        this.resetPipeline(0);
+        this.playing = false;
+        this.endedEmitted = false;
+        break;
+      case "unload":
+        this.source = null;
+        this.filter = null;
+        this.playing = false;
+        this.endedEmitted = false;
+        break;
+      case "play":
+        if (!this.source) return;
+        this.playing = true;
+        this.endedEmitted = false;
+        break;
+      case "pause":
+        this.playing = false;
+        break;
+      case "seek":
+        this.resetPipeline(cmd.seconds * this.sampleRate);
+        this.generation = cmd.generation;
+        this.endedEmitted = false;
+        this.emitPosition();
+        break;
+      case "pitch":
+        this.pitchSemitones = cmd.semitones;
+        this.soundTouch.pitchSemitones = cmd.semitones;
+        break;
+      case "tempo":
+        this.ramp = null;
+        this.tempoRatio = cmd.ratio;
+        this.soundTouch.tempo = cmd.ratio;
+        break;
+      case "tempoRamp":
+        this.ramp = {
+          from: cmd.from,
+          to: cmd.to,
+          frames: Math.max(1, cmd.seconds * this.sampleRate),
+        };
+        this.rampFrame = 0;
+        this.advanceRamp(0);
+        break;
+      case "loop":
+        this.loopStartSeconds = cmd.start;
+        this.loopEndSeconds = cmd.end;
+        this.loopCrossfadeSeconds = cmd.crossfade;
+        this.applyLoop();
+        break;
+      case "stretch": {
+        const p = STRETCH_PARAMETERS[cmd.preset];
+        this.soundTouch.stretch.setParameters(this.sampleRate, p.sequenceMs, p.seekWindowMs, p.overlapMs);
+        // Audio buffered with the old window sizes would splice badly.
+        this.resetPipeline(this.audibleFrame);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Fill one block of stereo output. Writes silence while paused, unloaded or
+   * after the end of the song.
+   */
+  render(left: Float32Array, right: Float32Array): void {
+    const numFrames = left.length;
+    const source = this.source;
+    const filter = this.filter;
+    if (!this.playing || !source || !filter) {
+      left.fill(0);
+      right.fill(0);
+      return;
+    }
+
+    if (this.scratch.length < numFrames * 2) {
+      this.scratch = new Float32Array(numFrames * 2);
+    }
+    const samples = this.scratch;
+    if (this.ramp) this.advanceRamp(numFrames);
+
+    let extracted: number;
+    if (this.canBypass()) {
+      if (this.processedLastBlock) {
+        // Leaving SoundTouch: drop its read-ahead so output resumes where it is audible.
+        this.resetPipeline(this.audibleFrame);
+      }
+      this.processedLastBlock = false;
+      extracted = source.extract(samples, numFrames);
+      this.audibleFrame = source.position;
+    } else {
+      this.processedLastBlock = true;
+      extracted = filter.extract(samples, numFrames);
+      this.audibleFrame = source.wrapFrame(
+        Math.min(this.audibleFrame + extracted * this.tempoRatio, source.length),
+      );
+    }
+
+    for (let i = 0; i < extracted; i++) {
+      left[i] = samples[i * 2];
+      right[i] = samples[i * 2 + 1];
+    }
+    left.fill(0, extracted);
+    right.fill(0, extracted);
+
+    this.framesSincePositionReport += numFrames;
+    if (this.framesSincePositionReport >= POSITION_REPORT_FRAMES) {
+      this.emitPosition();
+    }
+
+    if (extracted === 0 && !this.endedEmitted) {
+      this.playing = false;
+      this.endedEmitted = true;
+      this.emitPosition();
+      this.emit({ type: "ended" });
+    }
+  }
+
+  private canBypass(): boolean {
+    // Switching in and out of SoundTouch resets it, so stay in it for the whole ramp.
+    if (this.ramp) return false;
+    return this.pitchSemitones === 0 && Math.abs(this.tempoRatio - 1.0) < 1e-6;
+  }
+
+  /** Set the tempo for the ramp's current point, then move that point on by `frames`. */
+  private advanceRamp(frames: number): void {
+    const ramp = this.ramp;
+    if (!ramp) return;
+    const t = Math.min(1, this.rampFrame / ramp.frames);
+    this.tempoRatio = ramp.from + (ramp.to - ramp.from) * t;
+    this.soundTouch.tempo = this.tempoRatio;
+    this.rampFrame += frames;
+    if (t >= 1) this.ramp = null;
+  }
+
+  /** Move the source to `frame` and discard everything SoundTouch has buffered. */
+  private resetPipeline(frame: number): void {
+    if (!this.source || !this.filter) return;
+    this.source.position = frame;
+    this.audibleFrame = this.source.position;
+    // The SimpleFilter setter clears the SoundTouch pipeline and output history.
+    this.filter.sourcePosition = this.source.position;
+  }
+
+  private applyLoop(): void {
+    this.source?.setLoop(
+      this.loopStartSeconds * this.sampleRate,
+      this.loopEndSeconds * this.sampleRate,
+      this.loopCrossfadeSeconds * this.sampleRate,
+    );
+  }
+
+  private emitPosition(): void {
+    this.framesSincePositionReport = 0;
+    if (this.ramp || this.rampFrame > 0) {
+      this.emit({ type: "tempo", ratio: this.tempoRatio });
+      // One report after the ramp ends carries the final ratio.
+      if (!this.ramp) this.rampFrame = 0;
+    }
+    this.emit({
+      type: "position",
+      seconds: this.positionSeconds,
+      generation: this.generation,
+    });
+  }
+}
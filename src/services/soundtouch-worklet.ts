@@ -0,0 +1,39 @@
+/**
+ * AudioWorklet processor that runs {@link SoundTouchRenderer} on the audio
+ * rendering thread. Loaded by {@link WorkletAudioEngine} via
+ * `audioWorklet.addModule()`; everything else lives in soundtouch-renderer.ts
+ * so it can be tested outside a worklet scope.
+ */
+
+import {
+  SOUNDTOUCH_PROCESSOR_NAME,
+  SoundTouchRenderer,
+  type SoundTouchCommand,
+  type SoundTouchEvent,
+  type SoundTouchProcessorOptions,
+} from "./soundtouch-renderer.js";
+
+class SoundTouchProcessor extends AudioWorkletProcessor {
+  private readonly renderer: SoundTouchRenderer;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const { sampleRate } = options.processorOptions as SoundTouchProcessorOptions;
+    this.renderer = new SoundTouchRenderer(sampleRate, (event: SoundTouchEvent) =>
+      this.port.postMessage(event),
+    );
+    this.port.onmessage = (e: MessageEvent<SoundTouchCommand>) =>
+      this.renderer.handle(e.data);
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const output = outputs[0];
+    if (!output || output.length === 0) return true;
+    const left = output[0];
+    const right = output[1] ?? new Float32Array(left.length);
+    this.renderer.render(left, right);
+    return true;
+  }
+}
+
+registerProcessor(SOUNDTOUCH_PROCESSOR_NAME, SoundTouchProcessor);
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeWaveformPeaks,
+  parseWaveformCacheEntry,
+  waveformCacheFilename,
+} from "./waveform-cache.js";
+
+describe("computeWaveformPeaks", () => {
+  it("returns one peak per bucket scaled so the loudest is 255", () => {
+    const samples = new Float32Array(400);
+    samples.fill(0.1, 0, 100);
+    samples.fill(-0.4, 100, 200);
+    samples[250] = 0.2;
+    expect(computeWaveformPeaks(samples, 4)).toEqual([64, 255, 128, 0]);
+  });
+
+  it("returns zeros for silence", () => {
+    expect(computeWaveformPeaks(new Float32Array(10), 5)).toEqual([0, 0, 0, 0, 0]);
+  });
+});
+
+describe("waveformCacheFilename", () => {
+  it("is stable and case-insensitive, and differs between paths", () => {
+    const a = waveformCacheFilename("sub/RYL 607 - Come Sail Away.mp3");
+    expect(a).toMatch(/^waveform-[0-9a-f]{8}\.json$/);
+    expect(waveformCacheFilename("SUB/ryl 607 - come sail away.MP3")).toBe(a);
+    expect(waveformCacheFilename("other/RYL 607 - Come Sail Away.mp3")).not.toBe(a);
+  });
+});
+
+describe("parseWaveformCacheEntry", () => {
+  const entry = { version: 1, musicPath: "a.mp3", size: 10, lastModified: 5, peaks: [0, 128, 255] };
+
+  it("reads a valid entry", () => {
+    expect(parseWaveformCacheEntry(JSON.stringify(entry))).toEqual(entry);
+  });
+
+  it("rejects malformed JSON, other versions and out-of-range peaks", () => {
+    expect(parseWaveformCacheEntry("{")).toBeNull();
+    expect(parseWaveformCacheEntry(JSON.stringify({ ...entry, version: 0 }))).toBeNull();
+    expect(parseWaveformCacheEntry(JSON.stringify({ ...entry, peaks: [300] }))).toBeNull();
+    expect(parseWaveformCacheEntry(JSON.stringify({ ...entry, size: "10" }))).toBeNull();
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Waveform overview for the song-play progress slider.
+ *
+ * The overview is {@link WAVEFORM_BUCKETS} peak amplitudes across the whole
+ * file (0–255, loudest bucket = 255). Computing it means decoding the file
+ * again, so the result is cached as one small JSON file per song in the
+ * {@link CACHE_DIR} folder of CallerBuddyRoot. A cache entry records the
+ * music file's size and lastModified and is recomputed when either changes.
+ *
+ * Usage:
+ *   const peaks = await loadWaveformPeaks(root, "sub/Song.mp3", file);
+ *   if (peaks.length) drawWaveform(peaks);
+ */
+
+import { decodeForAnalysis, downmix } from "./bpm-detector.js";
+import {
+  CACHE_DIR,
+  readTextFile,
+  writeTextFile,
+} from "./file-system-service.js";
+import { log } from "./logger.js";
+
+/** Peaks per song: finer than any slider is wide, still ~3 KB of JSON. */
+export const WAVEFORM_BUCKETS = 800;
+/** Bump when the peak format changes so old cache files are recomputed. */
+const CACHE_VERSION = 1;
+
+/** Contents of one cache file. */
+export interface WaveformCacheEntry {
+  version: number;
+  /**
+   * CallerBuddyRoot-relative music path (guards against hash collisions).
+   * Compared case-insensitively, like the hash.
+   */
+  musicPath: string;
+  size: number;
+  lastModified: number;
+  peaks: number[];
+}
+
+/**
+ * Peaks for a song, from the cache or computed (and cached) from `file`.
+ * Returns [] when the file cannot be decoded. Cache read/write failures only
+ * cost a recompute next time.
+ */
+export async function loadWaveformPeaks(
+  root: FileSystemDirectoryHandle,
+  musicPath: string,
+  file: File,
+): Promise<number[]> {
+  const filename = waveformCacheFilename(musicPath);
+  let cacheDir: FileSystemDirectoryHandle | null = null;
+  try {
+    cacheDir = await root.getDirectoryHandle(CACHE_DIR, { create: true });
+    const cached = parseWaveformCacheEntry(await readTextFile(cacheDir, filename));
+    if (
+      cached &&
+      cached.musicPath.toLowerCase() === musicPath.toLowerCase() &&
+      cached.size === file.size &&
+      cached.lastModified === file.lastModified
+    ) {
+      return cached.peaks;
+    }
+  } catch {
+    // No cache file yet (or no cache folder); compute below.
+  }
+
+  let peaks: number[];
+  try {
+    const t0 = performance.now();
+    const audioBuffer = await decodeForAnalysis(await file.arrayBuffer());
+    peaks = computeWaveformPeaks(downmix(audioBuffer));
+    log.info(`Waveform for "${musicPath}" computed in ${(performance.now() - t0).toFixed(0)}ms`);
+  } catch (err) {
+    log.warn(`Waveform failed for "${musicPath}":`, err);
+    return [];
+  }
+
+  if (cacheDir) {
+    const entry: WaveformCacheEntry = {
+      version: CACHE_VERSION,
+      musicPath,
+      size: file.size,
+      lastModified: file.lastModified,
+      peaks,
+    };
+    try {
+      await writeTextFile(cacheDir, filename, JSON.stringify(entry));
+    } catch (err) {
+      log.warn(`Could not cache waveform for "${musicPath}":`, err);
+    }
+  }
+  return peaks;
+}
+
+/**
+ * Peak absolute amplitude of each of `buckets` equal slices of `samples`,
+ * scaled so the loudest slice is 255. Silence yields all zeros.
+ */
+export function computeWaveformPeaks(
+  samples: Float32Array,
+  buckets = WAVEFORM_BUCKETS,
+): number[] {
+  const raw = new Float32Array(buckets);
+  let max = 0;
+  for (let b = 0; b < buckets; b++) {
+    const start = Math.floor((b * samples.length) / buckets);
+    const end = Math.floor(((b + 1) * samples.length) / buckets);
+    let peak = 0;
+    for (let i = start; i < end; i++) {
+      const v = Math.abs(samples[i]);
+      if (v > peak) peak = v;
+    }
+    raw[b] = peak;
+    if (peak > max) max = peak;
+  }
+  return Array.from(raw, (p) => (max > 0 ? Math.round((p / max) * 255) : 0));
+}
+
+/** Cache filename for a music path: FNV-1a hash of the lowercased path. */
+export function waveformCacheFilename(musicPath: string): string {
+  let hash = 0x811c9dc5;
+  for (const ch of musicPath.toLowerCase()) {
+    hash ^= ch.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `waveform-${(hash >>> 0).toString(16).padStart(8, "0")}.json`;
+}
+
+/** Parse a cache file; null when malformed or from another {@link CACHE_VERSION}. */
+export function parseWaveformCacheEntry(text: string): WaveformCacheEntry | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== "object") return null;
+  const o = data as Record<string, unknown>;
+  if (
+    o.version !== CACHE_VERSION ||
+    typeof o.musicPath !== "string" ||
+    typeof o.size !== "number" ||
+    typeof o.lastModified !== "number" ||
+    !Array.isArray(o.peaks) ||
+    !o.peaks.every((p) => typeof p === "number" && p >= 0 && p <= 255)
+  ) {
+    return null;
+  }
+  return {
+    version: o.version,
+    musicPath: o.musicPath,
+    size: o.size,
+    lastModified: o.lastModified,
+    peaks: o.peaks as number[],
+  };
+}
@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { SoundTouchCommand, SoundTouchEvent } from "./soundtouch-renderer.js";
+import { WorkletAudioEngine } from "./worklet-audio-engine.js";
+
+// ---------------------------------------------------------------------------
+// Fake Web Audio graph: just enough for the engine, its Equalizer, Crossfade
+// and Metronome. Worklet nodes record what is posted to their port.
+// ---------------------------------------------------------------------------
+
+function fakeParam(value = 0) {
+  return {
+    value,
+    setValueAtTime: vi.fn(),
+    linearRampToValueAtTime: vi.fn(),
+    cancelScheduledValues: vi.fn(),
+  };
+}
+
+function fakeNode() {
+  return { gain: fakeParam(1), frequency: fakeParam(), type: "", connect: vi.fn(), disconnect: vi.fn() };
+}
+
+class FakeAudioContext {
+  state = "running";
+  currentTime = 0;
+  sampleRate = 44100;
+  destination = fakeNode();
+  audioWorklet = { addModule: vi.fn(() => Promise.resolve()) };
+  createGain = vi.fn(fakeNode);
+  createBiquadFilter = vi.fn(fakeNode);
+  resume = vi.fn(() => Promise.resolve());
+  close = vi.fn(() => Promise.resolve());
+}
+
+class FakeWorkletNode {
+  static instances: FakeWorkletNode[] = [];
+  port = {
+    postMessage: vi.fn(),
+    onmessage: null as ((e: { data: SoundTouchEvent }) => void) | null,
+  };
+  connect = vi.fn();
+  disconnect = vi.fn();
+  readonly options: AudioWorkletNodeOptions;
+
+  constructor(_context: unknown, _name: string, options: AudioWorkletNodeOptions) {
+    this.options = options;
+    FakeWorkletNode.instances.push(this);
+  }
+
+  /** Commands posted so far. */
+  commands(): SoundTouchCommand[] {
+    return this.port.postMessage.mock.calls.map((call) => call[0] as SoundTouchCommand);
+  }
+
+  lastCommand(type: SoundTouchCommand["type"]): SoundTouchCommand | undefined {
+    return this.commands().filter((c) => c.type === type).at(-1);
+  }
+
+  /** Deliver a processor → main thread event. */
+  emit(event: SoundTouchEvent): void {
+    this.port.onmessage?.({ data: event });
+  }
+}
+
+function fakeBuffer(duration: number): AudioBuffer {
+  const sampleRate = 100;
+  return {
+    duration,
+    sampleRate,
+    numberOfChannels: 2,
+    length: duration * sampleRate,
+    getChannelData: () => new Float32Array(duration * sampleRate),
+  } as unknown as AudioBuffer;
+}
+
+let engine: WorkletAudioEngine;
+
+beforeEach(() => {
+  FakeWorkletNode.instances = [];
+  vi.stubGlobal("AudioContext", FakeAudioContext);
+  vi.stubGlobal("AudioWorkletNode", FakeWorkletNode);
+  engine = new WorkletAudioEngine();
+});
+
+afterEach(() => {
+  engine.dispose();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+/** The engine's only (or newest) processor node. */
+function node(): FakeWorkletNode {
+  const n = FakeWorkletNode.instances.at(-1);
+  if (!n) throw new Error("no worklet node was created");
+  return n;
+}
+
+describe("WorkletAudioEngine", () => {
+  it("loads the processor module once and transfers the channel data", async () => {
+    engine.setPitch(2);
+    await engine.loadDecodedAudio(fakeBuffer(10));
+    await engine.loadDecodedAudio(fakeBuffer(20));
+
+    expect(FakeWorkletNode.instances).toHaveLength(1);
+    expect(node().options.outputChannelCount).toEqual([2]);
+    // Settings made before the node existed are replayed into it first.
+    const types = node().commands().map((c) => c.type);
+    expect(types.slice(0, 4)).toEqual(["stretch", "pitch", "tempo", "loop"]);
+    expect(node().lastCommand("pitch")).toEqual({ type: "pitch", semitones: 2 });
+
+    const loads = node().port.postMessage.mock.calls.filter(([cmd]) => cmd.type === "load");
+    expect(loads).toHaveLength(2);
+    const [cmd, transfer] = loads[1] as [{ channels: Float32Array[] }, ArrayBuffer[]];
+    expect(cmd.channels).toHaveLength(2);
+    expect(transfer).toEqual(cmd.channels.map((ch) => ch.buffer));
+    expect(engine.getDuration()).toBe(20);
+  });
+
+  it("posts play and pause", async () => {
+    await engine.loadDecodedAudio(fakeBuffer(10));
+    await engine.play();
+    expect(engine.isPlaying()).toBe(true);
+    expect(node().commands().at(-1)).toEqual({ type: "play" });
+
+    engine.pause();
+    expect(engine.isPlaying()).toBe(false);
+    expect(node().commands().at(-1)).toEqual({ type: "pause" });
+  });
+
+  it("does not play before a song is loaded", async () => {
+    await engine.play();
+    expect(engine.isPlaying()).toBe(false);
+  });
+
+  it("seeks with a new generation and ignores stale position reports", async () => {
+    type Seek = Extract<SoundTouchCommand, { type: "seek" }>;
+    await engine.loadDecodedAudio(fakeBuffer(10));
+    engine.seek(2);
+    const first = node().lastCommand("seek") as Seek;
+
+    engine.seek(25);
+    const second = node().lastCommand("seek") as Seek;
+    expect(second.seconds).toBe(10);
+    expect(second.generation).toBe(first.generation + 1);
+    expect(engine.getCurrentTime()).toBe(10);
+
+    node().emit({ type: "position", seconds: 3, generation: first.generation });
+    expect(engine.getCurrentTime()).toBe(10);
+    node().emit({ type: "position", seconds: 4, generation: second.generation });
+    expect(engine.getCurrentTime()).toBe(4);
+  });
+
+  it("sends loop points with the crossfade and keeps start before end", async () => {
+    await engine.loadDecodedAudio(fakeBuffer(10));
+    engine.setLoopCrossfade(0.05);
+    engine.setLoopPoints(2, 8);
+    expect(node().lastCommand("loop")).toEqual({ type: "loop", start: 2, end: 8, crossfade: 0.05 });
+
+    engine.setLoopPoints(8, 8);
+    const loop = node().lastCommand("loop") as Extract<SoundTouchCommand, { type: "loop" }>;
+    expect(loop.start).toBeLessThan(loop.end);
+
+    engine.setLoopPoints(0, 0);
+    expect(node().lastCommand("loop")).toEqual({ type: "loop", start: 0, end: 0, crossfade: 0.05 });
+  });
+
+  it("combines pitch and cents and sends tempo ratios and ramps", async () => {
+    await engine.loadDecodedAudio(fakeBuffer(10));
+    engine.setPitch(-1);
+    engine.setPitchCents(25);
+    expect(node().lastCommand("pitch")).toEqual({ type: "pitch", semitones: -0.75 });
+
+    engine.setTempo(10, 100);
+    expect(node().lastCommand("tempo")).toEqual({ type: "tempo", ratio: 1.1 });
+    expect(engine.getTempoRatio()).toBeCloseTo(1.1);
+
+    engine.setTempoRamp(0, 20, 60, 100);
+    expect(node().lastCommand("tempoRamp")).toEqual({
+      type: "tempoRamp",
+      from: 1,
+      to: 1.2,
+      seconds: 60,
+    });
+    node().emit({ type: "tempo", ratio: 1.05 });
+    expect(engine.getTempoRatio()).toBe(1.05);
+
+    engine.setStretchPreset("speech");
+    expect(node().lastCommand("stretch")).toEqual({ type: "stretch", preset: "speech" });
+  });
+
+  it("reports the end of the song once", async () => {
+    const ended = vi.fn();
+    engine.onEnded(ended);
+    await engine.loadDecodedAudio(fakeBuffer(10));
+    await engine.play();
+    node().emit({ type: "ended" });
+    node().emit({ type: "ended" });
+    expect(ended).toHaveBeenCalledTimes(1);
+    expect(engine.isPlaying()).toBe(false);
+  });
+
+  it("crossfades into a fresh node and retires the old one after the fade", async () => {
+    vi.useFakeTimers();
+    engine.setTempo(5, 100);
+    await engine.loadDecodedAudio(fakeBuffer(10));
+    await engine.play();
+    const outgoing = node();
+
+    await engine.crossfadeTo(fakeBuffer(20), 2);
+    const incoming = node();
+    expect(incoming).not.toBe(outgoing);
+    // Reports from the old song no longer reach the engine.
+    expect(outgoing.port.onmessage).toBeNull();
+    expect(incoming.lastCommand("tempo")).toEqual({ type: "tempo", ratio: 1.05 });
+    expect(incoming.lastCommand("load")).toBeDefined();
+    expect(outgoing.lastCommand("unload")).toBeUndefined();
+
+    vi.advanceTimersByTime(2000);
+    expect(outgoing.lastCommand("unload")).toEqual({ type: "unload" });
+    expect(outgoing.disconnect).toHaveBeenCalled();
+  });
+
+  it("loads into the same node when nothing is playing to fade from", async () => {
+    await engine.loadDecodedAudio(fakeBuffer(10));
+    await engine.crossfadeTo(fakeBuffer(20), 2);
+    expect(FakeWorkletNode.instances).toHaveLength(1);
+    expect(engine.getDuration()).toBe(20);
+  });
+});
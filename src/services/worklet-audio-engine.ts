@@ -0,0 +1,500 @@
+/**
+ * AudioWorklet implementation of {@link AudioEngine}.
+ *
+ * Same behaviour as {@link WebAudioEngine}, but SoundTouch runs on the audio
+ * rendering thread (soundtouch-worklet.ts) instead of in a main-thread
+ * ScriptProcessorNode, so a busy UI (e.g. a large playlist-editor re-render)
+ * no longer causes dropouts.
+ *
+ * The decoded channel data is transferred to the processor once per song.
+ * After that the main thread only sends small commands (play, seek, pitch …)
+ * and receives position reports; see {@link SoundTouchCommand}. Looping is
+ * done inside the processor, so loop wraps are sample-accurate.
+ *
+ * {@link CallerBuddy} picks this engine at startup when
+ * {@link WorkletAudioEngine.isSupported} is true.
+ */
+
+import {
+  Crossfade,
+  Equalizer,
+  playErrorTone,
+  setContextOutputDevice,
+  tempoRatioFromDelta,
+  type AudioEngine,
+  type EndedCallback,
+  type EqualizerGains,
+  type TimeUpdateCallback,
+} from "./audio-engine.js";
+import {
+  SOUNDTOUCH_PROCESSOR_NAME,
+  type SoundTouchCommand,
+  type SoundTouchEvent,
+  type SoundTouchProcessorOptions,
+} from "./soundtouch-renderer.js";
+import soundTouchWorkletUrl from "./soundtouch-worklet.ts?worker&url";
+import type { StretchPreset } from "../models/song.js";
+import { playAlarmSound, type BuiltInAlarmSound } from "./alarm-sounds.js";
+import { log } from "./logger.js";
+import { Metronome } from "./metronome.js";
+import { WakeLockService } from "./wake-lock.js";
+
+/** Same polling interval as WebAudioEngine (timers keep running in background tabs). */
+const TIME_UPDATE_INTERVAL_MS = 100;
+
+export class WorkletAudioEngine implements AudioEngine {
+  /** True when the browser can run AudioWorklet processors. */
+  static isSupported(): boolean {
+    return (
+      typeof AudioWorkletNode !== "undefined" &&
+      typeof AudioContext !== "undefined" &&
+      "audioWorklet" in AudioContext.prototype
+    );
+  }
+
+  private context: AudioContext;
+  private gainNode: GainNode;
+  /** Last gain stage; only a crossfade moves it off 1. */
+  private fadeNode: GainNode;
+  private equalizer: Equalizer;
+  private metronome: Metronome;
+  /** Song volume (0–1) and loudness leveling (linear); gainNode = product. */
+  private volumeGain = 1;
+  private levelingGain = 1;
+  /** Outgoing song of a running crossfade (see {@link crossfadeTo}). */
+  private crossfade: Crossfade | null = null;
+  private node: AudioWorkletNode | null = null;
+  /** Pending/finished addModule() call; shared so the module loads once. */
+  private moduleReady: Promise<void> | null = null;
+
+  private duration = 0;
+  private loaded = false;
+  private playing = false;
+
+  /** Current pitch shift in half-steps. */
+  private pitchHalfSteps = 0;
+  /** Current fine pitch in cents, on top of pitchHalfSteps. */
+  private pitchCents = 0;
+  /** Time-stretch preset, resent when the node is recreated. */
+  private stretchPreset: StretchPreset = "auto";
+  /** Current tempo ratio (1.0 = original); the ramp's start while ramping. */
+  private tempoRatio = 1.0;
+  /** Ramp passed to {@link setTempoRamp}, replayed into a new node; null = fixed tempo. */
+  private tempoRamp: { from: number; to: number; seconds: number } | null = null;
+  /** Tempo ratio as last reported by the processor while ramping. */
+  private liveTempoRatio = 1.0;
+
+  // --- Loop state ---
+  private loopStart = 0;
+  private loopEnd = 0;
+  private loopCrossfade = 0;
+
+  // --- Callbacks ---
+  private endedCb: EndedCallback | null = null;
+  private timeUpdateCb: TimeUpdateCallback | null = null;
+  private timeUpdateIntervalId: ReturnType<typeof setInterval> | null = null;
+
+  // --- Playback tracking ---
+  /** Current position in the song file (seconds), as last reported by the processor. */
+  private positionSeconds = 0;
+  /** See {@link AudioEngine.setStartOffset}. */
+  private startOffsetSeconds = 0;
+  /** Bumped on every seek; position reports from older generations are stale. */
+  private seekGeneration = 0;
+
+  private wakeLock = new WakeLockService();
+
+  /** When returning to the tab, resume a browser-suspended context (important when auto-pause-on-blur is off). */
+  private readonly onDocumentVisibilityChange = () => {
+    if (document.visibilityState === "visible") {
+      void this.ensureContextRunning();
+    }
+  };
+
+  constructor() {
+    this.context = new AudioContext();
+    this.fadeNode = this.context.createGain();
+    this.fadeNode.connect(this.context.destination);
+    this.gainNode = this.context.createGain();
+    this.gainNode.connect(this.fadeNode);
+    this.equalizer = new Equalizer(this.context, this.gainNode);
+    this.metronome = new Metronome(this.context);
+    document.addEventListener("visibilitychange", this.onDocumentVisibilityChange);
+  }
+
+  async loadAudio(audioData: ArrayBuffer): Promise<void> {
+    this.stop();
+    const t0 = performance.now();
+    const buffer = await this.decodeAudio(audioData);
+    const t1 = performance.now();
+    await this.loadDecodedAudio(buffer);
+    log.info(`Audio decode: ${(t1 - t0).toFixed(1)}ms`);
+  }
+
+  decodeAudio(audioData: ArrayBuffer): Promise<AudioBuffer> {
+    return this.context.decodeAudioData(audioData);
+  }
+
+  async loadDecodedAudio(buffer: AudioBuffer): Promise<void> {
+    this.startOffsetSeconds = 0;
+    this.stop();
+    await this.ensureNode();
+
+    // Copy out of the AudioBuffer and transfer the copies (one copy, no clone).
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < Math.min(buffer.numberOfChannels, 2); c++) {
+      channels.push(buffer.getChannelData(c).slice());
+    }
+    this.post(
+      { type: "load", channels },
+      channels.map((ch) => ch.buffer as ArrayBuffer),
+    );
+    this.duration = buffer.duration;
+    this.loaded = true;
+    this.positionSeconds = 0;
+    log.info(
+      `Audio loaded (worklet): ${buffer.duration.toFixed(1)}s, ` +
+        `${buffer.numberOfChannels}ch, ${buffer.sampleRate}Hz`,
+    );
+  }
+
+  /**
+   * The outgoing song keeps its processor node, which is detached and
+   * released after the fade; the next song gets a fresh node.
+   */
+  async crossfadeTo(buffer: AudioBuffer, seconds: number): Promise<void> {
+    this.endCrossfade();
+    const outgoing = this.playing ? this.node : null;
+    let crossfade: Crossfade | null = null;
+    if (outgoing) {
+      outgoing.port.onmessage = null;
+      outgoing.disconnect();
+      this.node = null;
+      crossfade = new Crossfade(this.context, outgoing, this.gainNode.gain.value, () => {
+        outgoing.port.postMessage({ type: "unload" } satisfies SoundTouchCommand);
+        outgoing.disconnect();
+      });
+    }
+    await this.loadDecodedAudio(buffer);
+    if (!crossfade) return;
+    this.crossfade = crossfade;
+    crossfade.start(this.fadeNode, seconds);
+    log.info(`crossfadeTo (worklet): ${buffer.duration.toFixed(1)}s over ${seconds}s`);
+  }
+
+  async ensureContextRunning(): Promise<void> {
+    if (this.context.state === "suspended") {
+      try {
+        await this.context.resume();
+      } catch (err) {
+        log.warn("AudioContext.resume() failed:", err);
+      }
+    }
+  }
+
+  async play(): Promise<void> {
+    if (this.playing || !this.loaded) return;
+    if (this.context.state === "suspended") {
+      await this.context.resume();
+    }
+    this.post({ type: "play" });
+    this.playing = true;
+    this.startTimeUpdates();
+    void this.wakeLock.acquire();
+  }
+
+  pause(): void {
+    this.metronome.cancel();
+    this.endCrossfade();
+    if (!this.playing) return;
+    this.post({ type: "pause" });
+    this.playing = false;
+    this.stopTimeUpdates();
+    void this.wakeLock.release();
+  }
+
+  stop(): void {
+    this.metronome.cancel();
+    this.endCrossfade();
+    this.post({ type: "pause" });
+    this.postSeek(this.startOffsetSeconds);
+    this.positionSeconds = this.startOffsetSeconds;
+    this.playing = false;
+    this.stopTimeUpdates();
+    void this.wakeLock.release();
+  }
+
+  setStartOffset(seconds: number): void {
+    const atStart = !this.playing && this.positionSeconds === this.startOffsetSeconds;
+    this.startOffsetSeconds = Math.max(0, seconds);
+    if (atStart) this.seek(this.startOffsetSeconds);
+  }
+
+  getStartOffset(): number {
+    return this.startOffsetSeconds;
+  }
+
+  seek(timeSeconds: number): void {
+    this.metronome.cancel();
+    const clampedTime = Math.max(0, Math.min(timeSeconds, this.getDuration()));
+    this.postSeek(clampedTime);
+    this.positionSeconds = clampedTime;
+    // Notify UI immediately (time-update polling is stopped while paused).
+    this.timeUpdateCb?.(this.positionSeconds);
+  }
+
+  getCurrentTime(): number {
+    return this.positionSeconds;
+  }
+
+  getDuration(): number {
+    return this.loaded ? this.duration : 0;
+  }
+
+  setVolume(volume: number): void {
+    // volume is 0-100 → gain is 0-1
+    this.volumeGain = Math.max(0, Math.min(volume, 100)) / 100;
+    this.gainNode.gain.value = this.volumeGain * this.levelingGain;
+  }
+
+  setLevelingGain(db: number): void {
+    this.levelingGain = 10 ** (db / 20);
+    this.gainNode.gain.value = this.volumeGain * this.levelingGain;
+    log.info(`setLevelingGain(${db.toFixed(1)} dB)`);
+  }
+
+  setEqualizer(gains: EqualizerGains): void {
+    this.equalizer.set(gains);
+    log.info(`setEqualizer(bass ${gains.bass}, mid ${gains.mid}, treble ${gains.treble})`);
+  }
+
+  setOutputDevice(deviceId: string): Promise<void> {
+    return setContextOutputDevice(this.context, deviceId);
+  }
+
+  setPitch(halfSteps: number): void {
+    this.pitchHalfSteps = halfSteps;
+    this.post({ type: "pitch", semitones: this.pitchSemitones() });
+    log.info(`setPitch(${halfSteps}) — pitch shift set to ${halfSteps} half-steps`);
+  }
+
+  setPitchCents(cents: number): void {
+    this.pitchCents = cents;
+    this.post({ type: "pitch", semitones: this.pitchSemitones() });
+    log.info(`setPitchCents(${cents}) — fine pitch set to ${cents} cents`);
+  }
+
+  setStretchPreset(preset: StretchPreset): void {
+    this.stretchPreset = preset;
+    this.post({ type: "stretch", preset });
+    log.info(`setStretchPreset(${preset})`);
+  }
+
+  /** Total pitch shift in (fractional) half-steps, as SoundTouch takes it. */
+  private pitchSemitones(): number {
+    return this.pitchHalfSteps + this.pitchCents / 100;
+  }
+
+  setTempo(deltaBPM: number, referenceBPM?: number): void {
+    this.tempoRatio = tempoRatioFromDelta(deltaBPM, referenceBPM);
+    this.liveTempoRatio = this.tempoRatio;
+    this.tempoRamp = null;
+    this.post({ type: "tempo", ratio: this.tempoRatio });
+    log.info(`setTempo(${deltaBPM}) — tempo ratio ${this.tempoRatio.toFixed(3)}`);
+  }
+
+  setTempoRamp(
+    fromDeltaBPM: number,
+    toDeltaBPM: number,
+    seconds: number,
+    referenceBPM?: number,
+  ): void {
+    this.tempoRatio = tempoRatioFromDelta(fromDeltaBPM, referenceBPM);
+    this.liveTempoRatio = this.tempoRatio;
+    this.tempoRamp = {
+      from: this.tempoRatio,
+      to: tempoRatioFromDelta(toDeltaBPM, referenceBPM),
+      seconds,
+    };
+    this.post({ type: "tempoRamp", ...this.tempoRamp });
+    log.info(
+      `setTempoRamp(${fromDeltaBPM} → ${toDeltaBPM} over ${seconds}s) — tempo ratio ` +
+        `${this.tempoRamp.from.toFixed(3)} → ${this.tempoRamp.to.toFixed(3)}`,
+    );
+  }
+
+  getTempoRatio(): number {
+    return this.liveTempoRatio;
+  }
+
+  setMetronome(bpm: number, offset: number): void {
+    this.metronome.configure(bpm, offset);
+  }
+
+  async playCountIn(clicks: number, bpm: number): Promise<boolean> {
+    await this.ensureContextRunning();
+    return this.metronome.countIn(clicks, bpm);
+  }
+
+  setLoopPoints(startSeconds: number, endSeconds: number): void {
+    let start = startSeconds;
+    const end = endSeconds;
+    // Require start < end when looping is on (end > 0); allow both 0 = disabled
+    if (end > 0 && start >= end) {
+      start = Math.max(0, end - 0.001);
+    }
+    this.loopStart = start;
+    this.loopEnd = end;
+    this.postLoop();
+    log.info(
+      `setLoopPoints(${start.toFixed(2)}, ${end.toFixed(2)}) — ` +
+        (end > 0 ? "looping enabled" : "looping disabled"),
+    );
+  }
+
+  setLoopCrossfade(seconds: number): void {
+    this.loopCrossfade = Math.max(0, seconds);
+    this.postLoop();
+    log.info(`setLoopCrossfade(${this.loopCrossfade.toFixed(3)})`);
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  onEnded(callback: EndedCallback): void {
+    this.endedCb = callback;
+  }
+
+  onTimeUpdate(callback: TimeUpdateCallback): void {
+    this.timeUpdateCb = callback;
+  }
+
+  playAlarm(sound: BuiltInAlarmSound | AudioBuffer, volume: number): void {
+    playAlarmSound(this.context, sound, volume);
+  }
+
+  /** Play a short beep for errors (e.g. no song to play). Uses a softer profile than timer beeps. */
+  playErrorBeep(): void {
+    playErrorTone(this.context);
+  }
+
+  dispose(): void {
+    this.metronome.cancel();
+    document.removeEventListener("visibilitychange", this.onDocumentVisibilityChange);
+    this.stop();
+    this.post({ type: "unload" });
+    if (this.node) {
+      this.node.port.onmessage = null;
+      this.node.disconnect();
+      this.node = null;
+    }
+    this.wakeLock.dispose();
+    this.context.close();
+  }
+
+  // -- private helpers ------------------------------------------------------
+
+  /**
+   * Load the processor module (once) and create the node, replaying the
+   * current pitch/tempo/loop settings into it.
+   */
+  private async ensureNode(): Promise<AudioWorkletNode> {
+    if (this.node) return this.node;
+    if (!this.moduleReady) {
+      const t0 = performance.now();
+      this.moduleReady = this.context.audioWorklet
+        .addModule(soundTouchWorkletUrl)
+        .then(() => {
+          log.info(`SoundTouch worklet loaded in ${(performance.now() - t0).toFixed(1)}ms`);
+        })
+        .catch((err: unknown) => {
+          this.moduleReady = null;
+          throw err;
+        });
+    }
+    await this.moduleReady;
+    if (this.node) return this.node;
+
+    const processorOptions: SoundTouchProcessorOptions = {
+      sampleRate: this.context.sampleRate,
+    };
+    const node = new AudioWorkletNode(this.context, SOUNDTOUCH_PROCESSOR_NAME, {
+      numberOfInputs: 0,
+      numberOfOutputs: 1,
+      outputChannelCount: [2],
+      processorOptions,
+    });
+    node.port.onmessage = (e: MessageEvent<SoundTouchEvent>) =>
+      this.onProcessorEvent(e.data);
+    node.connect(this.equalizer.input);
+    this.node = node;
+
+    this.post({ type: "stretch", preset: this.stretchPreset });
+    this.post({ type: "pitch", semitones: this.pitchSemitones() });
+    this.post({ type: "tempo", ratio: this.tempoRatio });
+    if (this.tempoRamp) this.post({ type: "tempoRamp", ...this.tempoRamp });
+    this.postLoop();
+    return node;
+  }
+
+  private endCrossfade(): void {
+    this.crossfade?.end();
+    this.crossfade = null;
+  }
+
+  private post(cmd: SoundTouchCommand, transfer: Transferable[] = []): void {
+    this.node?.port.postMessage(cmd, transfer);
+  }
+
+  private postLoop(): void {
+    this.post({
+      type: "loop",
+      start: this.loopStart,
+      end: this.loopEnd,
+      crossfade: this.loopCrossfade,
+    });
+  }
+
+  private postSeek(seconds: number): void {
+    this.seekGeneration++;
+    this.post({ type: "seek", seconds, generation: this.seekGeneration });
+  }
+
+  private onProcessorEvent(event: SoundTouchEvent): void {
+    switch (event.type) {
+      case "position":
+        if (event.generation !== this.seekGeneration) return;
+        this.positionSeconds = event.seconds;
+        break;
+      case "tempo":
+        this.liveTempoRatio = event.ratio;
+        break;
+      case "ended":
+        if (!this.playing) return;
+        this.playing = false;
+        this.stopTimeUpdates();
+        void this.wakeLock.release();
+        this.timeUpdateCb?.(this.positionSeconds);
+        this.endedCb?.();
+        break;
+    }
+  }
+
+  private startTimeUpdates(): void {
+    this.stopTimeUpdates();
+    const tick = () => {
+      if (this.playing) this.metronome.update(this.positionSeconds, this.liveTempoRatio);
+      this.timeUpdateCb?.(this.positionSeconds);
+    };
+    tick();
+    this.timeUpdateIntervalId = window.setInterval(tick, TIME_UPDATE_INTERVAL_MS);
+  }
+
+  private stopTimeUpdates(): void {
+    if (this.timeUpdateIntervalId !== null) {
+      window.clearInterval(this.timeUpdateIntervalId);
+      this.timeUpdateIntervalId = null;
+    }
+  }
+}
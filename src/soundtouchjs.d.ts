@@ -103,6 +103,8 @@ declare module "soundtouchjs" {
 
   export class SoundTouch {
     constructor();
+    /** The WSOLA time-stretch stage; its window sizes set the stretch quality. */
+    readonly stretch: Stretch;
     set pitch(value: number);
     set pitchSemitones(value: number);
     set pitchOctaves(value: number);
@@ -135,7 +137,18 @@ declare module "soundtouchjs" {
     receiveSamples(output: Float32Array, numFrames?: number): void;
   }
 
-  export class WebAudioBufferSource {
+  /**
+   * Anything {@link SimpleFilter} can pull interleaved stereo frames from.
+   * `position` is the filter's own running source counter; stateful sources
+   * (e.g. a looping reader) may ignore it.
+   *
+   * @returns The number of frames written to `target` (0 = source exhausted).
+   */
+  export interface SampleSource {
+    extract(target: Float32Array, numFrames: number, position?: number): number;
+  }
+
+  export class WebAudioBufferSource implements SampleSource {
     constructor(buffer: AudioBuffer);
     get dualChannel(): boolean;
     get position(): number;
@@ -149,7 +162,7 @@ declare module "soundtouchjs" {
 
   export class SimpleFilter {
     constructor(
-      sourceSound: WebAudioBufferSource,
+      sourceSound: SampleSource,
       pipe: SoundTouch,
       callback?: () => void,
     );
@@ -175,5 +188,15 @@ declare module "soundtouchjs" {
   export class Stretch {
     constructor(createBuffers: boolean);
     set tempo(value: number);
+    /**
+     * Set the WSOLA window sizes. A sequence or seek window of 0 is chosen
+     * automatically from the tempo; an overlap of 0 leaves it unchanged.
+     */
+    setParameters(
+      sampleRate: number,
+      sequenceMs: number,
+      seekWindowMs: number,
+      overlapMs: number,
+    ): void;
   }
 }
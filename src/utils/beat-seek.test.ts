@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import {
+  beatSeekTarget,
+  phraseSeekTarget,
+  phraseStartAt,
+  type BeatSeekGrid,
+} from "./beat-seek.js";
+
+// 120 BPM: a beat every 0.5 s, one at 0.1 s; music starts at 2.05 s, so the
+// first phrase starts on the beat at 2.1 s and phrases are 4 s long.
+const grid: BeatSeekGrid = { bpm: 120, offset: 0.1, phraseBeats: 8, musicStart: 2.05 };
+
+describe("beatSeekTarget", () => {
+  it("moves to the next or previous beat", () => {
+    expect(beatSeekTarget(grid, 3.3, 1)).toBeCloseTo(3.6);
+    expect(beatSeekTarget(grid, 3.3, -1)).toBeCloseTo(3.1);
+  });
+
+  it("moves a whole beat when already on one", () => {
+    expect(beatSeekTarget(grid, 3.1, 1)).toBeCloseTo(3.6);
+    expect(beatSeekTarget(grid, 3.1, -1)).toBeCloseTo(2.6);
+    expect(beatSeekTarget(grid, 3.12, -1)).toBeCloseTo(2.6);
+  });
+});
+
+describe("phraseSeekTarget", () => {
+  it("moves exactly one phrase, landing on a beat", () => {
+    expect(phraseSeekTarget(grid, 10.1, -1)).toBeCloseTo(6.1);
+    expect(phraseSeekTarget(grid, 10.2, 1)).toBeCloseTo(14.1);
+  });
+});
+
+describe("phraseStartAt", () => {
+  it("finds the start of the current phrase, counted from the music start", () => {
+    expect(phraseStartAt(grid, 2.1)).toBeCloseTo(2.1);
+    expect(phraseStartAt(grid, 5.9)).toBeCloseTo(2.1);
+    expect(phraseStartAt(grid, 6.1)).toBeCloseTo(6.1);
+    expect(phraseStartAt(grid, 6.08)).toBeCloseTo(6.1);
+  });
+
+  it("uses 16-beat phrases when asked", () => {
+    expect(phraseStartAt({ ...grid, phraseBeats: 16 }, 9.9)).toBeCloseTo(2.1);
+    expect(phraseStartAt({ ...grid, phraseBeats: 16 }, 10.2)).toBeCloseTo(10.1);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Beat and phrase arithmetic for beat-aligned seeking in the song player.
+ *
+ * Beats fall at `offset + k × 60/bpm` seconds of the source file (see
+ * Song.beatOffset). Phrases are `phraseBeats` beats long, counted from the
+ * first beat at or after `musicStart` (the end of the lead-in), so the first
+ * phrase begins with the music.
+ */
+
+export interface BeatSeekGrid {
+  bpm: number;
+  /** Time of one beat, in seconds of the file. */
+  offset: number;
+  phraseBeats: number;
+  /** Where the music starts (Song.leadIn, or 0). */
+  musicStart: number;
+}
+
+/** A position this close to a beat counts as on it (so repeated presses keep moving). */
+const ON_BEAT_SECONDS = 0.05;
+
+/** The next (direction 1) or previous (-1) beat from `position`. */
+export function beatSeekTarget(grid: BeatSeekGrid, position: number, direction: 1 | -1): number {
+  const period = 60 / grid.bpm;
+  const index = (position - grid.offset) / period;
+  const tolerance = ON_BEAT_SECONDS / period;
+  const k = direction > 0 ? Math.floor(index + tolerance) + 1 : Math.ceil(index - tolerance) - 1;
+  return grid.offset + k * period;
+}
+
+/** Exactly one phrase later or earlier than `position`, on the nearest beat. */
+export function phraseSeekTarget(grid: BeatSeekGrid, position: number, direction: 1 | -1): number {
+  const period = 60 / grid.bpm;
+  const target = position + direction * grid.phraseBeats * period;
+  return grid.offset + Math.round((target - grid.offset) / period) * period;
+}
+
+/** Start of the phrase that `position` is in. */
+export function phraseStartAt(grid: BeatSeekGrid, position: number): number {
+  const period = 60 / grid.bpm;
+  const tolerance = ON_BEAT_SECONDS / period;
+  const anchor = Math.ceil((grid.musicStart - grid.offset) / period - tolerance);
+  const index = (position - grid.offset) / period;
+  const phrase = Math.floor((index - anchor + tolerance) / grid.phraseBeats);
+  return grid.offset + (anchor + phrase * grid.phraseBeats) * period;
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { isLoopWrap, medleyTempoDelta, medleyTrackDone } from "./medley.js";
+
+describe("isLoopWrap", () => {
+  it("sees playback jump from the loop end back to the start", () => {
+    expect(isLoopWrap(39.9, 10.2, 10, 40)).toBe(true);
+    expect(isLoopWrap(20, 20.1, 10, 40)).toBe(false);
+  });
+
+  it("ignores small backward steps and disabled loops", () => {
+    expect(isLoopWrap(30, 28, 10, 40)).toBe(false);
+    expect(isLoopWrap(39.9, 10.2, 0, 0)).toBe(false);
+  });
+});
+
+describe("medleyTrackDone", () => {
+  it("counts minutes of playing", () => {
+    expect(medleyTrackDone("minutes", 2, 119, 5)).toBe(false);
+    expect(medleyTrackDone("minutes", 2, 120, 0)).toBe(true);
+  });
+
+  it("counts loops", () => {
+    expect(medleyTrackDone("loops", 3, 600, 2)).toBe(false);
+    expect(medleyTrackDone("loops", 3, 10, 3)).toBe(true);
+  });
+});
+
+describe("medleyTempoDelta", () => {
+  it("matches the BPM being played", () => {
+    expect(medleyTempoDelta(126.5, 124, 0)).toBe(2.5);
+    expect(medleyTempoDelta(120, 128, 3)).toBe(-8);
+  });
+
+  it("keeps the song's own tempo when a BPM is unknown", () => {
+    expect(medleyTempoDelta(0, 128, 3)).toBe(3);
+    expect(medleyTempoDelta(126, 0, -2)).toBe(-2);
+  });
+});
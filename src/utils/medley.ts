@@ -0,0 +1,40 @@
+/**
+ * Patter medley arithmetic: when the playing track has had its turn, and the
+ * tempo the next track needs to carry on at the same BPM.
+ */
+
+import type { MedleySwitchBy } from "../models/settings.js";
+
+/**
+ * True when playback went from the second half of the loop back into the
+ * first half, i.e. the loop wrapped (a backward seek that far also counts).
+ */
+export function isLoopWrap(
+  previousSeconds: number,
+  positionSeconds: number,
+  loopStart: number,
+  loopEnd: number,
+): boolean {
+  if (loopEnd <= loopStart) return false;
+  const middle = (loopStart + loopEnd) / 2;
+  return previousSeconds >= middle && positionSeconds < middle;
+}
+
+/** True once a medley track has played for `after` minutes or loops. */
+export function medleyTrackDone(
+  by: MedleySwitchBy,
+  after: number,
+  playedSeconds: number,
+  loops: number,
+): boolean {
+  return by === "loops" ? loops >= after : playedSeconds >= after * 60;
+}
+
+/**
+ * Tempo change (BPM, to 0.1) that plays a song recorded at `originalTempo`
+ * at `bpm`. Keeps `fallbackDelta` when either tempo is unknown.
+ */
+export function medleyTempoDelta(bpm: number, originalTempo: number, fallbackDelta: number): number {
+  if (bpm <= 0 || originalTempo <= 0) return fallbackDelta;
+  return Math.round((bpm - originalTempo) * 10) / 10;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { formatKey, keyName, parseKey, pitchToKey, transposeKey } from "./musical-key.js";
+
+describe("parseKey / keyName", () => {
+  it("round-trips the stored spellings", () => {
+    for (const name of ["C", "Db", "F#", "Bb", "C#m", "Ebm", "G#m", "Am"]) {
+      expect(keyName(parseKey(name)!)).toBe(name);
+    }
+  });
+
+  it("accepts other spellings of the same tonic", () => {
+    expect(keyName(parseKey("A#")!)).toBe("Bb");
+    expect(keyName(parseKey("Gb")!)).toBe("F#");
+    expect(keyName(parseKey("Dbm")!)).toBe("C#m");
+  });
+
+  it("rejects empty and malformed names", () => {
+    expect(parseKey("")).toBeNull();
+    expect(parseKey("H")).toBeNull();
+    expect(parseKey("G major")).toBeNull();
+  });
+});
+
+describe("transposeKey", () => {
+  it("moves the tonic by half-steps, wrapping around the octave", () => {
+    expect(transposeKey("G", 1)).toBe("Ab");
+    expect(transposeKey("G", -2)).toBe("F");
+    expect(transposeKey("B", 3)).toBe("D");
+    expect(transposeKey("Em", -5)).toBe("Bm");
+    expect(transposeKey("C", 0)).toBe("C");
+  });
+
+  it("returns an empty string when the key is unknown", () => {
+    expect(transposeKey("", 2)).toBe("");
+  });
+});
+
+describe("formatKey", () => {
+  it("uses flat and sharp signs", () => {
+    expect(formatKey("Ab")).toBe("A♭");
+    expect(formatKey("F#m")).toBe("F♯m");
+    expect(formatKey("Bbm")).toBe("B♭m");
+    expect(formatKey("G")).toBe("G");
+  });
+});
+
+describe("pitchToKey", () => {
+  it("takes the shorter way round the octave", () => {
+    expect(pitchToKey("G", "A")).toBe(2);
+    expect(pitchToKey("A", "G")).toBe(-2);
+    expect(pitchToKey("C", "F#")).toBe(-6);
+    expect(pitchToKey("C", "F")).toBe(5);
+    expect(pitchToKey("Bb", "Bb")).toBe(0);
+  });
+
+  it("compares minor keys by their relative major", () => {
+    expect(pitchToKey("Em", "G")).toBe(0);
+    expect(pitchToKey("Em", "A")).toBe(2);
+    expect(pitchToKey("C", "Am")).toBe(0);
+  });
+
+  it("returns 0 when either key is unknown", () => {
+    expect(pitchToKey("", "A")).toBe(0);
+    expect(pitchToKey("G", "")).toBe(0);
+  });
+});
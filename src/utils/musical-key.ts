@@ -0,0 +1,67 @@
+/**
+ * Musical key names, as stored in {@link Song.originalKey}.
+ *
+ * Keys are stored in plain ASCII ("G", "Bb", "F#m") so CallerBuddySongs.json
+ * stays easy to edit; {@link formatKey} adds the ♭/♯ glyphs for display.
+ * Each tonic has one spelling, the one most common for that key (Bb not A#,
+ * F# not Gb, C#m not Dbm).
+ */
+
+/** Stored names of the major keys, C to B. */
+export const MAJOR_KEYS: readonly string[] = ["C", "Db", "D", "Eb", "E", "F", "F#", "G", "Ab", "A", "Bb", "B"];
+const MINOR_KEYS = ["Cm", "C#m", "Dm", "Ebm", "Em", "Fm", "F#m", "Gm", "G#m", "Am", "Bbm", "Bm"];
+
+const NOTE_PITCH_CLASSES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+/** A key as tonic pitch class (0 = C … 11 = B) plus mode. */
+export interface MusicalKey {
+  tonic: number;
+  minor: boolean;
+}
+
+/** Stored name for a key, e.g. { tonic: 10, minor: false } → "Bb". */
+export function keyName(key: MusicalKey): string {
+  const tonic = ((key.tonic % 12) + 12) % 12;
+  return key.minor ? MINOR_KEYS[tonic] : MAJOR_KEYS[tonic];
+}
+
+/**
+ * Parse a key name ("G", "Bb", "A#", "F#m", "Ebm"). Returns null for an empty
+ * or unrecognized name.
+ */
+export function parseKey(name: string): MusicalKey | null {
+  const m = /^([A-G])([#b]?)(m?)$/.exec(name.trim());
+  if (!m) return null;
+  const accidental = m[2] === "#" ? 1 : m[2] === "b" ? -1 : 0;
+  return {
+    tonic: (NOTE_PITCH_CLASSES[m[1]] + accidental + 12) % 12,
+    minor: m[3] === "m",
+  };
+}
+
+/** The key `name` becomes when pitched by `halfSteps`; "" if `name` is not a key. */
+export function transposeKey(name: string, halfSteps: number): string {
+  const key = parseKey(name);
+  if (!key) return "";
+  return keyName({ tonic: key.tonic + Math.round(halfSteps), minor: key.minor });
+}
+
+/**
+ * Half-steps (-6 … +5) that move a song in key `from` to the caller's key `to`,
+ * by the shortest way round the octave. Minor keys are compared by their
+ * relative major, since a melody in Em sits where one in G does. 0 if either
+ * is not a key.
+ */
+export function pitchToKey(from: string, to: string): number {
+  const a = parseKey(from);
+  const b = parseKey(to);
+  if (!a || !b) return 0;
+  const majorTonic = (k: MusicalKey) => k.tonic + (k.minor ? 3 : 0);
+  const up = (((majorTonic(b) - majorTonic(a)) % 12) + 12) % 12;
+  return up > 5 ? up - 12 : up;
+}
+
+/** Display form of a stored key name: "Bb" → "B♭", "F#m" → "F♯m". */
+export function formatKey(name: string): string {
+  return name.replace("#", "♯").replace(/^([A-G])b/, "$1♭");
+}
@@ -89,6 +89,10 @@ describe("tempoRatioFromSong", () => {
     expect(tempoRatioFromSong({ originalTempo: 120, deltaTempo: 12 })).toBeCloseTo(1.1, 5);
   });
 
+  it("uses an explicit tempo change over the song's own", () => {
+    expect(tempoRatioFromSong({ originalTempo: 120, deltaTempo: 12 }, 6)).toBeCloseTo(1.05, 5);
+  });
+
   it("clamps ratio to 0.5–2", () => {
     expect(tempoRatioFromSong({ originalTempo: 0, deltaTempo: -200 })).toBe(0.5);
     expect(tempoRatioFromSong({ originalTempo: 0, deltaTempo: 500 })).toBe(2);
@@ -35,10 +35,16 @@ export function referenceBpmForSong(song: Pick<Song, "originalTempo">): number {
   return song.originalTempo > 0 ? song.originalTempo : DEFAULT_REFERENCE_BPM;
 }
 
-/** Tempo ratio (source seconds per wall second), clamped like WebAudioEngine.setTempo. */
-export function tempoRatioFromSong(song: Pick<Song, "originalTempo" | "deltaTempo">): number {
+/**
+ * Tempo ratio (source seconds per wall second), clamped like WebAudioEngine.setTempo.
+ * `deltaTempo` defaults to the song's own; pass the effective one in target tempo mode.
+ */
+export function tempoRatioFromSong(
+  song: Pick<Song, "originalTempo" | "deltaTempo">,
+  deltaTempo = song.deltaTempo,
+): number {
   const ref = referenceBpmForSong(song);
-  const ratio = (ref + song.deltaTempo) / ref;
+  const ratio = (ref + deltaTempo) / ref;
   return Math.max(MIN_TEMPO_RATIO, Math.min(MAX_TEMPO_RATIO, ratio));
 }
 
@@ -0,0 +1,79 @@
+import { html, nothing, type ReactiveControllerHost } from "lit";
+import { callerBuddy } from "../caller-buddy.js";
+import { ALARM_SOUNDS, type AlarmSound, type AlarmTimer } from "../models/settings.js";
+import { ALARM_SOUND_LABELS } from "../services/alarm-sounds.js";
+import { formatUnknownError } from "./format.js";
+
+/**
+ * Alarm sound picker, preview button and volume slider for a timer panel.
+ * `rowClass` is the host panel's own row class so the rows line up with its
+ * other inputs. Changes are persisted right away.
+ */
+export function renderAlarmChooser(
+  host: ReactiveControllerHost,
+  timer: AlarmTimer,
+  rowClass: string,
+) {
+  const alarm = callerBuddy.getTimerAlarm(timer);
+
+  const chooseFile = async (select?: HTMLSelectElement) => {
+    try {
+      const chosen = await callerBuddy.chooseCustomAlarm(timer);
+      if (!chosen && select) select.value = alarm.sound;
+    } catch (err) {
+      if (select) select.value = alarm.sound;
+      callerBuddy.state.setUserError(`Could not use that alarm file: ${formatUnknownError(err)}`);
+    }
+    host.requestUpdate();
+  };
+
+  const onSoundChange = async (e: Event) => {
+    const select = e.target as HTMLSelectElement;
+    const sound = select.value as AlarmSound;
+    if (sound === "custom" && !alarm.file) {
+      await chooseFile(select);
+      return;
+    }
+    await callerBuddy.setTimerAlarm(timer, { sound });
+    host.requestUpdate();
+  };
+
+  const onVolumeChange = async (e: Event) => {
+    await callerBuddy.setTimerAlarm(timer, { volume: Number((e.target as HTMLInputElement).value) });
+    host.requestUpdate();
+  };
+
+  return html`
+    <div class=${rowClass}>
+      <label>Alarm:</label>
+      <select title="Sound played when the timer runs out" @change=${onSoundChange}>
+        ${ALARM_SOUNDS.map(
+          (s) => html`<option value=${s} ?selected=${s === alarm.sound}>${ALARM_SOUND_LABELS[s]}</option>`,
+        )}
+      </select>
+      <button type="button" class="alarm-preview" title="Play the alarm"
+        @click=${() => void callerBuddy.previewTimerAlarm(timer)}>▶</button>
+    </div>
+    ${alarm.sound === "custom"
+      ? html`
+          <div class=${rowClass}>
+            <span class="alarm-file" title=${alarm.file}>${alarm.file || "No file chosen"}</span>
+            <button type="button" title="Choose an audio file inside your CallerBuddySongs folder"
+              @click=${() => void chooseFile()}>Choose…</button>
+          </div>
+        `
+      : nothing}
+    <div class=${rowClass}>
+      <label>Volume:</label>
+      <input
+        type="range"
+        min="0"
+        max="100"
+        step="5"
+        title="Alarm volume: ${alarm.volume}"
+        .value=${String(alarm.volume)}
+        @change=${onVolumeChange}
+      />
+    </div>
+  `;
+}